@@ -0,0 +1,260 @@
+/**
+ * Ignore corpus: builds a git repository full of tricky ignore cases and checks
+ * that the pruned file walk used for discovery lists exactly the files
+ * `git ls-files --others --cached --exclude-standard` lists.
+ *
+ * Covers negations, anchored and nested patterns, `dir/` versus `dir/**`,
+ * escapes, character classes, info/exclude, core.excludesFile and symlinks.
+ * Built-in ignores apply on top of git's rules, so paths they match are dropped
+ * from git's list; the corpus avoids built-in names so git's rules decide.
+ *
+ * Run with `npm test`; needs git on the PATH.
+ */
+const esbuild = require("esbuild");
+const { execFileSync } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+/** Files of the corpus repository, by path */
+const FILES = {
+	".gitignore": [
+		"# Negation: all logs except one",
+		"*.log",
+		"!keep.log",
+		"# A negation cannot re-include a file inside an excluded directory",
+		"logs/",
+		"!logs/important.log",
+		"# Anchored to the root",
+		"/root-only.txt",
+		"# A slash in the middle anchors too",
+		"docs/*.md",
+		"# dir/ excludes the directory, dir/** only its contents",
+		"reports/",
+		"!reports/keep.txt",
+		"bundle/**",
+		"!bundle/keep.txt",
+		"# Any depth",
+		"**/scratch",
+		"a/**/b.txt",
+		"# Escapes and character classes",
+		"\\#hash.txt",
+		"[bc]at.txt",
+		"# Directory-only pattern does not match a file of the same name",
+		"stash/",
+		"# Symlinks are matched like files",
+		"ignored-link.txt",
+		"",
+	].join("\n"),
+	"keep.log": "",
+	"drop.log": "",
+	"logs/important.log": "",
+	"logs/other.txt": "",
+	"root-only.txt": "",
+	"sub/root-only.txt": "",
+	"docs/a.md": "",
+	"docs/sub/b.md": "",
+	"other/docs/a.md": "",
+	"reports/keep.txt": "",
+	"reports/x.js": "",
+	"bundle/keep.txt": "",
+	"bundle/y.js": "",
+	"scratch/t.txt": "",
+	"src/deep/scratch/t.txt": "",
+	"src/scratch.txt": "",
+	"a/b.txt": "",
+	"a/x/y/b.txt": "",
+	"a/x/c.txt": "",
+	"#hash.txt": "",
+	"bat.txt": "",
+	"cat.txt": "",
+	"dat.txt": "",
+	"src/stash": "a file, not a directory",
+	"lib/stash/c.txt": "",
+	"real.txt": "",
+	"excluded-by-info.txt": "",
+	"excluded-globally.txt": "",
+	// Nested .gitignore: unanchored patterns match below it, anchored ones relative to it
+	"packages/api/.gitignore": [
+		"gen/",
+		"/local.txt",
+		"!important.draft",
+		"",
+	].join("\n"),
+	"packages/api/gen/a.ts": "",
+	"packages/api/local.txt": "",
+	"packages/api/src/local.txt": "",
+	"packages/api/important.draft": "",
+	"packages/api/other.draft": "",
+	"packages/web/gen/b.ts": "",
+	"packages/web/x.draft": "",
+	// Parent rule that packages/api/.gitignore overrides with a negation
+	"packages/.gitignore": "*.draft\n",
+};
+
+/** Symlinks of the corpus repository: link path to target (relative to the link) */
+const SYMLINKS = {
+	"link-to-file.txt": "real.txt",
+	"ignored-link.txt": "real.txt",
+	"link.log": "real.txt",
+	// Git lists a directory link as one entry; the walk follows it (see collapseSymlinks)
+	"linked-dir": "../outside",
+};
+
+/** Files of the directory outside the repository that `linked-dir` points to */
+const OUTSIDE_FILES = ["one.txt", "nested/two.txt"];
+
+/** Stand-in for the parts of the VS Code API the ignore service uses */
+const VSCODE_STUB = `
+class EventEmitter {
+	constructor() { this.event = () => ({ dispose() {} }); }
+	fire() {}
+	dispose() {}
+}
+module.exports = {
+	EventEmitter,
+	RelativePattern: class { constructor(base, pattern) { this.base = base; this.pattern = pattern; } },
+	Uri: { file: (fsPath) => ({ fsPath }) },
+	window: { showWarningMessage: async () => undefined, showErrorMessage: async () => undefined },
+	workspace: {
+		getConfiguration: () => ({ get: (key, fallback) => fallback }),
+		onDidChangeConfiguration: () => ({ dispose() {} }),
+		createFileSystemWatcher: () => ({ onDidCreate() {}, onDidChange() {}, onDidDelete() {}, dispose() {} }),
+	},
+};
+`;
+
+const ENTRY = `
+import { IgnorePatternService } from "./src/services/IgnorePatternService";
+import { walkFiles } from "./src/utils/fileWalker";
+import { ALWAYS_IGNORE } from "./src/utils/alwaysIgnore";
+import ignore from "ignore";
+const builtin = ignore().add(ALWAYS_IGNORE);
+export function isBuiltinIgnored(relativePath: string): boolean {
+	const segments = relativePath.split("/");
+	return segments.some((_, index) =>
+		builtin.ignores(index < segments.length - 1 ? segments.slice(0, index + 1).join("/") + "/" : relativePath)
+	);
+}
+export async function walk(rootPath: string): Promise<string[]> {
+	const service = new IgnorePatternService({ subscriptions: [] } as any);
+	const workspace = { id: "corpus", name: "corpus", rootPath, uri: "", index: 0 };
+	return walkFiles(rootPath, (absolutePath, isDirectory) =>
+		service.isPathIgnored(absolutePath, workspace, isDirectory)
+	);
+}
+`;
+
+function writeFile(root, relativePath, content) {
+	const filePath = path.join(root, relativePath);
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
+	fs.writeFileSync(filePath, content);
+}
+
+/**
+ * Create the corpus repository; returns its path
+ */
+function createCorpus(baseDir) {
+	const repo = path.join(baseDir, "repo");
+	for (const [relativePath, content] of Object.entries(FILES)) {
+		writeFile(repo, relativePath, content);
+	}
+	for (const relativePath of OUTSIDE_FILES) {
+		writeFile(path.join(baseDir, "outside"), relativePath, "");
+	}
+	for (const [linkPath, target] of Object.entries(SYMLINKS)) {
+		fs.symlinkSync(target, path.join(repo, linkPath));
+	}
+
+	const git = (...args) => execFileSync("git", args, { cwd: repo, stdio: "pipe" });
+	git("init", "--quiet");
+	writeFile(repo, ".git/info/exclude", "excluded-by-info.txt\n");
+	writeFile(baseDir, "global-ignore", "excluded-globally.txt\n");
+	git("config", "core.excludesFile", path.join(baseDir, "global-ignore"));
+	return repo;
+}
+
+/**
+ * Load the walk and ignore service from the sources
+ */
+async function loadWalk(baseDir) {
+	const outfile = path.join(baseDir, "walk.js");
+	await esbuild.build({
+		stdin: { contents: ENTRY, loader: "ts", resolveDir: path.join(__dirname, "..") },
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		outfile,
+		logLevel: "error",
+		plugins: [
+			{
+				name: "vscode-stub",
+				setup(build) {
+					build.onResolve({ filter: /^vscode$/ }, () => ({ path: "vscode", namespace: "vscode-stub" }));
+					build.onLoad({ filter: /.*/, namespace: "vscode-stub" }, () => ({ contents: VSCODE_STUB, loader: "js" }));
+				},
+			},
+		],
+	});
+	return require(outfile);
+}
+
+/**
+ * Report files below a followed directory link as the link itself, the way git lists it
+ */
+function collapseSymlinks(repo, relativePath) {
+	const segments = relativePath.split("/");
+	for (let depth = 1; depth < segments.length; depth++) {
+		const prefix = segments.slice(0, depth).join("/");
+		if (fs.lstatSync(path.join(repo, prefix)).isSymbolicLink()) {
+			return prefix;
+		}
+	}
+	return relativePath;
+}
+
+async function main() {
+	const baseDir = fs.mkdtempSync(path.join(os.tmpdir(), "prompt-tower-ignore-corpus-"));
+	try {
+		const repo = createCorpus(baseDir);
+		const { walk, isBuiltinIgnored } = await loadWalk(baseDir);
+		const expected = execFileSync(
+			"git",
+			["ls-files", "--others", "--cached", "--exclude-standard"],
+			{ cwd: repo, encoding: "utf8" }
+		)
+			.split("\n")
+			.filter(Boolean)
+			.map((line) => line.replace(/^"(.*)"$/, "$1"))
+			.filter((file) => !isBuiltinIgnored(file));
+
+		const actual = new Set(
+			(await walk(repo)).map((filePath) =>
+				collapseSymlinks(repo, path.relative(repo, filePath).split(path.sep).join("/"))
+			)
+		);
+		const expectedSet = new Set(expected);
+
+		const missing = [...expectedSet].filter((file) => !actual.has(file)).sort();
+		const extra = [...actual].filter((file) => !expectedSet.has(file)).sort();
+
+		if (missing.length === 0 && extra.length === 0) {
+			console.log(`Ignore corpus: ${expectedSet.size} files, walk matches git.`);
+			return;
+		}
+		for (const file of missing) {
+			console.error(`missing (git lists it, the walk does not): ${file}`);
+		}
+		for (const file of extra) {
+			console.error(`extra (the walk lists it, git does not): ${file}`);
+		}
+		process.exitCode = 1;
+	} finally {
+		fs.rmSync(baseDir, { recursive: true, force: true });
+	}
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
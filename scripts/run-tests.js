@@ -0,0 +1,47 @@
+/**
+ * Test runner: bundles each `src/test/*.test.ts` with esbuild and runs the
+ * bundles with Node's built-in test runner (`node --test`).
+ *
+ * Tests cover the pure modules in src/utils; `vscode` is left external, so a
+ * test must not import a module that needs it at load time.
+ */
+const esbuild = require("esbuild");
+const { spawnSync } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const TEST_DIR = path.join(__dirname, "..", "src", "test");
+
+async function main() {
+	const entryPoints = fs
+		.readdirSync(TEST_DIR)
+		.filter((file) => file.endsWith(".test.ts"))
+		.map((file) => path.join(TEST_DIR, file));
+
+	const outdir = fs.mkdtempSync(path.join(os.tmpdir(), "prompt-tower-tests-"));
+	try {
+		await esbuild.build({
+			entryPoints,
+			bundle: true,
+			platform: "node",
+			format: "cjs",
+			outdir,
+			external: ["vscode"],
+			logLevel: "error",
+		});
+
+		const bundles = entryPoints.map((entry) =>
+			path.join(outdir, path.basename(entry).replace(/\.ts$/, ".js"))
+		);
+		const result = spawnSync(process.execPath, ["--test", "--test-reporter=spec", ...bundles], { stdio: "inherit" });
+		process.exitCode = result.status ?? 1;
+	} finally {
+		fs.rmSync(outdir, { recursive: true, force: true });
+	}
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
@@ -1,4 +1,6 @@
 import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
 import { MultiRootTreeProvider } from "./providers/MultiRootTreeProvider";
 import {
   GitHubIssuesProvider,
@@ -8,17 +10,53 @@ import {
   GitHubPRsProvider,
   GitHubPR,
 } from "./providers/GitHubPRsProvider";
+import { SnippetsProvider } from "./providers/SnippetsProvider";
 import { WorkspaceManager } from "./services/WorkspaceManager";
 import { FileDiscoveryService } from "./services/FileDiscoveryService";
 import { TokenCountingService } from "./services/TokenCountingService";
-import { IgnorePatternService } from "./services/IgnorePatternService";
-import { ContextGenerationService } from "./services/ContextGenerationService";
+import { TokenCacheService } from "./services/TokenCacheService";
+import { TokenizerWorkerPool } from "./services/TokenizerWorkerPool";
+import {
+  IgnoreExplanation,
+  IgnorePatternService,
+} from "./services/IgnorePatternService";
+import {
+  ContextGenerationService,
+  TokenBudgetReport,
+} from "./services/ContextGenerationService";
 import { PromptPushService, AIProvider } from "./services/PromptPushService";
 import { EditorAutomationService } from "./services/EditorAutomationService";
 import { PromptHistoryService, PromptType } from "./services/PromptHistoryService";
-import { FileNode } from "./models/FileNode";
+import { SecretScanService } from "./services/SecretScanService";
+import { FileSniffService } from "./services/FileSniffService";
+import { FileEncodingService } from "./services/FileEncodingService";
+import { SymbolSelectionService } from "./services/SymbolSelectionService";
+import { RenderModeService, RenderMode } from "./services/RenderModeService";
+import {
+  PROJECT_CONFIG_FILE_NAMES,
+  ProjectConfigService,
+} from "./services/ProjectConfigService";
+import {
+  ChangedFilesScope,
+  GitDiffMode,
+  GitDiffSource,
+  GitService,
+} from "./services/GitService";
+import {
+  ImportDependent,
+  ImportGraphService,
+} from "./services/ImportGraphService";
+import {
+  SelectionSet,
+  SelectionSetService,
+  StoredSelectionSet,
+} from "./services/SelectionSetService";
+import { FileNode, FileNodeUtils } from "./models/FileNode";
+import { Snippet } from "./models/Snippet";
 import { TokenUpdatePayload } from "./models/Events";
 import { GitHubConfigManager } from "./utils/githubConfig";
+import { getTokenizers } from "./utils/tokenizers";
+import { OUTPUT_PRESETS, toOutputPreset } from "./utils/outputFormats";
 import { getWebviewHtml, WebviewParams } from "./extension.webview.html";
 
 // --- Webview Panel Handling ---
@@ -35,15 +73,29 @@ let contextGenerationService: ContextGenerationService;
 let promptPushService: PromptPushService;
 let editorAutomationService: EditorAutomationService;
 let promptHistoryService: PromptHistoryService;
+let selectionSetService: SelectionSetService;
+let importGraphService: ImportGraphService;
+let gitService: GitService;
+let secretScanService: SecretScanService;
+let fileSniffService: FileSniffService;
+let renderModeService: RenderModeService;
+let projectConfigService: ProjectConfigService;
 let multiRootProvider: MultiRootTreeProvider;
 let issuesProviderInstance: GitHubIssuesProvider | undefined;
 let prsProviderInstance: GitHubPRsProvider | undefined;
+let snippetsProvider: SnippetsProvider;
 let mainTreeView: vscode.TreeView<FileNode>;
 let statusWebview: vscode.WebviewView | undefined;
 
 // --- Preview State ---
 let isPreviewValid = false;
 
+// Tree type currently chosen in the webview (saved with selection sets)
+let currentTreeType = "fullFilesAndDirectories";
+
+// Prompt text last filled in from the project config, replaced when the config changes
+let appliedProjectPrompt = { prefix: "", suffix: "" };
+
 // --- Helper Functions ---
 function updateWebviewVisibilityContext() {
   const isVisible = webviewPanel !== undefined && webviewPanel.visible;
@@ -92,6 +144,757 @@ async function showFilePreview(fileNode: FileNode): Promise<void> {
   }
 }
 
+// --- Token Budget Helper ---
+const TRIM_ACTION_LABELS = {
+  commentsStripped: "Comments stripped",
+  outlined: "Reduced to outline",
+  dropped: "Dropped",
+};
+
+async function showTokenBudgetReport(report: TokenBudgetReport): Promise<void> {
+  if (report.withinBudget && report.trimmedFiles.length === 0) {
+    return;
+  }
+
+  const summary = report.withinBudget
+    ? `Context fitted into ${report.budget.toLocaleString()} tokens (${report.tokenCount.toLocaleString()} used); ${report.trimmedFiles.length} file(s) trimmed.`
+    : `Context is ${report.tokenCount.toLocaleString()} tokens, still over the ${report.budget.toLocaleString()} token budget.`;
+  const choice = report.withinBudget
+    ? await vscode.window.showInformationMessage(summary, "Show Details")
+    : await vscode.window.showWarningMessage(summary, "Show Details");
+  if (choice !== "Show Details") {
+    return;
+  }
+
+  const lines = [
+    "# Token Budget Report",
+    "",
+    `- Budget: ${report.budget.toLocaleString()} tokens`,
+    `- Context size: ${report.tokenCount.toLocaleString()} tokens`,
+    `- Project tree: ${report.treeType}`,
+    "",
+  ];
+  if (report.trimmedFiles.length > 0) {
+    lines.push("| File | Action |", "| --- | --- |");
+    for (const file of report.trimmedFiles) {
+      lines.push(`| ${file.relativePath} | ${TRIM_ACTION_LABELS[file.action]} |`);
+    }
+  } else {
+    lines.push("No files were trimmed.");
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    content: lines.join("\n"),
+    language: "markdown",
+  });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
+
+/**
+ * Generation options sent by the webview with every output request
+ */
+function toGenerationOptions(options: {
+  treeType?: string;
+  removeComments?: boolean;
+  tokenBudget?: unknown;
+} = {}): { treeType: string; removeComments: boolean; tokenBudget?: number } {
+  return {
+    treeType: options.treeType || "fullFilesAndDirectories",
+    removeComments: options.removeComments ?? false,
+    tokenBudget:
+      typeof options.tokenBudget === "number" ? options.tokenBudget : undefined,
+  };
+}
+
+// --- Selection Set Helpers ---
+function captureSelectionSet(name: string): SelectionSet {
+  return {
+    name,
+    paths: selectionSetService.toSetPaths(
+      multiRootProvider.getTopmostCheckedPaths()
+    ),
+    githubIssues: issuesProviderInstance?.getSelectedIssues() ?? [],
+    githubPRs: prsProviderInstance?.getSelectedPRs() ?? [],
+    prefix: multiRootProvider.getPromptPrefix(),
+    suffix: multiRootProvider.getPromptSuffix(),
+    treeType: currentTreeType,
+    savedAt: new Date().toISOString(),
+  };
+}
+
+async function applySelectionSet(set: SelectionSet): Promise<void> {
+  const { absolutePaths, missing } = selectionSetService.resolvePaths(set.paths);
+
+  await multiRootProvider.restoreCheckedPaths(absolutePaths);
+  await Promise.all([
+    issuesProviderInstance?.setSelectedIssues(set.githubIssues),
+    prsProviderInstance?.setSelectedPRs(set.githubPRs),
+  ]);
+
+  multiRootProvider.setPromptPrefix(set.prefix);
+  multiRootProvider.setPromptSuffix(set.suffix);
+  if (set.treeType) {
+    currentTreeType = set.treeType;
+  }
+  if (webviewPanel) {
+    webviewPanel.webview.postMessage({ command: "updatePrefix", text: set.prefix });
+    webviewPanel.webview.postMessage({ command: "updateSuffix", text: set.suffix });
+    webviewPanel.webview.postMessage({ command: "setTreeType", treeType: currentTreeType });
+  }
+  invalidateWebviewPreview();
+
+  if (missing.length > 0) {
+    const folders = Array.from(new Set(missing.map((p) => p.workspace))).join(", ");
+    vscode.window.showWarningMessage(
+      `Loaded selection set "${set.name}", but ${missing.length} path(s) belong to workspace folders that are not open: ${folders}`
+    );
+  } else {
+    vscode.window.showInformationMessage(`Loaded selection set "${set.name}".`);
+  }
+}
+
+async function pickSelectionSet(
+  placeHolder: string,
+  writableOnly = false
+): Promise<StoredSelectionSet | undefined> {
+  const items = await selectionSetService.getQuickPickItems(writableOnly);
+  if (items.length === 0) {
+    vscode.window.showInformationMessage(
+      "No selection sets saved yet. Use \"Save Selection Set\" first."
+    );
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder,
+    title: "Selection Sets",
+  });
+  return selected?.stored;
+}
+
+async function showSelectionSetDiff(
+  base: SelectionSet,
+  other: SelectionSet
+): Promise<void> {
+  const diff = SelectionSetService.diff(base, other);
+  const formatPath = (p: { workspace: string; path: string }) =>
+    `\`${p.workspace}/${p.path}\``;
+
+  const lines = [`# Selection sets: ${base.name} → ${other.name}`, ""];
+  const addSection = (title: string, entries: string[]) => {
+    if (entries.length > 0) {
+      lines.push(`## ${title}`, "", ...entries.map((entry) => `- ${entry}`), "");
+    }
+  };
+
+  addSection("Added paths", diff.addedPaths.map(formatPath));
+  addSection("Removed paths", diff.removedPaths.map(formatPath));
+  addSection("Added issues", diff.addedIssues.map((n) => `#${n}`));
+  addSection("Removed issues", diff.removedIssues.map((n) => `#${n}`));
+  addSection("Added PRs", diff.addedPRs.map((n) => `#${n}`));
+  addSection("Removed PRs", diff.removedPRs.map((n) => `#${n}`));
+  addSection(
+    "Other changes",
+    [
+      diff.prefixChanged ? "Prefix differs" : "",
+      diff.suffixChanged ? "Suffix differs" : "",
+      diff.treeTypeChanged
+        ? `Tree type: ${base.treeType ?? "default"} → ${other.treeType ?? "default"}`
+        : "",
+    ].filter((entry) => entry)
+  );
+
+  if (lines.length === 2) {
+    lines.push("The selection sets are identical.");
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    content: lines.join("\n"),
+    language: "markdown",
+  });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
+
+// --- Project Config ---
+/**
+ * Apply the default tree type and prompt text of the project config
+ * Prefix and suffix are only filled in when empty or still showing the previous default
+ */
+function applyProjectConfigDefaults(): void {
+  const config = contextGenerationService.getConfig();
+  currentTreeType = config.projectTree.type;
+
+  if (
+    !multiRootProvider.getPromptPrefix() ||
+    multiRootProvider.getPromptPrefix() === appliedProjectPrompt.prefix
+  ) {
+    multiRootProvider.setPromptPrefix(config.promptPrefix);
+  }
+  if (
+    !multiRootProvider.getPromptSuffix() ||
+    multiRootProvider.getPromptSuffix() === appliedProjectPrompt.suffix
+  ) {
+    multiRootProvider.setPromptSuffix(config.promptSuffix);
+  }
+  appliedProjectPrompt = { prefix: config.promptPrefix, suffix: config.promptSuffix };
+
+  if (webviewPanel) {
+    webviewPanel.webview.postMessage({
+      command: "updatePrefix",
+      text: multiRootProvider.getPromptPrefix(),
+    });
+    webviewPanel.webview.postMessage({
+      command: "updateSuffix",
+      text: multiRootProvider.getPromptSuffix(),
+    });
+    webviewPanel.webview.postMessage({ command: "setTreeType", treeType: currentTreeType });
+  }
+  invalidateWebviewPreview();
+}
+
+/**
+ * Open the project config file, creating a starter `.prompttower.json` if there is none
+ */
+async function openProjectConfig(): Promise<void> {
+  const existing = projectConfigService.getLoaded()?.filePath;
+  if (existing) {
+    await vscode.window.showTextDocument(vscode.Uri.file(existing));
+    return;
+  }
+
+  const primaryWorkspace = workspaceManager.getPrimaryWorkspace();
+  if (!primaryWorkspace) {
+    vscode.window.showErrorMessage("Open a workspace folder first.");
+    return;
+  }
+
+  const config = contextGenerationService.getConfig();
+  const starter = {
+    templates: {
+      block: config.blockTemplate,
+      wrapper: config.wrapperTemplate,
+    },
+    projectTree: { type: config.projectTree.type },
+    tokenBudget: { limit: config.tokenBudget.limit },
+    priorities: {},
+    prompt: { prefix: "", suffix: "" },
+    presets: {},
+  };
+
+  const uri = vscode.Uri.joinPath(
+    vscode.Uri.file(primaryWorkspace.rootPath),
+    PROJECT_CONFIG_FILE_NAMES[0]
+  );
+  try {
+    await vscode.workspace.fs.writeFile(
+      uri,
+      Buffer.from(JSON.stringify(starter, null, 2) + "\n", "utf8")
+    );
+    projectConfigService.reload();
+    await vscode.window.showTextDocument(uri);
+  } catch (error) {
+    console.error("Error creating project config:", error);
+    vscode.window.showErrorMessage(
+      `Failed to create ${PROJECT_CONFIG_FILE_NAMES[0]}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// --- Secret Scanning ---
+/**
+ * Check generated context for secrets before it is copied or pushed
+ * Returns the text to send, or undefined if the user cancelled
+ */
+async function reviewOutgoingContext(
+  contextString: string,
+  destination: string
+): Promise<string | undefined> {
+  const reviewed = await secretScanService.review(
+    contextString,
+    multiRootProvider.getRootNodes(),
+    destination,
+    contextGenerationService.getConfig().outputPreset === "json"
+  );
+  if (reviewed === undefined) {
+    vscode.window.showInformationMessage(
+      `Sending context to ${destination} was cancelled.`
+    );
+  }
+  return reviewed;
+}
+
+// --- Git Changes Helpers ---
+const GIT_DIFF_SOURCE_KEY = "promptTower.gitDiffSource";
+
+/**
+ * Change which local git changes are included and remember the choice for this workspace
+ */
+async function updateGitDiffSource(
+  context: vscode.ExtensionContext,
+  source: GitDiffSource | null
+): Promise<void> {
+  contextGenerationService.setGitDiffSource(source);
+  await context.workspaceState.update(GIT_DIFF_SOURCE_KEY, source ?? undefined);
+
+  webviewPanel?.webview.postMessage({
+    command: "setGitDiffMode",
+    mode: source?.mode ?? "",
+  });
+  invalidateWebviewPreview();
+}
+
+/**
+ * Ask for the branch or commit to compare against
+ */
+async function promptGitDiffRef(mode: "base" | "commit"): Promise<string | undefined> {
+  const primaryWorkspace = workspaceManager.getPrimaryWorkspace();
+  const ref = await vscode.window.showInputBox(
+    mode === "base"
+      ? {
+          title: "Git Changes: Base Branch",
+          prompt: "Include changes made since this branch was forked",
+          value: primaryWorkspace
+            ? gitService.getDefaultBranch(primaryWorkspace.rootPath)
+            : "main",
+        }
+      : {
+          title: "Git Changes: Commit",
+          prompt: "Include changes made since this commit, tag or other revision",
+          placeHolder: "e.g. HEAD~3, a1b2c3d, v1.2.0",
+        }
+  );
+  return ref?.trim() || undefined;
+}
+
+/**
+ * Set the git changes source from a mode, asking for a commit when needed
+ */
+async function selectGitDiffMode(
+  context: vscode.ExtensionContext,
+  mode: GitDiffMode | ""
+): Promise<void> {
+  if (mode === "") {
+    await updateGitDiffSource(context, null);
+    return;
+  }
+
+  if (mode === "commit") {
+    const ref = await promptGitDiffRef("commit");
+    if (!ref) {
+      // Put the webview selector back to the current source
+      await updateGitDiffSource(context, contextGenerationService.getGitDiffSource());
+      return;
+    }
+    await updateGitDiffSource(context, { mode, ref });
+    return;
+  }
+
+  await updateGitDiffSource(context, { mode });
+}
+
+/**
+ * Check the files git reports as changed in every workspace folder
+ */
+async function selectChangedFiles(scope: ChangedFilesScope): Promise<void> {
+  if (!multiRootProvider) {
+    return;
+  }
+
+  const changedFiles = new Set<string>();
+  let repositoryCount = 0;
+
+  for (const workspace of workspaceManager.getWorkspaces()) {
+    if (!(await gitService.isRepository(workspace.rootPath))) {
+      continue;
+    }
+    repositoryCount++;
+
+    try {
+      for (const filePath of await gitService.getChangedFiles(workspace.rootPath, scope)) {
+        changedFiles.add(filePath);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Error listing changed files in ${workspace.rootPath}:`, error);
+      vscode.window.showErrorMessage(
+        `Could not list changed files in ${workspace.name}: ${errorMessage}`
+      );
+    }
+  }
+
+  if (repositoryCount === 0) {
+    vscode.window.showWarningMessage("No git repository found in the workspace folders.");
+    return;
+  }
+
+  const { checked, notFound } = multiRootProvider.checkFilePaths(Array.from(changedFiles));
+  invalidateWebviewPreview();
+
+  if (changedFiles.size === 0) {
+    vscode.window.showInformationMessage("No changed files found.");
+    return;
+  }
+
+  const skipped =
+    notFound.length > 0
+      ? ` ${notFound.length} changed file(s) are ignored or outside the workspace folders.`
+      : "";
+  vscode.window.showInformationMessage(
+    checked.length > 0
+      ? `Selected ${checked.length} changed file(s).${skipped}`
+      : `All changed files are already selected.${skipped}`
+  );
+}
+
+// --- Render Mode Helpers ---
+/**
+ * Files of the given tree nodes, or the active editor's file when no nodes are given
+ * Empty (after telling the user) when there is neither
+ */
+function getRenderTargetPaths(nodes: FileNode[]): string[] {
+  let filePaths = nodes.flatMap((node) =>
+    FileNodeUtils.getDescendantFiles(node).map((fileNode) => fileNode.absolutePath)
+  );
+  if (nodes.length === 0 && vscode.window.activeTextEditor?.document.uri.scheme === "file") {
+    filePaths = [vscode.window.activeTextEditor.document.uri.fsPath];
+  }
+  if (filePaths.length === 0) {
+    vscode.window.showInformationMessage("Select files in the Prompt Tower view first.");
+  }
+  return filePaths;
+}
+
+/**
+ * Render the files of the given tree nodes (or the active editor's file) in a mode
+ */
+async function setRenderMode(nodes: FileNode[], mode: RenderMode): Promise<void> {
+  const filePaths = getRenderTargetPaths(nodes);
+  if (filePaths.length === 0) {
+    return;
+  }
+
+  await renderModeService.setMode(filePaths, mode);
+  invalidateWebviewPreview();
+}
+
+/**
+ * Show or hide line numbers for the files of the given tree nodes (or the active editor's file)
+ */
+async function setLineNumbers(nodes: FileNode[], enabled: boolean): Promise<void> {
+  const filePaths = getRenderTargetPaths(nodes);
+  if (filePaths.length === 0) {
+    return;
+  }
+
+  await renderModeService.setLineNumbers(filePaths, enabled);
+  invalidateWebviewPreview();
+}
+
+// --- Import Dependency Helpers ---
+/**
+ * Propose the files imported by the start node (or all checked files) and select the chosen ones
+ */
+async function selectImportDependencies(startNode?: FileNode): Promise<void> {
+  if (!multiRootProvider) {
+    return;
+  }
+
+  const startFiles = (
+    startNode
+      ? startNode.type === "file"
+        ? [startNode]
+        : FileNodeUtils.getCheckedFiles([startNode])
+      : multiRootProvider.getCheckedFiles()
+  )
+    .map((node) => node.absolutePath)
+    .filter((filePath) => importGraphService.supportsFile(filePath));
+
+  if (startFiles.length === 0) {
+    vscode.window.showInformationMessage(
+      "Select TypeScript, JavaScript, Python or Go files to follow their imports."
+    );
+    return;
+  }
+
+  const maxDepth = vscode.workspace
+    .getConfiguration("promptTower")
+    .get<number>("dependencies.maxDepth", 2);
+
+  const dependencies = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Prompt Tower: Following imports...",
+    },
+    () => importGraphService.collectDependencies(startFiles, maxDepth)
+  );
+
+  // Only propose files that are in the tree (not ignored) and not selected yet
+  const candidates = dependencies
+    .map((dependency) => ({
+      dependency,
+      node: multiRootProvider.findNodeByPath(dependency.absolutePath),
+    }))
+    .filter(({ node }) => node && node.type === "file" && !node.isChecked);
+
+  if (candidates.length === 0) {
+    vscode.window.showInformationMessage(
+      `No unselected dependencies found within ${maxDepth} import level(s).`
+    );
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    candidates.map(({ dependency, node }) => ({
+      label: vscode.workspace.asRelativePath(dependency.absolutePath),
+      description: `depth ${dependency.depth}`,
+      detail: `imported by ${vscode.workspace.asRelativePath(dependency.importedBy)}`,
+      picked: true,
+      node: node!,
+    })),
+    {
+      canPickMany: true,
+      placeHolder: "Select the dependencies to add to the context",
+      title: `Import Dependencies (up to ${maxDepth} level(s))`,
+    }
+  );
+  if (!selected || selected.length === 0) {
+    return;
+  }
+
+  for (const item of selected) {
+    if (!item.node.isChecked) {
+      await multiRootProvider.toggleNodeSelection(item.node);
+    }
+  }
+
+  vscode.window.showInformationMessage(
+    `Added ${selected.length} dependenc${selected.length === 1 ? "y" : "ies"} to the selection.`
+  );
+}
+
+/**
+ * Select every file that imports the node (or a file inside it), directly or transitively
+ */
+async function selectImportDependents(targetNode?: FileNode): Promise<void> {
+  if (!multiRootProvider) {
+    return;
+  }
+
+  if (!targetNode) {
+    const activePath = vscode.window.activeTextEditor?.document.uri.fsPath;
+    targetNode = activePath ? multiRootProvider.findNodeByPath(activePath) : undefined;
+    if (!targetNode) {
+      vscode.window.showInformationMessage(
+        "Right-click a file or folder in the Files view, or open a file, to select its dependents."
+      );
+      return;
+    }
+  }
+
+  const targetFiles = FileNodeUtils.getDescendantFiles(targetNode).map(
+    (node) => node.absolutePath
+  );
+
+  let dependents: ImportDependent[];
+  try {
+    dependents = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Prompt Tower: Finding files that import this...",
+      },
+      (progress) => importGraphService.collectDependents(targetFiles, progress)
+    );
+  } catch (error) {
+    console.error("Failed to build import index:", error);
+    vscode.window.showErrorMessage(
+      `Failed to find dependents: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return;
+  }
+
+  const nodes = dependents
+    .map((dependent) => multiRootProvider.findNodeByPath(dependent.absolutePath))
+    .filter((node): node is FileNode => !!node && node.type === "file" && !node.isChecked);
+
+  if (nodes.length === 0) {
+    vscode.window.showInformationMessage(
+      dependents.length === 0
+        ? `No files import "${targetNode.label}".`
+        : `All files that import "${targetNode.label}" are already selected.`
+    );
+    return;
+  }
+
+  if (nodes.length > 50) {
+    const proceed = await vscode.window.showWarningMessage(
+      `${nodes.length} files import "${targetNode.label}". Select all of them?`,
+      { modal: true },
+      "Select All"
+    );
+    if (proceed !== "Select All") {
+      return;
+    }
+  }
+
+  for (const node of nodes) {
+    await multiRootProvider.toggleNodeSelection(node);
+  }
+
+  const direct = dependents.filter((dependent) => dependent.depth === 1).length;
+  vscode.window.showInformationMessage(
+    `Selected ${nodes.length} file(s) that import "${targetNode.label}" (${direct} directly).`
+  );
+}
+
+/**
+ * Ask for a path to explain: an open file, or any file or folder from a dialog
+ */
+async function pickPathToExplain(): Promise<vscode.Uri | undefined> {
+  const openFiles = new Map<string, vscode.Uri>();
+  for (const tab of vscode.window.tabGroups.all.flatMap((group) => group.tabs)) {
+    if (tab.input instanceof vscode.TabInputText && tab.input.uri.scheme === "file") {
+      openFiles.set(tab.input.uri.fsPath, tab.input.uri);
+    }
+  }
+
+  const browse = { label: "$(folder-opened) Browse...", uri: undefined };
+  const items = [
+    ...Array.from(openFiles.values()).map((uri) => ({
+      label: path.basename(uri.fsPath),
+      description: vscode.workspace.asRelativePath(uri),
+      uri: uri as vscode.Uri | undefined,
+    })),
+    browse,
+  ];
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: "Which file should be explained?",
+  });
+  if (!picked) {
+    return undefined;
+  }
+  if (picked !== browse) {
+    return picked.uri;
+  }
+
+  const selected = await vscode.window.showOpenDialog({
+    canSelectFiles: true,
+    canSelectFolders: true,
+    canSelectMany: false,
+    defaultUri: workspaceManager.getPrimaryWorkspace()
+      ? vscode.Uri.file(workspaceManager.getPrimaryWorkspace()!.rootPath)
+      : undefined,
+    openLabel: "Explain",
+  });
+  return selected?.[0];
+}
+
+/**
+ * Describe the rule behind an explanation, e.g. `"*.log" (.gitignore:5)`
+ */
+function describeIgnoreRule(explanation: IgnoreExplanation, rootPath: string): string {
+  const rule = explanation.rule;
+  if (!rule) {
+    return "an unknown rule";
+  }
+  if (rule.kind === "builtin") {
+    return `the built-in pattern "${rule.pattern}" (${rule.category})`;
+  }
+
+  const relativeFile = path.relative(rootPath, rule.filePath!);
+  const location = relativeFile.startsWith("..") ? rule.filePath! : relativeFile;
+  return `"${rule.pattern}" (${location}:${rule.line})`;
+}
+
+/**
+ * Report which ignore rule excludes a path, offering to open the rule or un-ignore the path
+ */
+async function explainIgnoredPath(target?: vscode.Uri | FileNode): Promise<void> {
+  const uri = !target
+    ? await pickPathToExplain()
+    : target instanceof vscode.Uri
+      ? target
+      : vscode.Uri.file(target.absolutePath);
+  if (!uri) {
+    return;
+  }
+
+  const absolutePath = uri.fsPath;
+  const workspace = workspaceManager.getWorkspaceForPath(absolutePath);
+  const displayPath = vscode.workspace.asRelativePath(uri);
+  if (!workspace) {
+    vscode.window.showInformationMessage(
+      `"${displayPath}" is outside the Prompt Tower workspace folders.`
+    );
+    return;
+  }
+
+  let isDirectory = false;
+  try {
+    isDirectory = fs.statSync(absolutePath).isDirectory();
+  } catch {
+    // Deleted files are explained like files
+  }
+
+  const explanation = ignorePatternService.explainPath(absolutePath, workspace, isDirectory);
+  if (!explanation.ignored) {
+    vscode.window.showInformationMessage(`"${displayPath}" is not ignored by Prompt Tower.`);
+    return;
+  }
+
+  const rule = describeIgnoreRule(explanation, workspace.rootPath);
+  const message = explanation.ignoredDirectory
+    ? `"${displayPath}" is ignored because its folder "${explanation.ignoredDirectory}/" matches ${rule}.`
+    : `"${displayPath}" is ignored by ${rule}.`;
+
+  const actions = ["Un-ignore for Prompt Tower"];
+  if (explanation.rule?.filePath) {
+    actions.push("Open Rule");
+  }
+
+  const choice = await vscode.window.showInformationMessage(message, ...actions);
+  if (choice === "Open Rule") {
+    const line = explanation.rule!.line! - 1;
+    await vscode.window.showTextDocument(vscode.Uri.file(explanation.rule!.filePath!), {
+      selection: new vscode.Range(line, 0, line, 0),
+    });
+  } else if (choice === "Un-ignore for Prompt Tower") {
+    unignoreForPromptTower(absolutePath, isDirectory);
+  }
+}
+
+/**
+ * Include an ignored path in Prompt Tower by adding negations to `.towerignore`
+ */
+function unignoreForPromptTower(absolutePath: string, isDirectory: boolean): void {
+  const workspace = workspaceManager.getWorkspaceForPath(absolutePath);
+  if (!workspace) {
+    return;
+  }
+
+  const displayPath = vscode.workspace.asRelativePath(absolutePath);
+  const { writtenFiles, included } = ignorePatternService.unignorePath(
+    absolutePath,
+    workspace,
+    isDirectory
+  );
+
+  const files = writtenFiles
+    .map((filePath) => path.relative(workspace.rootPath, filePath))
+    .join(", ");
+  if (writtenFiles.length === 0 && included) {
+    vscode.window.showInformationMessage(`"${displayPath}" is not ignored by Prompt Tower.`);
+  } else if (included) {
+    vscode.window.showInformationMessage(
+      `"${displayPath}" is now included in Prompt Tower (updated ${files}).`
+    );
+  } else {
+    vscode.window.showWarningMessage(
+      `Could not un-ignore "${displayPath}"${files ? ` (updated ${files})` : ""}. Check the console for details.`
+    );
+  }
+}
+
 // --- Webview Content Generation ---
 function getWebviewContent(
   webview: vscode.Webview,
@@ -136,6 +939,20 @@ function getWebviewContent(
     prefixCollapsed,
     suffixCollapsed,
     automationCollapsed,
+    tokenBudget: contextGenerationService.getConfig().tokenBudget.limit,
+    tokenizer: TokenCountingService.getConfiguredTokenizer().id,
+    tokenizers: getTokenizers().map(({ id, label, description }) => ({
+      id,
+      label,
+      description,
+    })),
+    gitDiffMode: contextGenerationService.getGitDiffSource()?.mode ?? "",
+    outputPreset: contextGenerationService.getConfig().outputPreset,
+    outputPresets: OUTPUT_PRESETS.map(({ id, label, description }) => ({
+      id,
+      label,
+      description,
+    })),
   };
 
   return getWebviewHtml(params);
@@ -210,11 +1027,16 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
               command: "updateSuffix",
               text: multiRootProvider.getPromptSuffix(),
             });
+            webviewPanel.webview.postMessage({
+              command: "setTreeType",
+              treeType: currentTreeType,
+            });
             webviewPanel.webview.postMessage({
               command: "tokenUpdate",
               payload: {
                 count: tokenCountingService.getCurrentTokenCount(),
                 isCounting: tokenCountingService.getIsCounting(),
+                tokenizer: tokenCountingService.getTokenizer().id,
               },
             });
             // Send initial tree visibility state
@@ -225,26 +1047,58 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
           }
           break;
 
+        case "setGitDiffMode":
+          await selectGitDiffMode(context, message.mode);
+          break;
+
+        case "updateTreeType":
+          if (typeof message.treeType === "string") {
+            currentTreeType = message.treeType;
+          }
+          break;
+
+        case "setTokenizer":
+          if (typeof message.tokenizer === "string") {
+            const config = vscode.workspace.getConfiguration("promptTower");
+            // Write to the scope that currently defines the setting so the change takes effect
+            const target =
+              config.inspect<string>("tokenizer")?.workspaceValue !== undefined
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+            await config.update("tokenizer", message.tokenizer, target);
+          }
+          break;
+
+        case "setOutputPreset":
+          if (typeof message.preset === "string") {
+            const config = vscode.workspace.getConfiguration("promptTower");
+            // Write to the scope that currently defines the setting so the change takes effect
+            const target =
+              config.inspect<string>("outputPreset")?.workspaceValue !== undefined
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+            await config.update("outputPreset", toOutputPreset(message.preset), target);
+          }
+          break;
+
         case "createContext":
           if (multiRootProvider && contextGenerationService && webviewPanel) {
             try {
               // Process options from webview
               const options = message.options || {};
-              const treeType = options.treeType || "fullFilesAndDirectories";
               const copyToClipboard = options.copyToClipboard ?? true;
-              const removeComments = options.removeComments ?? false;
 
               const allRootNodes = multiRootProvider.getRootNodes();
               const prefix = multiRootProvider.getPromptPrefix();
               const suffix = multiRootProvider.getPromptSuffix();
 
-              // Generate context with tree type option
+              // Generate context with the tree type, comment and budget options
               const result = await contextGenerationService.generateContext(
                 allRootNodes,
                 {
                   prefix,
                   suffix,
-                  treeType: treeType,
+                  ...toGenerationOptions(options),
                 }
               );
 
@@ -261,10 +1115,17 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
 
               // Copy to clipboard if option is checked
               if (copyToClipboard) {
-                await vscode.env.clipboard.writeText(result.contextString);
-                vscode.window.showInformationMessage(
-                  "✨ Context copied to clipboard!"
+                const contextString = await reviewOutgoingContext(
+                  result.contextString,
+                  "the clipboard"
                 );
+                if (contextString !== undefined) {
+                  result.contextString = contextString;
+                  await vscode.env.clipboard.writeText(contextString);
+                  vscode.window.showInformationMessage(
+                    "✨ Context copied to clipboard!"
+                  );
+                }
               }
 
               webviewPanel.webview.postMessage({
@@ -272,6 +1133,10 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
                 payload: { context: result.contextString },
               });
               isPreviewValid = true;
+
+              if (result.budget) {
+                showTokenBudgetReport(result.budget);
+              }
             } catch (error) {
               vscode.window.showErrorMessage(
                 `Error generating context: ${error}`
@@ -291,6 +1156,9 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
                   suffix: multiRootProvider.getPromptSuffix(),
                 }
               );
+              if (result.budget) {
+                showTokenBudgetReport(result.budget);
+              }
 
               if (webviewPanel) {
                 webviewPanel.webview.postMessage({
@@ -305,6 +1173,10 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
           }
           break;
 
+        case "selectDependencies":
+          await selectImportDependencies();
+          break;
+
         case "clearSelections":
           if (multiRootProvider) {
             multiRootProvider.clearAllSelections();
@@ -386,8 +1258,12 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
                 {
                   prefix: multiRootProvider.getPromptPrefix(),
                   suffix: multiRootProvider.getPromptSuffix(),
+                  ...toGenerationOptions(message.options),
                 }
               );
+              if (result.budget) {
+                showTokenBudgetReport(result.budget);
+              }
 
               // Validate provider type
               const provider = message.provider as AIProvider;
@@ -399,6 +1275,15 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
                 throw new Error(`Unsupported provider: ${provider}`);
               }
 
+              const contextString = await reviewOutgoingContext(
+                result.contextString,
+                promptPushService.getProviderDisplayName(provider)
+              );
+              if (contextString === undefined) {
+                return;
+              }
+              result.contextString = contextString;
+
               // Attempt to push the prompt to the AI provider
               const pushResult = await promptPushService.pushPrompt(
                 provider,
@@ -476,8 +1361,12 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
                 {
                   prefix: multiRootProvider.getPromptPrefix(),
                   suffix: multiRootProvider.getPromptSuffix(),
+                  ...toGenerationOptions(originalMessage.options),
                 }
               );
+              if (result.budget) {
+                showTokenBudgetReport(result.budget);
+              }
 
               // Validate provider type
               const provider = originalMessage.provider as AIProvider;
@@ -489,6 +1378,15 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
                 throw new Error(`Unsupported provider: ${provider}`);
               }
 
+              const contextString = await reviewOutgoingContext(
+                result.contextString,
+                promptPushService.getProviderDisplayName(provider)
+              );
+              if (contextString === undefined) {
+                return;
+              }
+              result.contextString = contextString;
+
               // Attempt to push the prompt to the AI provider
               const pushResult = await promptPushService.pushPrompt(
                 provider,
@@ -611,8 +1509,24 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
                 {
                   prefix: multiRootProvider.getPromptPrefix(),
                   suffix: multiRootProvider.getPromptSuffix(),
+                  ...toGenerationOptions(message.options),
                 }
               );
+              if (result.budget) {
+                showTokenBudgetReport(result.budget);
+              }
+
+              // Get target from message or default to agent
+              const target = message.target || "agent";
+
+              const contextString = await reviewOutgoingContext(
+                result.contextString,
+                editorAutomationService.getEditorDisplayName("cursor")
+              );
+              if (contextString === undefined) {
+                return;
+              }
+              result.contextString = contextString;
 
               // Update preview if webview is active
               if (webviewPanel) {
@@ -623,9 +1537,6 @@ function createOrShowWebviewPanel(context: vscode.ExtensionContext) {
                 isPreviewValid = true;
               }
 
-              // Get target from message or default to agent
-              const target = message.target || "agent";
-
               // Send to Cursor using the service
               const automationResult =
                 await editorAutomationService.sendToEditor(
@@ -810,13 +1721,51 @@ export function activate(context: vscode.ExtensionContext) {
 
   // Initialize services
   workspaceManager = new WorkspaceManager();
+  projectConfigService = new ProjectConfigService(workspaceManager);
+  context.subscriptions.push(projectConfigService);
   ignorePatternService = new IgnorePatternService(context);
   fileDiscoveryService = new FileDiscoveryService(ignorePatternService);
-  tokenCountingService = new TokenCountingService();
+  tokenCountingService = new TokenCountingService(
+    new TokenCacheService(context.workspaceState),
+    new TokenizerWorkerPool()
+  );
   contextGenerationService = new ContextGenerationService();
+  contextGenerationService.setProjectConfigService(projectConfigService);
+  gitService = new GitService();
+  contextGenerationService.setGitService(gitService);
+  secretScanService = new SecretScanService();
+  contextGenerationService.setSecretScanService(secretScanService);
+  fileSniffService = new FileSniffService(context);
+  context.subscriptions.push(fileSniffService);
+  contextGenerationService.setFileSniffService(fileSniffService);
+  tokenCountingService.setFileSniffService(fileSniffService);
+
+  const fileEncodingService = new FileEncodingService();
+  context.subscriptions.push(fileEncodingService);
+  contextGenerationService.setFileEncodingService(fileEncodingService);
+  tokenCountingService.setFileEncodingService(fileEncodingService);
+
+  const symbolSelectionService = new SymbolSelectionService();
+  contextGenerationService.setSymbolSelectionService(symbolSelectionService);
+  tokenCountingService.setSymbolSelectionService(symbolSelectionService);
+
+  renderModeService = new RenderModeService(context, symbolSelectionService);
+  context.subscriptions.push(renderModeService);
+  contextGenerationService.setRenderModeService(renderModeService);
+  tokenCountingService.setRenderModeService(renderModeService);
+  contextGenerationService.setGitDiffSource(
+    context.workspaceState.get<GitDiffSource>(GIT_DIFF_SOURCE_KEY) ?? null
+  );
   promptPushService = new PromptPushService();
   editorAutomationService = new EditorAutomationService();
   promptHistoryService = new PromptHistoryService(context);
+  selectionSetService = new SelectionSetService(
+    context,
+    workspaceManager,
+    projectConfigService
+  );
+  importGraphService = new ImportGraphService(workspaceManager, ignorePatternService);
+  context.subscriptions.push(importGraphService);
 
   // Check if we have workspaces
   if (!workspaceManager.hasWorkspaces()) {
@@ -834,6 +1783,15 @@ export function activate(context: vscode.ExtensionContext) {
     ignorePatternService,
     context
   );
+  multiRootProvider.setFileSniffService(fileSniffService);
+  multiRootProvider.setSymbolSelectionService(symbolSelectionService);
+  multiRootProvider.setRenderModeService(renderModeService);
+
+  // Shared defaults from .prompttower.json / .prompttower.yaml
+  applyProjectConfigDefaults();
+  context.subscriptions.push(
+    projectConfigService.onDidChange(() => applyProjectConfigDefaults())
+  );
 
   // Create tree view
   mainTreeView = vscode.window.createTreeView("promptTowerView", {
@@ -883,6 +1841,37 @@ export function activate(context: vscode.ExtensionContext) {
   // Row content clicks are handled via commands set on each TreeItem
   // See promptTower.toggleFileSelection command registration below
 
+  // Snippets: line ranges captured from editor selections
+  snippetsProvider = new SnippetsProvider(context);
+  contextGenerationService.setSnippetsProvider(snippetsProvider);
+  const updateSnippetTokens = () =>
+    tokenCountingService.setSnippetTexts(
+      snippetsProvider.getCheckedSnippets().map((snippet) => snippet.text)
+    );
+  updateSnippetTokens();
+
+  const snippetsTreeView = vscode.window.createTreeView("promptTowerSnippetsView", {
+    treeDataProvider: snippetsProvider,
+    canSelectMany: true,
+    manageCheckboxStateManually: true,
+  });
+  context.subscriptions.push(
+    snippetsProvider,
+    snippetsTreeView,
+    snippetsProvider.onDidChangeSnippets(() => {
+      updateSnippetTokens();
+      invalidateWebviewPreview();
+    }),
+    snippetsTreeView.onDidChangeCheckboxState(async (evt) => {
+      for (const [snippet, state] of evt.items) {
+        await snippetsProvider.toggleSnippet(
+          snippet,
+          state === vscode.TreeItemCheckboxState.Checked
+        );
+      }
+    })
+  );
+
   // Initialize GitHub Issues provider
   const primaryWorkspace = workspaceManager.getPrimaryWorkspace();
   if (primaryWorkspace) {
@@ -966,6 +1955,25 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Recount cached GitHub issue/PR tokens when the tokenizer changes
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("promptTower.tokenizer")) {
+        issuesProviderInstance?.recountTokens();
+        prsProviderInstance?.recountTokens();
+      }
+      if (event.affectsConfiguration("promptTower.outputPreset")) {
+        webviewPanel?.webview.postMessage({
+          command: "setOutputPreset",
+          preset: toOutputPreset(
+            vscode.workspace.getConfiguration("promptTower").get<string>("outputPreset")
+          ),
+        });
+        invalidateWebviewPreview();
+      }
+    })
+  );
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand("promptTower.showTowerUI", () => {
@@ -994,10 +2002,13 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand("promptTower.copyToClipboard", async () => {
       if (contextGenerationService) {
         const allRootNodes = multiRootProvider.getRootNodes();
-        await contextGenerationService.copyToClipboard(allRootNodes, {
+        const result = await contextGenerationService.copyToClipboard(allRootNodes, {
           prefix: multiRootProvider.getPromptPrefix(),
           suffix: multiRootProvider.getPromptSuffix(),
         });
+        if (result.budget) {
+          showTokenBudgetReport(result.budget);
+        }
       }
     }),
 
@@ -1007,10 +2018,13 @@ export function activate(context: vscode.ExtensionContext) {
       async () => {
         if (contextGenerationService) {
           const allRootNodes = multiRootProvider.getRootNodes();
-          await contextGenerationService.copyToClipboard(allRootNodes, {
+          const result = await contextGenerationService.copyToClipboard(allRootNodes, {
             prefix: multiRootProvider.getPromptPrefix(),
             suffix: multiRootProvider.getPromptSuffix(),
           });
+          if (result.budget) {
+            showTokenBudgetReport(result.budget);
+          }
         }
       }
     ),
@@ -1139,9 +2153,13 @@ export function activate(context: vscode.ExtensionContext) {
       const fileNode = multiRootProvider.findNodeByPath(filePath);
 
       if (!fileNode) {
-        vscode.window.showWarningMessage(
-          `File "${activeEditor.document.fileName}" not found in Prompt Tower workspace. Make sure it's not ignored by .gitignore or .towerignore.`
+        const choice = await vscode.window.showWarningMessage(
+          `File "${activeEditor.document.fileName}" not found in Prompt Tower workspace.`,
+          "Why Is It Ignored?"
         );
+        if (choice) {
+          await explainIgnoredPath(activeEditor.document.uri);
+        }
         return;
       }
 
@@ -1160,6 +2178,40 @@ export function activate(context: vscode.ExtensionContext) {
       );
     }),
 
+    vscode.commands.registerCommand("promptTower.addSelection", async () => {
+      const activeEditor = vscode.window.activeTextEditor;
+      if (!activeEditor || activeEditor.selections.every((selection) => selection.isEmpty)) {
+        vscode.window.showWarningMessage(
+          "Select some lines in an editor to add them to Prompt Tower."
+        );
+        return;
+      }
+
+      const added = await snippetsProvider.addSelections(activeEditor);
+      const lines = added
+        .map((snippet) =>
+          snippet.startLine === snippet.endLine
+            ? `${snippet.startLine}`
+            : `${snippet.startLine}-${snippet.endLine}`
+        )
+        .join(", ");
+      vscode.window.showInformationMessage(
+        `✅ Added ${path.basename(activeEditor.document.fileName)}:${lines} to Prompt Tower snippets.`
+      );
+    }),
+
+    vscode.commands.registerCommand(
+      "promptTower.removeSnippet",
+      async (snippet?: Snippet, selectedSnippets?: Snippet[]) => {
+        const snippets = selectedSnippets ?? (snippet ? [snippet] : []);
+        await snippetsProvider.removeSnippets(snippets);
+      }
+    ),
+
+    vscode.commands.registerCommand("promptTower.clearSnippets", async () => {
+      await snippetsProvider.clearSnippets();
+    }),
+
     vscode.commands.registerCommand("promptTower.openPromptTower", async () => {
       // Focus the Prompt Tower activity bar view (shows the tree views)
       await vscode.commands.executeCommand(
@@ -1176,6 +2228,344 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand("promptTower.previewFile", async (fileNode: FileNode) => {
       console.log(`[Prompt Tower] Right-click preview: ${fileNode.label}`);
       await showFilePreview(fileNode);
+    }),
+
+    // Local git changes as a context source
+    vscode.commands.registerCommand("promptTower.selectGitChanges", async () => {
+      const current = contextGenerationService.getGitDiffSource();
+      const primaryWorkspace = workspaceManager.getPrimaryWorkspace();
+      const defaultBranch = primaryWorkspace
+        ? gitService.getDefaultBranch(primaryWorkspace.rootPath)
+        : "main";
+
+      const items: Array<
+        vscode.QuickPickItem & {
+          getSource: () => Promise<GitDiffSource | null | undefined>;
+        }
+      > = [
+        {
+          label: "No git changes",
+          description: current ? undefined : "current",
+          getSource: async () => null,
+        },
+        {
+          label: "Unstaged changes",
+          description: current?.mode === "unstaged" ? "current" : undefined,
+          getSource: async () => ({ mode: "unstaged" }),
+        },
+        {
+          label: "Staged changes",
+          description: current?.mode === "staged" ? "current" : undefined,
+          getSource: async () => ({ mode: "staged" }),
+        },
+        {
+          label: `Changes against ${defaultBranch}`,
+          description:
+            current?.mode === "base" && !current.ref ? "current" : "default branch",
+          getSource: async () => ({ mode: "base" }),
+        },
+        {
+          label: "Changes against another branch...",
+          description:
+            current?.mode === "base" && current.ref ? `current: ${current.ref}` : undefined,
+          getSource: async () => {
+            const ref = await promptGitDiffRef("base");
+            return ref ? { mode: "base", ref } : undefined;
+          },
+        },
+        {
+          label: "Changes since a commit...",
+          description: current?.mode === "commit" ? `current: ${current.ref}` : undefined,
+          getSource: async () => {
+            const ref = await promptGitDiffRef("commit");
+            return ref ? { mode: "commit", ref } : undefined;
+          },
+        },
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        title: "Git Changes",
+        placeHolder: "Include a diff of local changes in the context ({gitDiff})",
+      });
+      if (!selected) {
+        return;
+      }
+
+      const source = await selected.getSource();
+      if (source !== undefined) {
+        await updateGitDiffSource(context, source);
+        vscode.window.showInformationMessage(
+          source
+            ? `Git changes: ${gitService.describeSource(source)} will be included in the context.`
+            : "Git changes will no longer be included in the context."
+        );
+      }
+    }),
+
+    // Files changed according to git
+    vscode.commands.registerCommand("promptTower.selectChangedFiles", async () => {
+      await selectChangedFiles({ mode: "status" });
+    }),
+
+    vscode.commands.registerCommand(
+      "promptTower.selectChangedFilesSinceBranchPoint",
+      async () => {
+        const branch = await promptGitDiffRef("base");
+        if (branch) {
+          await selectChangedFiles({ mode: "branchPoint", branch });
+        }
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "promptTower.selectChangedFilesInLastCommits",
+      async () => {
+        const count = await vscode.window.showInputBox({
+          title: "Select Files Changed in Last Commits",
+          prompt: "Number of commits",
+          value: "1",
+          validateInput: (value) =>
+            /^[1-9]\d*$/.test(value.trim()) ? undefined : "Enter a positive whole number",
+        });
+        if (count) {
+          await selectChangedFiles({ mode: "lastCommits", count: Number(count.trim()) });
+        }
+      }
+    ),
+
+    // Import dependencies of a file node (or of all checked files)
+    vscode.commands.registerCommand(
+      "promptTower.selectDependencies",
+      async (fileNode?: FileNode) => {
+        await selectImportDependencies(fileNode);
+      }
+    ),
+
+    // Files that import a file node, directly or transitively
+    vscode.commands.registerCommand(
+      "promptTower.selectDependents",
+      async (fileNode?: FileNode) => {
+        await selectImportDependents(fileNode);
+      }
+    ),
+
+    vscode.commands.registerCommand("promptTower.openProjectConfig", async () => {
+      await openProjectConfig();
+    }),
+
+    // Which ignore rule excludes a path (explorer context menu, tree or quick pick)
+    vscode.commands.registerCommand(
+      "promptTower.explainIgnore",
+      async (target?: vscode.Uri | FileNode) => {
+        await explainIgnoredPath(target);
+      }
+    ),
+
+    // Binary, minified and generated files: full content or placeholder
+    vscode.commands.registerCommand(
+      "promptTower.includeFullContent",
+      async (fileNode?: FileNode, selectedNodes?: FileNode[]) => {
+        const nodes = selectedNodes ?? (fileNode ? [fileNode] : []);
+        await fileSniffService.setForced(
+          nodes.map((node) => node.absolutePath),
+          true
+        );
+        invalidateWebviewPreview();
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "promptTower.usePlaceholder",
+      async (fileNode?: FileNode, selectedNodes?: FileNode[]) => {
+        const nodes = selectedNodes ?? (fileNode ? [fileNode] : []);
+        await fileSniffService.setForced(
+          nodes.map((node) => node.absolutePath),
+          false
+        );
+        invalidateWebviewPreview();
+      }
+    ),
+
+    // Outline or full content per file (folders apply to the files below them)
+    vscode.commands.registerCommand(
+      "promptTower.renderAsOutline",
+      async (fileNode?: FileNode, selectedNodes?: FileNode[]) => {
+        await setRenderMode(selectedNodes ?? (fileNode ? [fileNode] : []), "outline");
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "promptTower.renderInFull",
+      async (fileNode?: FileNode, selectedNodes?: FileNode[]) => {
+        await setRenderMode(selectedNodes ?? (fileNode ? [fileNode] : []), "full");
+      }
+    ),
+
+    // Line numbers per file (folders apply to the files below them)
+    vscode.commands.registerCommand(
+      "promptTower.showLineNumbers",
+      async (fileNode?: FileNode, selectedNodes?: FileNode[]) => {
+        await setLineNumbers(selectedNodes ?? (fileNode ? [fileNode] : []), true);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "promptTower.hideLineNumbers",
+      async (fileNode?: FileNode, selectedNodes?: FileNode[]) => {
+        await setLineNumbers(selectedNodes ?? (fileNode ? [fileNode] : []), false);
+      }
+    ),
+
+    vscode.commands.registerCommand(
+      "promptTower.unignorePath",
+      async (target?: vscode.Uri) => {
+        const uri = target ?? (await pickPathToExplain());
+        if (uri) {
+          let isDirectory = false;
+          try {
+            isDirectory = fs.statSync(uri.fsPath).isDirectory();
+          } catch {
+            // Deleted files are un-ignored like files
+          }
+          unignoreForPromptTower(uri.fsPath, isDirectory);
+        }
+      }
+    ),
+
+    // Selection sets
+    vscode.commands.registerCommand("promptTower.saveSelectionSet", async () => {
+      const storage = selectionSetService.getDefaultStorage();
+      const name = await vscode.window.showInputBox({
+        title: "Save Selection Set",
+        prompt: "Name for the current selection (files, GitHub issues/PRs, prefix/suffix and tree type)",
+        placeHolder: "e.g. auth module",
+        validateInput: (value) =>
+          value.trim() ? undefined : "Name cannot be empty",
+      });
+      if (!name) {
+        return;
+      }
+
+      const trimmedName = name.trim();
+      if (await selectionSetService.find(trimmedName, storage)) {
+        const overwrite = await vscode.window.showWarningMessage(
+          `Selection set "${trimmedName}" already exists. Overwrite it?`,
+          { modal: true },
+          "Overwrite"
+        );
+        if (overwrite !== "Overwrite") {
+          return;
+        }
+      }
+
+      try {
+        const set = captureSelectionSet(trimmedName);
+        await selectionSetService.save(set, storage);
+        vscode.window.showInformationMessage(
+          `Saved selection set "${trimmedName}" (${selectionSetService.describe(set)}).`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to save selection set: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand("promptTower.loadSelectionSet", async () => {
+      const stored = await pickSelectionSet("Select a selection set to load");
+      if (stored) {
+        await applySelectionSet(stored.set);
+      }
+    }),
+
+    vscode.commands.registerCommand("promptTower.renameSelectionSet", async () => {
+      const stored = await pickSelectionSet("Select a selection set to rename", true);
+      if (!stored) {
+        return;
+      }
+
+      const newName = await vscode.window.showInputBox({
+        title: "Rename Selection Set",
+        value: stored.set.name,
+        validateInput: (value) =>
+          value.trim() ? undefined : "Name cannot be empty",
+      });
+      if (!newName || newName.trim() === stored.set.name) {
+        return;
+      }
+
+      const trimmedName = newName.trim();
+      if (await selectionSetService.find(trimmedName, stored.storage)) {
+        vscode.window.showErrorMessage(
+          `A selection set named "${trimmedName}" already exists.`
+        );
+        return;
+      }
+
+      try {
+        await selectionSetService.rename(stored, trimmedName);
+        vscode.window.showInformationMessage(
+          `Renamed selection set "${stored.set.name}" to "${trimmedName}".`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to rename selection set: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand("promptTower.deleteSelectionSet", async () => {
+      const stored = await pickSelectionSet("Select a selection set to delete", true);
+      if (!stored) {
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete selection set "${stored.set.name}"?`,
+        { modal: true },
+        "Delete"
+      );
+      if (confirm !== "Delete") {
+        return;
+      }
+
+      try {
+        await selectionSetService.delete(stored);
+        vscode.window.showInformationMessage(
+          `Deleted selection set "${stored.set.name}".`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to delete selection set: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }),
+
+    vscode.commands.registerCommand("promptTower.diffSelectionSets", async () => {
+      const base = await pickSelectionSet("Select the first selection set");
+      if (!base) {
+        return;
+      }
+
+      // Compare against another set or the current selection
+      const items = [
+        { label: "Current selection", description: "What is selected right now" },
+        ...(await selectionSetService.getQuickPickItems()),
+      ];
+      const other = await vscode.window.showQuickPick(items, {
+        placeHolder: `Compare "${base.set.name}" with...`,
+        title: "Selection Sets",
+      });
+      if (!other) {
+        return;
+      }
+
+      await showSelectionSetDiff(
+        base.set,
+        "stored" in other && other.stored
+          ? other.stored.set
+          : captureSelectionSet("Current selection")
+      );
     })
   );
 
@@ -69,6 +69,15 @@ export function getWebviewStyles(): string {
             color: var(--vscode-descriptionForeground, #777);
             flex-grow: 1;
         }
+        #tokenizerSelect {
+            background: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 3px;
+            padding: 3px 6px;
+            font-size: 0.9em;
+            cursor: pointer;
+        }
         .spinner {
             display: inline-block;
             width: 1em;
@@ -14,6 +14,41 @@ export interface WebviewParams {
   prefixCollapsed: boolean;
   suffixCollapsed: boolean;
   automationCollapsed: boolean;
+  tokenBudget: number;
+  tokenizer: string;
+  tokenizers: Array<{ id: string; label: string; description: string }>;
+  /** Mode of the local git changes source, or "" when it is off */
+  gitDiffMode: string;
+  outputPreset: string;
+  outputPresets: Array<{ id: string; label: string; description: string }>;
+}
+
+const TOKEN_BUDGET_PRESETS = [32000, 128000, 200000, 1000000];
+
+/**
+ * Render the token budget options, including a configured value that is not a preset
+ */
+function renderTokenBudgetOptions(selected: number): string {
+  const budgets = [...TOKEN_BUDGET_PRESETS];
+  if (selected > 0 && !budgets.includes(selected)) {
+    budgets.push(selected);
+    budgets.sort((a, b) => a - b);
+  }
+
+  const formatBudget = (budget: number) =>
+    budget >= 1000000 && budget % 1000000 === 0
+      ? `${budget / 1000000}M`
+      : budget % 1000 === 0
+        ? `${budget / 1000}k`
+        : budget.toLocaleString();
+
+  return [
+    `<option value="0"${selected > 0 ? "" : " selected"}>Off</option>`,
+    ...budgets.map(
+      (budget) =>
+        `<option value="${budget}"${budget === selected ? " selected" : ""}>${formatBudget(budget)}</option>`
+    ),
+  ].join("");
 }
 
 export function getWebviewHtml(params: WebviewParams): string {
@@ -50,9 +85,18 @@ export function getWebviewHtml(params: WebviewParams): string {
                   <span id="token-count">0</span>
                   <div id="spinner" class="spinner"></div>
                   <span id="token-status"></span>
+                  <select id="tokenizerSelect" title="Tokenizer used to count tokens">
+                    ${params.tokenizers
+                      .map(
+                        (tokenizer) =>
+                          `<option value="${tokenizer.id}" title="${tokenizer.description}"${tokenizer.id === params.tokenizer ? " selected" : ""}>${tokenizer.label}</option>`
+                      )
+                      .join("")}
+                  </select>
               </div>
 
               <div style="margin-bottom: 1em;">
+                  <button id="selectDependenciesButton" title="Add the files imported by the selected files">Add Imports</button>
                   <button id="clearButton">Clear Selected</button> 
                   <button id="resetAllButton">Reset All</button>
               </div>
@@ -97,13 +141,47 @@ export function getWebviewHtml(params: WebviewParams): string {
                         <option value="fullFilesAndDirectories">Full repo</option>
                         <option value="selectedFilesOnly">Selected files only</option>
                         <option value="fullDirectoriesOnly">Directories only</option>
+                        <option value="none">No tree</option>
+                      </select>
+                    </div>
+                    <div class="tree-type-selector" title="Layout of the generated context">
+                      <label for="outputPresetSelect">Format:</label>
+                      <select id="outputPresetSelect">
+                        ${params.outputPresets
+                          .map(
+                            (preset) =>
+                              `<option value="${preset.id}" title="${preset.description}"${preset.id === params.outputPreset ? " selected" : ""}>${preset.label}</option>`
+                          )
+                          .join("")}
+                      </select>
+                    </div>
+                    <div class="tree-type-selector" title="Shrink the tree, strip comments, outline and finally drop low-priority files until the context fits">
+                      <label for="tokenBudgetSelect">Budget:</label>
+                      <select id="tokenBudgetSelect">
+                        ${renderTokenBudgetOptions(params.tokenBudget)}
+                      </select>
+                    </div>
+                    <div class="tree-type-selector" title="Include a diff of local changes ({gitDiff})">
+                      <label for="gitDiffSelect">Git:</label>
+                      <select id="gitDiffSelect">
+                        ${[
+                          ["", "No changes"],
+                          ["unstaged", "Unstaged"],
+                          ["staged", "Staged"],
+                          ["base", "vs. base branch"],
+                          ["commit", "vs. commit..."],
+                        ]
+                          .map(
+                            ([mode, label]) =>
+                              `<option value="${mode}"${mode === params.gitDiffMode ? " selected" : ""}>${label}</option>`
+                          )
+                          .join("")}
                       </select>
                     </div>
-                    <label class="checkbox-container disabled">
-                      <input type="checkbox" id="removeCommentsCheckbox" disabled>
+                    <label class="checkbox-container">
+                      <input type="checkbox" id="removeCommentsCheckbox">
                       <span class="checkmark"></span>
                       Remove comments
-                      <span class="feature-badge">Soon</span>
                     </label>
                   </div>
                 </div>
@@ -321,6 +399,7 @@ export function getWebviewHtml(params: WebviewParams): string {
                     const tokenCountElement = document.getElementById('token-count');
                     const tokenStatusElement = document.getElementById('token-status');
                     const spinnerElement = document.getElementById('spinner');
+                    const tokenizerSelect = document.getElementById('tokenizerSelect');
                     const prefixTextArea = document.getElementById("prompt-prefix");
                     const suffixTextArea = document.getElementById("prompt-suffix");
                     const previewTextArea = document.getElementById("context-preview");
@@ -331,6 +410,9 @@ export function getWebviewHtml(params: WebviewParams): string {
                     const copyToClipboardCheckbox = document.getElementById('copyToClipboardCheckbox');
                     const treeTypeSelect = document.getElementById('treeTypeSelect');
                     const removeCommentsCheckbox = document.getElementById('removeCommentsCheckbox');
+                    const tokenBudgetSelect = document.getElementById('tokenBudgetSelect');
+                    const gitDiffSelect = document.getElementById('gitDiffSelect');
+                    const outputPresetSelect = document.getElementById('outputPresetSelect');
                     
                     // Push Prompt controls
                     const autoSubmitCheckbox = document.getElementById('autoSubmitCheckbox');
@@ -385,6 +467,15 @@ export function getWebviewHtml(params: WebviewParams): string {
                         });
                     });
                     
+                    // Generation options shared by every output (preview, clipboard, push, editor)
+                    function getContextOptions() {
+                        return {
+                            treeType: treeTypeSelect?.value || 'fullFilesAndDirectories',
+                            removeComments: removeCommentsCheckbox?.checked ?? false,
+                            tokenBudget: Number(tokenBudgetSelect?.value || 0)
+                        };
+                    }
+                    
                     // Push Prompt button functionality
                     pushPromptButton?.addEventListener('click', (e) => {
                         // Prevent action if button is disabled (Windows preview)
@@ -404,7 +495,8 @@ export function getWebviewHtml(params: WebviewParams): string {
                         const pushRequest = { 
                             command: "pushPrompt", 
                             provider: selectedProvider,
-                            autoSubmit: autoSubmitCheckbox?.checked ?? true
+                            autoSubmit: autoSubmitCheckbox?.checked ?? true,
+                            options: getContextOptions()
                         };
                         
                         // Store the request for potential onboarding flow
@@ -487,10 +579,15 @@ export function getWebviewHtml(params: WebviewParams): string {
                         switch (message.command) {
                             case 'tokenUpdate':
                                 if (message.payload && tokenCountElement && tokenStatusElement && spinnerElement) {
-                                    const { count, isCounting } = message.payload;
+                                    const { count, isCounting, tokenizer, progress } = message.payload;
                                     tokenCountElement.textContent = count.toLocaleString();
+                                    if (tokenizerSelect && tokenizer) {
+                                        tokenizerSelect.value = tokenizer;
+                                    }
                                     if (isCounting) {
-                                        tokenStatusElement.textContent = '(Calculating...)';
+                                        tokenStatusElement.textContent = progress && progress.total > 0
+                                            ? '(Calculating... ' + progress.processed.toLocaleString() + '/' + progress.total.toLocaleString() + ' files)'
+                                            : '(Calculating...)';
                                         spinnerElement.classList.add('visible');
                                     } else {
                                         tokenStatusElement.textContent = '';
@@ -508,6 +605,21 @@ export function getWebviewHtml(params: WebviewParams): string {
                                     suffixTextArea.value = message.text;
                                 }
                                 break;
+                            case 'setGitDiffMode':
+                                if (gitDiffSelect) {
+                                    gitDiffSelect.value = message.mode || '';
+                                }
+                                break;
+                            case 'setOutputPreset':
+                                if (outputPresetSelect && typeof message.preset === 'string') {
+                                    outputPresetSelect.value = message.preset;
+                                }
+                                break;
+                            case 'setTreeType':
+                                if (treeTypeSelect && typeof message.treeType === 'string') {
+                                    treeTypeSelect.value = message.treeType;
+                                }
+                                break;
                             case 'updatePreview':
                                 if (message.payload && previewTextArea) {
                                     previewTextArea.value = message.payload.context;
@@ -616,6 +728,22 @@ export function getWebviewHtml(params: WebviewParams): string {
                         });
                     }
                     
+                    gitDiffSelect?.addEventListener("change", () => {
+                        vscode.postMessage({ command: "setGitDiffMode", mode: gitDiffSelect.value });
+                    });
+                    
+                    treeTypeSelect?.addEventListener("change", () => {
+                        vscode.postMessage({ command: "updateTreeType", treeType: treeTypeSelect.value });
+                    });
+                    
+                    outputPresetSelect?.addEventListener("change", () => {
+                        vscode.postMessage({ command: "setOutputPreset", preset: outputPresetSelect.value });
+                    });
+                    
+                    tokenizerSelect?.addEventListener("change", () => {
+                        vscode.postMessage({ command: "setTokenizer", tokenizer: tokenizerSelect.value });
+                    });
+                    
                     // Button event listeners
                     document.getElementById('createContextButton')?.addEventListener("click", () => {
                         // Show toast notification
@@ -633,14 +761,17 @@ export function getWebviewHtml(params: WebviewParams): string {
                         vscode.postMessage({ 
                             command: "createContext",
                             options: {
-                                treeType: treeTypeSelect?.value || 'fullFilesAndDirectories',
-                                copyToClipboard: copyToClipboardCheckbox?.checked ?? true,
-                                removeComments: removeCommentsCheckbox?.checked ?? false
+                                ...getContextOptions(),
+                                copyToClipboard: copyToClipboardCheckbox?.checked ?? true
                             }
                         });
                     });
                     
                     
+                    document.getElementById('selectDependenciesButton')?.addEventListener("click", () => {
+                        vscode.postMessage({ command: "selectDependencies" });
+                    });
+                    
                     document.getElementById('clearButton')?.addEventListener("click", () => {
                         vscode.postMessage({ command: "clearSelections" });
                     });
@@ -672,7 +803,8 @@ export function getWebviewHtml(params: WebviewParams): string {
                         const selectedTarget = document.querySelector('input[name="sendTarget"]:checked')?.value || 'agent';
                         vscode.postMessage({ 
                             command: "sendToEditor",
-                            target: selectedTarget
+                            target: selectedTarget,
+                            options: getContextOptions()
                         });
                     });
                     
@@ -14,6 +14,18 @@ export interface TokenUpdatePayload {
   /** GitHub issues token count */
   issueTokens?: number;
   
+  /** Snippets token count */
+  snippetTokens?: number;
+  
+  /** Id of the tokenizer that produced the count */
+  tokenizer?: string;
+  
+  /** Files processed so far while counting is in progress */
+  progress?: {
+    processed: number;
+    total: number;
+  };
+  
   /** Error message if token counting failed */
   error?: string;
 }
@@ -2,6 +2,23 @@ import * as vscode from "vscode";
 import * as path from "path";
 import { Workspace } from "./Workspace";
 
+/**
+ * A class, function or other declaration in a file, from the document symbol provider
+ */
+export interface FileSymbol {
+  /** Key that identifies the symbol within its file, e.g. "Parser/parse" */
+  key: string;
+
+  name: string;
+  kind: vscode.SymbolKind;
+
+  /** 1-based, inclusive */
+  startLine: number;
+  endLine: number;
+
+  children: FileSymbol[];
+}
+
 /**
  * Represents a file or directory node in the multi-workspace tree
  */
@@ -21,12 +38,15 @@ export interface FileNode {
   /** The workspace this node belongs to */
   workspace: Workspace;
 
-  /** Whether this is a file or directory */
-  type: "file" | "directory" | "workspace-root";
+  /** Whether this is a file or directory, or a symbol inside a file */
+  type: "file" | "directory" | "workspace-root" | "symbol";
 
   /** Whether this node is checked/selected */
   isChecked: boolean;
 
+  /** Whether some, but not all, descendants are checked (directories and workspace roots) */
+  isPartial: boolean;
+
   /** Whether this node can be checked */
   checkable: boolean;
 
@@ -47,6 +67,9 @@ export interface FileNode {
 
   /** Parent node (null for workspace roots) */
   parent?: FileNode;
+
+  /** Declaration this node stands for (symbols only; paths are those of the file) */
+  symbol?: FileSymbol;
 }
 
 /**
@@ -65,6 +88,7 @@ export class FileNodeFactory {
       workspace,
       type: "workspace-root",
       isChecked: false,
+      isPartial: false,
       checkable: true,
       collapsibleState: vscode.TreeItemCollapsibleState.Expanded,
       visible: true,
@@ -113,6 +137,7 @@ export class FileNodeFactory {
       workspace,
       type: "file",
       isChecked: false,
+      isPartial: false,
       checkable: true,
       collapsibleState: vscode.TreeItemCollapsibleState.None,
       extension,
@@ -160,6 +185,7 @@ export class FileNodeFactory {
       workspace,
       type: "directory",
       isChecked: false,
+      isPartial: false,
       checkable: true,
       collapsibleState: vscode.TreeItemCollapsibleState.Collapsed,
       visible: true,
@@ -167,6 +193,30 @@ export class FileNodeFactory {
       children: [],
     };
   }
+
+  /**
+   * Creates a symbol node below a file or symbol node; checked when its parent is
+   */
+  static createSymbolNode(symbol: FileSymbol, parent: FileNode): FileNode {
+    return {
+      id: `symbol:${parent.workspace.id}:${parent.relativePath}#${symbol.key}`,
+      label: symbol.name,
+      absolutePath: parent.absolutePath,
+      relativePath: parent.relativePath,
+      workspace: parent.workspace,
+      type: "symbol",
+      isChecked: parent.isChecked,
+      isPartial: false,
+      checkable: true,
+      collapsibleState:
+        symbol.children.length > 0
+          ? vscode.TreeItemCollapsibleState.Collapsed
+          : vscode.TreeItemCollapsibleState.None,
+      visible: true,
+      parent,
+      symbol,
+    };
+  }
 }
 
 /**
@@ -210,11 +260,61 @@ export class FileNodeUtils {
     return checkedFiles;
   }
 
+  /**
+   * Gets files that are checked or have checked symbols
+   */
+  static getSelectedFiles(nodes: FileNode[]): FileNode[] {
+    const selectedFiles: FileNode[] = [];
+
+    for (const node of nodes) {
+      if (node.type === "file") {
+        if (node.isChecked || node.isPartial) {
+          selectedFiles.push(node);
+        }
+      } else if (node.children) {
+        selectedFiles.push(...this.getSelectedFiles(node.children));
+      }
+    }
+
+    return selectedFiles;
+  }
+
+  /**
+   * Gets the file a symbol node belongs to (the node itself for files)
+   */
+  static getOwningFile(node: FileNode): FileNode {
+    let fileNode = node;
+    while (fileNode.type === "symbol" && fileNode.parent) {
+      fileNode = fileNode.parent;
+    }
+    return fileNode;
+  }
+
+  /**
+   * Gets the keys of the checked symbols below a node
+   */
+  static getCheckedSymbolKeys(node: FileNode): string[] {
+    const keys: string[] = [];
+
+    for (const child of node.children ?? []) {
+      if (child.type !== "symbol" || !child.symbol) {
+        continue;
+      }
+      if (child.isChecked) {
+        keys.push(child.symbol.key);
+      }
+      keys.push(...this.getCheckedSymbolKeys(child));
+    }
+
+    return keys;
+  }
+
   /**
    * Toggles the checked state of a node and its children
    */
   static toggleCheckedState(node: FileNode, checked: boolean): void {
     node.isChecked = checked;
+    node.isPartial = false;
 
     if (node.children) {
       for (const child of node.children) {
@@ -231,16 +331,52 @@ export class FileNodeUtils {
       return;
     }
 
-    const checkedChildren = node.parent.children.filter(
-      (child) => child.isChecked
-    );
-    const allChecked = checkedChildren.length === node.parent.children.length;
-    const someChecked = checkedChildren.length > 0;
-
-    // For simplicity, parent is checked if all children are checked
-    node.parent.isChecked = allChecked;
+    this.applyChildrenState(node.parent);
 
     // Recurse up the tree
     this.updateParentCheckedState(node.parent);
   }
+
+  /**
+   * Recomputes checked and partial states of a subtree bottom-up from its files
+   */
+  static recomputeCheckedStates(node: FileNode): void {
+    if (!node.children || node.children.length === 0) {
+      // Files keep partial states of selected symbols that are not loaded
+      if (node.type !== "file") {
+        node.isPartial = false;
+      }
+      return;
+    }
+
+    for (const child of node.children) {
+      this.recomputeCheckedStates(child);
+    }
+    this.applyChildrenState(node);
+  }
+
+  /**
+   * Counts checked files and total files below a node
+   */
+  static countCheckedFiles(node: FileNode): { checked: number; total: number } {
+    const files = this.getDescendantFiles(node);
+    return {
+      checked: files.filter((file) => file.isChecked).length,
+      total: files.length,
+    };
+  }
+
+  /**
+   * Sets a node checked if all children are checked, partial if only some are
+   */
+  private static applyChildrenState(node: FileNode): void {
+    const children = node.children ?? [];
+    const allChecked = children.every((child) => child.isChecked);
+    const someChecked = children.some(
+      (child) => child.isChecked || child.isPartial
+    );
+
+    node.isChecked = allChecked;
+    node.isPartial = !allChecked && someChecked;
+  }
 }
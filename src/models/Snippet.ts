@@ -0,0 +1,23 @@
+/**
+ * Lines captured from an editor selection, included in the context like a file
+ */
+export interface Snippet {
+  /** Unique identifier; adding the same lines of a file again replaces the snippet */
+  id: string;
+
+  /** Absolute file system path of the source file */
+  absolutePath: string;
+
+  /** Path relative to its workspace root (absolute outside workspaces) */
+  relativePath: string;
+
+  /** First and last captured line, 1-based and inclusive */
+  startLine: number;
+  endLine: number;
+
+  /** Captured text as it was when the snippet was added */
+  text: string;
+
+  /** Whether the snippet is included in the context */
+  isChecked: boolean;
+}
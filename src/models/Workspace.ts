@@ -1,3 +1,6 @@
+import { OutputPreset } from "../utils/outputFormats";
+import { EscapingStrategy } from "../utils/escaping";
+
 /**
  * Represents a workspace folder in a multi-root VS Code workspace
  */
@@ -22,23 +25,35 @@ export interface Workspace {
  * Represents ignore patterns for a workspace
  */
 export interface IgnorePatterns {
-  /** Patterns from .gitignore file */
+  /** Patterns from the root .gitignore file (nested ignore files are loaded as paths are checked) */
   gitignore: string[];
   
-  /** Patterns from .towerignore file */
+  /** Patterns from the root .towerignore file */
   towerignore: string[];
   
+  /** Patterns from core.excludesFile, .git/info/exclude and .gitignore files above the workspace folder */
+  gitExclude: string[];
+  
   /** Manual patterns from VS Code configuration */
   manual: string[];
   
-  /** Always ignored patterns (built-in) */
+  /** Always ignored patterns (built-in), without disabled categories and patterns */
   builtin: string[];
+  
+  /** Patterns from the root .towerinclude file, which win over all ignore rules */
+  towerinclude: string[];
 }
 
 /**
  * Configuration for context generation
  */
 export interface ContextConfig {
+  /** Layout of the generated context */
+  outputPreset: OutputPreset;
+
+  /** How content is protected from breaking the layout, resolved for the preset */
+  escaping: EscapingStrategy;
+
   /** Template for individual file blocks */
   blockTemplate: string;
   
@@ -65,4 +80,18 @@ export interface ContextConfig {
   
   /** File size warning threshold in KB */
   maxFileSizeWarningKB: number;
+
+  /** What to preserve when comments are removed */
+  commentStripping: {
+    keepLicenseHeader: boolean;
+    keepDocComments: boolean;
+  };
+
+  /** Token budget applied when generating context */
+  tokenBudget: {
+    /** Maximum context size in tokens (0 = no budget) */
+    limit: number;
+    /** Glob pattern to priority; higher priority files are trimmed last */
+    filePriorities: Record<string, number>;
+  };
 }
\ No newline at end of file
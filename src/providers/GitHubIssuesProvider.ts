@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
 import { GitHubApiClient, GitHubIssue as ApiIssue, GitHubComment } from "../api/GitHubApiClient";
 import { GitHubConfigManager } from "../utils/githubConfig";
-import { encode } from "gpt-tokenizer";
+import { TokenCountingService } from "../services/TokenCountingService";
 
 export class GitHubIssue extends vscode.TreeItem {
   constructor(
@@ -261,6 +261,30 @@ export class GitHubIssuesProvider implements vscode.TreeDataProvider<GitHubIssue
     return Array.from(this.selectedIssues);
   }
   
+  /**
+   * Replace the selected issues (e.g. when restoring a selection set)
+   */
+  async setSelectedIssues(issueNumbers: number[]): Promise<void> {
+    // Details are fetched through the API client, which is set up when issues load
+    if (!this.loaded && !this.isLoading && issueNumbers.length > 0) {
+      await this.loadIssues();
+    }
+    
+    this.selectedIssues = new Set(issueNumbers);
+    for (const issue of this.issues) {
+      if (!issue.isSpecialItem && issue.checkboxState !== undefined) {
+        issue.checkboxState = this.selectedIssues.has(issue.number)
+          ? vscode.TreeItemCheckboxState.Checked
+          : vscode.TreeItemCheckboxState.Unchecked;
+      }
+    }
+    
+    this.updateTokenCount();
+    this._onDidChangeTreeData.fire();
+    
+    await Promise.all(issueNumbers.map((issueNumber) => this.fetchAndCacheIssue(issueNumber)));
+  }
+  
   /**
    * Clear all selected issues
    */
@@ -303,8 +327,17 @@ export class GitHubIssuesProvider implements vscode.TreeDataProvider<GitHubIssue
       }
     }
     
-    const tokens = encode(content);
-    return tokens.length;
+    return TokenCountingService.getConfiguredTokenizer().countTokens(content);
+  }
+
+  /**
+   * Recalculate cached issue token counts (e.g. after the tokenizer changed)
+   */
+  recountTokens(): void {
+    for (const cached of this.issueCache.values()) {
+      cached.tokenCount = this.calculateIssueTokens(cached.issue, cached.comments);
+    }
+    this.updateTokenCount();
   }
   
   /**
@@ -1,7 +1,7 @@
 import * as vscode from "vscode";
 import { GitHubApiClient, GitHubPullRequest as ApiPullRequest } from "../api/GitHubApiClient";
 import { GitHubConfigManager } from "../utils/githubConfig";
-import { encode } from "gpt-tokenizer";
+import { TokenCountingService } from "../services/TokenCountingService";
 
 export class GitHubPR extends vscode.TreeItem {
   constructor(
@@ -220,6 +220,34 @@ export class GitHubPRsProvider implements vscode.TreeDataProvider<GitHubPR> {
     this._onDidChangeTreeData.fire(pr);
   }
 
+  getSelectedPRs(): number[] {
+    return Array.from(this.selectedPRs);
+  }
+
+  /**
+   * Replace the selected PRs (e.g. when restoring a selection set)
+   */
+  async setSelectedPRs(prNumbers: number[]): Promise<void> {
+    // Diffs are fetched through the API client, which is set up when PRs load
+    if (!this.loaded && !this.isLoading && prNumbers.length > 0) {
+      await this.loadPRs();
+    }
+
+    this.selectedPRs = new Set(prNumbers);
+    for (const pr of this.prs) {
+      if (!pr.isSpecialItem && pr.checkboxState !== undefined) {
+        pr.checkboxState = this.selectedPRs.has(pr.number)
+          ? vscode.TreeItemCheckboxState.Checked
+          : vscode.TreeItemCheckboxState.Unchecked;
+      }
+    }
+
+    this.updateTokenCount();
+    this._onDidChangeTreeData.fire();
+
+    await Promise.all(prNumbers.map((prNumber) => this.fetchAndCachePRDiff(prNumber)));
+  }
+
   clearAllSelections(): void {
     if (this.selectedPRs.size === 0) {
       return;
@@ -238,8 +266,17 @@ export class GitHubPRsProvider implements vscode.TreeDataProvider<GitHubPR> {
   }
 
   private calculatePRTokens(diff: string): number {
-    const tokens = encode(diff);
-    return tokens.length;
+    return TokenCountingService.getConfiguredTokenizer().countTokens(diff);
+  }
+
+  /**
+   * Recalculate cached PR token counts (e.g. after the tokenizer changed)
+   */
+  recountTokens(): void {
+    for (const cached of this.prCache.values()) {
+      cached.tokenCount = this.calculatePRTokens(cached.diff);
+    }
+    this.updateTokenCount();
   }
 
   private updateTokenCount(): void {
@@ -1,12 +1,28 @@
 import * as vscode from "vscode";
 import * as path from "path";
-import { FileNode, FileNodeUtils } from "../models/FileNode";
+import { FileNode, FileNodeFactory, FileNodeUtils, FileSymbol } from "../models/FileNode";
 import { Workspace, ContextConfig } from "../models/Workspace";
 import { FileSelectionChangeEvent } from "../models/Events";
 import { WorkspaceManager } from "../services/WorkspaceManager";
 import { FileDiscoveryService } from "../services/FileDiscoveryService";
 import { TokenCountingService } from "../services/TokenCountingService";
 import { IgnorePatternService } from "../services/IgnorePatternService";
+import { FileSniffService } from "../services/FileSniffService";
+import { SymbolSelectionService } from "../services/SymbolSelectionService";
+import { RenderModeService } from "../services/RenderModeService";
+
+/**
+ * Format a token count compactly for tree descriptions (e.g. 850, 1.2k, 3.4M)
+ */
+function formatTokenCount(tokens: number): string {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1).replace(/\.0$/, "")}M`;
+  }
+  if (tokens >= 1000) {
+    return `${(tokens / 1000).toFixed(1).replace(/\.0$/, "")}k`;
+  }
+  return String(tokens);
+}
 
 /**
  * Tree data provider that supports multiple workspace folders
@@ -31,10 +47,23 @@ export class MultiRootTreeProvider
   private promptPrefix: string = "";
   private promptSuffix: string = "";
   private maxFileSizeWarningKB: number = 500;
+  private showTokenCounts: boolean = true;
+
+  // Token totals of checked files, rolled up per directory and workspace root
+  private tokenTotals = new Map<string, number>();
 
   // GitHub integration
   private gitHubIssuesProvider?: any;
 
+  // Badges for binary, minified and generated files
+  private fileSniffService?: FileSniffService;
+
+  // Files expand into their symbols, which can be checked individually
+  private symbolSelectionService?: SymbolSelectionService;
+
+  // Badges for files rendered as outlines (or in full when outlines are the default) and line numbers
+  private renderModeService?: RenderModeService;
+
   constructor(
     private workspaceManager: WorkspaceManager,
     private fileDiscoveryService: FileDiscoveryService,
@@ -78,6 +107,19 @@ export class MultiRootTreeProvider
       await this.refreshWorkspaces();
     });
 
+    // Rebuild the tree when an ignore file changes
+    this.ignorePatternService.onDidChangeIgnorePatterns(async (workspace) => {
+      console.log(`Ignore rules changed in workspace ${workspace.name}`);
+      await this.refreshWorkspaces();
+    });
+
+    // Show per-file and rolled-up token counts once counting finishes
+    this.tokenCountingService.onDidChangeTokens((payload) => {
+      if (!payload.isCounting) {
+        this.updateTokenTotals();
+      }
+    });
+
     // Listen for configuration changes
     vscode.workspace.onDidChangeConfiguration((event) => {
       if (event.affectsConfiguration("promptTower")) {
@@ -93,19 +135,69 @@ export class MultiRootTreeProvider
   private loadConfiguration(): void {
     const config = vscode.workspace.getConfiguration("promptTower");
     this.maxFileSizeWarningKB = config.get<number>("maxFileSizeWarningKB", 500);
+    this.showTokenCounts = config.get<boolean>("showTokenCounts", true);
+  }
+
+  /**
+   * Recompute token totals of checked files per node and refresh descriptions
+   */
+  private updateTokenTotals(): void {
+    const totals = new Map<string, number>();
+
+    const collect = (node: FileNode): number => {
+      let total = 0;
+      if (node.type === "file") {
+        total =
+          node.isChecked || node.isPartial
+            ? this.tokenCountingService.getTokensForFile(node.absolutePath) ?? 0
+            : 0;
+      } else if (node.children) {
+        for (const child of node.children) {
+          total += collect(child);
+        }
+      }
+
+      if (total > 0) {
+        totals.set(node.absolutePath, total);
+      }
+      return total;
+    };
+
+    for (const rootNode of this.rootNodes) {
+      collect(rootNode);
+    }
+
+    // Skip the tree refresh when nothing visible changed
+    const unchanged =
+      totals.size === this.tokenTotals.size &&
+      Array.from(totals).every(
+        ([nodePath, total]) => this.tokenTotals.get(nodePath) === total
+      );
+    this.tokenTotals = totals;
+
+    if (!unchanged && this.showTokenCounts) {
+      this._onDidChangeTreeData.fire();
+    }
   }
 
   /**
    * Refresh all workspaces
+   * @param checkedPaths Paths to check after the refresh instead of the current selection
    */
-  async refreshWorkspaces(): Promise<void> {
+  async refreshWorkspaces(checkedPaths?: Set<string>): Promise<void> {
     console.log("MultiRootTreeProvider: Refreshing workspaces...");
 
     // Preserve currently checked paths (both files and directories)
     const preserveCheckedPaths = new Set<string>();
-    const checkedNodes = this.getAllCheckedNodes(this.rootNodes);
+    const checkedNodes = checkedPaths ? [] : this.getAllCheckedNodes(this.rootNodes);
 
-    console.log(`Found ${checkedNodes.length} checked nodes to preserve:`);
+    if (checkedPaths) {
+      console.log(`Restoring ${checkedPaths.size} checked paths`);
+      this.symbolSelectionService?.clearSelection();
+      checkedPaths.forEach((checkedPath) => preserveCheckedPaths.add(checkedPath));
+    } else {
+      console.log(`Found ${checkedNodes.length} checked nodes to preserve:`);
+    }
     for (const checkedNode of checkedNodes) {
       // Use the original absolute path without normalization to avoid path format issues
       preserveCheckedPaths.add(checkedNode.absolutePath);
@@ -133,6 +225,7 @@ export class MultiRootTreeProvider
       workspaces,
       preserveCheckedPaths
     );
+    this.restoreSymbolSelections();
 
     // Log results to help debug selection preservation
     const newCheckedFiles = FileNodeUtils.getCheckedFiles(this.rootNodes);
@@ -142,7 +235,9 @@ export class MultiRootTreeProvider
     );
 
     // Explain any differences in selection count
-    if (newCheckedNodes.length !== checkedNodes.length) {
+    if (checkedPaths) {
+      // Restored a saved selection; nothing to compare against
+    } else if (newCheckedNodes.length !== checkedNodes.length) {
       const difference = newCheckedNodes.length - checkedNodes.length;
       if (difference > 0) {
         console.log(
@@ -172,6 +267,116 @@ export class MultiRootTreeProvider
     );
   }
 
+  /**
+   * Get the paths of checked nodes whose parent is not checked
+   * (a checked directory stands for everything below it)
+   */
+  getTopmostCheckedPaths(): string[] {
+    const paths: string[] = [];
+    const collect = (node: FileNode) => {
+      if (node.isChecked) {
+        paths.push(node.absolutePath);
+        return;
+      }
+      if (node.type !== "file") {
+        node.children?.forEach(collect);
+      }
+    };
+
+    this.rootNodes.forEach(collect);
+    return paths;
+  }
+
+  /**
+   * Replace the current selection with the given paths, reusing refresh-time selection restore
+   */
+  async restoreCheckedPaths(absolutePaths: string[]): Promise<void> {
+    await this.refreshWorkspaces(new Set(absolutePaths));
+  }
+
+  /**
+   * Check the files at the given paths, keeping the rest of the selection
+   * Returns the paths that were checked and the paths that are not in the tree (ignored or outside workspaces)
+   */
+  checkFilePaths(absolutePaths: string[]): {
+    checked: string[];
+    notFound: string[];
+  } {
+    const checked: string[] = [];
+    const notFound: string[] = [];
+
+    for (const absolutePath of absolutePaths) {
+      const node = this.findNodeByPath(absolutePath);
+      if (!node || node.type !== "file") {
+        notFound.push(absolutePath);
+        continue;
+      }
+      if (!node.isChecked) {
+        FileNodeUtils.toggleCheckedState(node, true);
+        checked.push(absolutePath);
+      }
+    }
+
+    if (checked.length > 0) {
+      this.symbolSelectionService?.clearSelection(checked);
+
+      // Update folder checkboxes and partial markers once for the whole batch
+      this.rootNodes.forEach((rootNode) => FileNodeUtils.recomputeCheckedStates(rootNode));
+      this._onDidChangeTreeData.fire();
+      this.tokenCountingService.debouncedUpdateTokenCount(this.rootNodes);
+    }
+
+    return { checked, notFound };
+  }
+
+  /**
+   * Mark files with selected symbols as partially selected after the tree was rebuilt
+   */
+  private restoreSymbolSelections(): void {
+    const service = this.symbolSelectionService;
+    if (!service) {
+      return;
+    }
+    if (!service.isEnabled()) {
+      service.clearSelection();
+      return;
+    }
+
+    for (const absolutePath of service.getSelectedPaths()) {
+      const node = this.findNodeByPath(absolutePath);
+      if (!node || node.type !== "file" || node.isChecked) {
+        // Deleted, ignored or selected as a whole by now
+        service.clearSelection([absolutePath]);
+        continue;
+      }
+      node.isPartial = true;
+      FileNodeUtils.updateParentCheckedState(node);
+    }
+  }
+
+  /**
+   * Remember which symbols are checked after a node was toggled
+   */
+  private updateSymbolSelection(node: FileNode): void {
+    const service = this.symbolSelectionService;
+    if (!service) {
+      return;
+    }
+
+    if (node.type === "symbol") {
+      const fileNode = FileNodeUtils.getOwningFile(node);
+      service.setSelection(
+        fileNode.absolutePath,
+        fileNode.isChecked ? [] : FileNodeUtils.getCheckedSymbolKeys(fileNode)
+      );
+    } else {
+      // Files and folders are now selected or deselected as a whole
+      service.clearSelection(
+        FileNodeUtils.getDescendantFiles(node).map((fileNode) => fileNode.absolutePath)
+      );
+    }
+  }
+
   /**
    * Get all checked nodes (files and directories)
    */
@@ -179,7 +384,8 @@ export class MultiRootTreeProvider
     const checkedNodes: FileNode[] = [];
 
     for (const node of nodes) {
-      if (node.isChecked) {
+      // Symbols are restored separately; their path is the file's
+      if (node.isChecked && node.type !== "symbol") {
         checkedNodes.push(node);
       }
       if (node.children) {
@@ -194,10 +400,12 @@ export class MultiRootTreeProvider
    * Required by TreeDataProvider interface
    */
   getTreeItem(element: FileNode): vscode.TreeItem {
-    const treeItem = new vscode.TreeItem(
-      element.label,
-      element.collapsibleState
-    );
+    // Files are expanded into their symbols on demand
+    const collapsibleState =
+      element.type === "file" && this.symbolSelectionService?.isEnabled()
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : element.collapsibleState;
+    const treeItem = new vscode.TreeItem(element.label, collapsibleState);
 
     // Set context value for commands
     treeItem.contextValue = element.type;
@@ -219,15 +427,120 @@ export class MultiRootTreeProvider
     // Set tooltip
     if (element.type === "workspace-root") {
       treeItem.tooltip = `Workspace: ${element.workspace.name}\nPath: ${element.absolutePath}`;
+
+      // Which built-in ignore categories apply (promptTower.builtinIgnore.*)
+      const categories = this.ignorePatternService.getBuiltinCategories();
+      const active = categories.filter((category) => category.active);
+      const inactive = categories.filter((category) => !category.active);
+      treeItem.tooltip += `\nBuilt-in ignores (${active.length}/${categories.length}): ${
+        active.map((category) => category.label).join(", ") || "none"
+      }`;
+      if (inactive.length > 0) {
+        treeItem.tooltip += `\nSwitched off: ${inactive.map((category) => category.label).join(", ")}`;
+      }
+    } else if (element.type === "symbol" && element.symbol) {
+      return this.getSymbolTreeItem(treeItem, element, element.symbol);
     } else {
       treeItem.tooltip = element.absolutePath;
     }
 
+    // Checkboxes are binary, so mark partially selected folders with an icon and file count
+    const descriptionParts: string[] = [];
+    if (element.isPartial && element.type === "file") {
+      treeItem.iconPath = new vscode.ThemeIcon(
+        "circle-large-filled",
+        new vscode.ThemeColor("charts.blue")
+      );
+      descriptionParts.push("symbols only");
+      treeItem.tooltip += "\nOnly the checked symbols are included (click to include the whole file)";
+    } else if (element.isPartial) {
+      const { checked, total } = FileNodeUtils.countCheckedFiles(element);
+      treeItem.iconPath = new vscode.ThemeIcon(
+        "circle-large-filled",
+        new vscode.ThemeColor("charts.blue")
+      );
+      descriptionParts.push(`${checked}/${total} files`);
+      treeItem.tooltip += `\n${checked} of ${total} files selected (click to select all)`;
+    }
+
     // Set icon theme for files
     if (element.type === "file") {
       treeItem.resourceUri = vscode.Uri.file(element.absolutePath);
     }
 
+    // Badge files that are replaced by a placeholder (or forced to be included in full)
+    const sniffed =
+      element.type === "file" && this.fileSniffService?.isEnabled()
+        ? this.fileSniffService.getCached(element.absolutePath)
+        : undefined;
+    if (sniffed && sniffed.kind !== "text") {
+      const forced = this.fileSniffService!.isForced(element.absolutePath);
+      descriptionParts.push(forced ? `${sniffed.kind}, full content` : sniffed.kind);
+      treeItem.tooltip += forced
+        ? `\n${sniffed.detail ?? sniffed.kind}: full content included`
+        : `\n${sniffed.detail ?? sniffed.kind}: included as a one-line placeholder`;
+      treeItem.contextValue = forced ? "file-sniffed-forced" : "file-sniffed";
+    }
+
+    // Mark files whose render mode differs from the default; "-outline" picks the context menu action
+    if (element.type === "file" && this.renderModeService) {
+      const fileMode = this.renderModeService.getFileMode(element.absolutePath);
+      if (fileMode) {
+        descriptionParts.push(fileMode);
+      }
+      if (this.renderModeService.getMode(element.absolutePath) === "outline") {
+        treeItem.contextValue += "-outline";
+        treeItem.tooltip += "\nIncluded as an outline (signatures only)";
+      } else if (fileMode) {
+        treeItem.tooltip += "\nIncluded in full";
+      }
+
+      // Same for line numbers; "-numbered" picks the context menu action
+      const fileLineNumbers = this.renderModeService.getFileLineNumbers(element.absolutePath);
+      if (fileLineNumbers !== undefined) {
+        descriptionParts.push(fileLineNumbers ? "line numbers" : "no line numbers");
+      }
+      if (this.renderModeService.getLineNumbers(element.absolutePath)) {
+        treeItem.contextValue += "-numbered";
+        treeItem.tooltip += "\nIncluded with line numbers";
+      }
+    }
+
+    // Show token count (files) or rolled-up total of checked files (directories)
+    const tokens = this.tokenTotals.get(element.absolutePath);
+    if (this.showTokenCounts && tokens !== undefined) {
+      descriptionParts.push(`${formatTokenCount(tokens)} tokens`);
+    }
+    if (descriptionParts.length > 0) {
+      treeItem.description = descriptionParts.join(" · ");
+    }
+
+    return treeItem;
+  }
+
+  /**
+   * Tree item of a symbol: kind icon and line range, no token count
+   */
+  private getSymbolTreeItem(
+    treeItem: vscode.TreeItem,
+    element: FileNode,
+    symbol: FileSymbol
+  ): vscode.TreeItem {
+    const kind = vscode.SymbolKind[symbol.kind];
+    const lines =
+      symbol.startLine === symbol.endLine
+        ? `line ${symbol.startLine}`
+        : `lines ${symbol.startLine}-${symbol.endLine}`;
+
+    // e.g. SymbolKind.EnumMember -> "symbol-enum-member"
+    treeItem.iconPath = element.isPartial
+      ? new vscode.ThemeIcon("circle-large-filled", new vscode.ThemeColor("charts.blue"))
+      : new vscode.ThemeIcon(`symbol-${kind.replace(/(?<=[a-z])(?=[A-Z])/g, "-").toLowerCase()}`);
+    treeItem.description = lines;
+    treeItem.tooltip = `${kind} ${symbol.name}\n${element.relativePath}, ${lines}`;
+    if (element.isPartial) {
+      treeItem.tooltip += "\nSome members selected (click to select all)";
+    }
     return treeItem;
   }
 
@@ -244,8 +557,83 @@ export class MultiRootTreeProvider
       return this.rootNodes;
     }
 
+    if (element.type === "file") {
+      return this.loadSymbolNodes(element);
+    }
+
     // Return children of the given element
-    return element.children || [];
+    const children = element.children || [];
+    this.sniffFiles(children);
+    return children;
+  }
+
+  /**
+   * (Re)load the symbols of a file as its children, keeping checked symbols checked
+   */
+  private async loadSymbolNodes(fileNode: FileNode): Promise<FileNode[]> {
+    const service = this.symbolSelectionService;
+    if (!service?.isEnabled()) {
+      return [];
+    }
+
+    const symbols = await service.getSymbols(fileNode.absolutePath);
+    if (symbols.length === 0) {
+      // No symbol provider (yet); keep any selection for later
+      return [];
+    }
+
+    const selection = service.getSelection(fileNode.absolutePath);
+    const createNodes = (fileSymbols: FileSymbol[], parent: FileNode): FileNode[] =>
+      fileSymbols.map((symbol) => {
+        const node = FileNodeFactory.createSymbolNode(symbol, parent);
+        node.isChecked ||= selection?.has(symbol.key) ?? false;
+        node.children = createNodes(symbol.children, node);
+        return node;
+      });
+
+    const wasPartial = fileNode.isPartial;
+    fileNode.children = createNodes(symbols, fileNode);
+
+    if (wasPartial) {
+      // Selected symbols may have been renamed or removed since they were checked
+      FileNodeUtils.recomputeCheckedStates(fileNode);
+      service.setSelection(
+        fileNode.absolutePath,
+        fileNode.isChecked ? [] : FileNodeUtils.getCheckedSymbolKeys(fileNode)
+      );
+      if (!fileNode.isPartial) {
+        FileNodeUtils.updateParentCheckedState(fileNode);
+        this._onDidChangeTreeData.fire();
+      }
+    }
+
+    return fileNode.children;
+  }
+
+  /**
+   * Classify files as they become visible and badge the ones left out of the context
+   */
+  private sniffFiles(nodes: FileNode[]): void {
+    const sniffService = this.fileSniffService;
+    if (!sniffService?.isEnabled()) {
+      return;
+    }
+
+    for (const node of nodes) {
+      if (node.type !== "file" || sniffService.getCached(node.absolutePath)) {
+        continue;
+      }
+      sniffService
+        .sniff(node.absolutePath)
+        .then((result) => {
+          if (result.kind !== "text") {
+            this._onDidChangeTreeData.fire(node);
+          }
+        })
+        .catch((error) => {
+          console.warn(`Error sniffing file ${node.absolutePath}:`, error);
+        });
+    }
   }
 
   /**
@@ -254,6 +642,7 @@ export class MultiRootTreeProvider
   async toggleNodeSelection(node: FileNode): Promise<void> {
     console.log(`Toggling selection for: ${node.label} (${node.type}) ${node.isChecked ? 'checked' : 'unchecked'} -> ${!node.isChecked ? 'checked' : 'unchecked'}`);
 
+    // A partially selected folder is unchecked, so clicking it selects everything below it
     const originalState = node.isChecked;
     let newState = !originalState;
     let userCancelled = false;
@@ -283,6 +672,8 @@ export class MultiRootTreeProvider
         FileNodeUtils.updateParentCheckedState(node);
       }
 
+      this.updateSymbolSelection(node);
+
       // Emit selection change event
       this._onDidChangeSelection.fire({
         node,
@@ -290,8 +681,12 @@ export class MultiRootTreeProvider
         propagateToChildren: node.type === "directory",
       });
 
-      // Refresh the tree to show updated checkboxes
-      this._onDidChangeTreeData.fire(node);
+      // Refresh from the topmost ancestor so parent checkboxes and partial markers update too
+      let refreshRoot = node;
+      while (refreshRoot.parent) {
+        refreshRoot = refreshRoot.parent;
+      }
+      this._onDidChangeTreeData.fire(refreshRoot);
 
       // Update token count
       this.tokenCountingService.debouncedUpdateTokenCount(this.rootNodes);
@@ -339,8 +734,9 @@ export class MultiRootTreeProvider
     console.log("MultiRootTreeProvider: Clearing all selections");
 
     let hasFileChanges = false;
+    this.symbolSelectionService?.clearSelection();
     for (const rootNode of this.rootNodes) {
-      const checkedFiles = FileNodeUtils.getCheckedFiles([rootNode]);
+      const checkedFiles = FileNodeUtils.getSelectedFiles([rootNode]);
       if (checkedFiles.length > 0) {
         FileNodeUtils.toggleCheckedState(rootNode, false);
         hasFileChanges = true;
@@ -380,6 +776,7 @@ export class MultiRootTreeProvider
     const newState = !allSelected;
 
     // Toggle all root nodes (which will propagate to children)
+    this.symbolSelectionService?.clearSelection();
     for (const rootNode of this.rootNodes) {
       FileNodeUtils.toggleCheckedState(rootNode, newState);
     }
@@ -513,6 +910,49 @@ export class MultiRootTreeProvider
     }
   }
 
+  /**
+   * Set the service that classifies binary, minified and generated files
+   */
+  setFileSniffService(service: FileSniffService): void {
+    this.fileSniffService = service;
+
+    // Badges and token counts depend on forced paths and settings
+    service.onDidChange(() => {
+      this._onDidChangeTreeData.fire();
+      this.tokenCountingService.debouncedUpdateTokenCount(this.rootNodes);
+    });
+  }
+
+  /**
+   * Set the service that decides which files are rendered as outlines
+   */
+  setRenderModeService(service: RenderModeService): void {
+    this.renderModeService = service;
+
+    // Badges and token counts depend on the file modes and the default
+    service.onDidChange(() => {
+      this._onDidChangeTreeData.fire();
+      this.tokenCountingService.debouncedUpdateTokenCount(this.rootNodes);
+    });
+  }
+
+  /**
+   * Set the service that lists file symbols and keeps symbol selections
+   */
+  setSymbolSelectionService(service: SymbolSelectionService): void {
+    this.symbolSelectionService = service;
+
+    // Symbols of expanded files move when the file is edited
+    this.context.subscriptions.push(
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        const node = this.findNodeByPath(document.uri.fsPath);
+        if (node?.type === "file" && node.children && node.children.length > 0) {
+          this._onDidChangeTreeData.fire(node);
+        }
+      })
+    );
+  }
+
   /**
    * Get GitHub issues provider
    */
@@ -0,0 +1,165 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Snippet } from "../models/Snippet";
+
+const SNIPPETS_KEY = "promptTower.snippets";
+
+/** Characters of the first code line shown next to a snippet */
+const DESCRIPTION_LENGTH = 60;
+
+/**
+ * Tree data provider for the Snippets view
+ * - Snippets are line ranges captured from editor selections
+ * - They are remembered per workspace until removed
+ */
+export class SnippetsProvider implements vscode.TreeDataProvider<Snippet> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<Snippet | undefined | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private _onDidChangeSnippets = new vscode.EventEmitter<void>();
+  /** Fires when snippets are added, removed, checked or unchecked */
+  readonly onDidChangeSnippets = this._onDidChangeSnippets.event;
+
+  private snippets: Snippet[];
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.snippets = context.workspaceState.get<Snippet[]>(SNIPPETS_KEY, []);
+  }
+
+  /**
+   * Required by TreeDataProvider interface
+   */
+  getTreeItem(snippet: Snippet): vscode.TreeItem {
+    const lines =
+      snippet.startLine === snippet.endLine
+        ? `${snippet.startLine}`
+        : `${snippet.startLine}-${snippet.endLine}`;
+    const treeItem = new vscode.TreeItem(
+      `${path.basename(snippet.absolutePath)}:${lines}`,
+      vscode.TreeItemCollapsibleState.None
+    );
+
+    const firstLine = snippet.text.split("\n").find((line) => line.trim() !== "")?.trim() ?? "";
+    treeItem.description =
+      firstLine.length > DESCRIPTION_LENGTH
+        ? `${firstLine.slice(0, DESCRIPTION_LENGTH)}…`
+        : firstLine;
+    treeItem.tooltip = `${snippet.relativePath}, line${
+      snippet.startLine === snippet.endLine ? "" : "s"
+    } ${lines}`;
+    treeItem.resourceUri = vscode.Uri.file(snippet.absolutePath);
+    treeItem.contextValue = "snippet";
+    treeItem.checkboxState = snippet.isChecked
+      ? vscode.TreeItemCheckboxState.Checked
+      : vscode.TreeItemCheckboxState.Unchecked;
+
+    // Clicking a snippet shows its lines in the editor
+    treeItem.command = {
+      command: "vscode.open",
+      title: "Open Snippet",
+      arguments: [
+        vscode.Uri.file(snippet.absolutePath),
+        { selection: new vscode.Range(snippet.startLine - 1, 0, snippet.endLine - 1, 0) },
+      ],
+    };
+
+    return treeItem;
+  }
+
+  /**
+   * Required by TreeDataProvider interface
+   */
+  getChildren(element?: Snippet): Snippet[] {
+    return element ? [] : this.snippets;
+  }
+
+  /**
+   * Capture the selected lines of an editor; every non-empty selection becomes a snippet
+   * Returns the snippets that were added
+   */
+  async addSelections(editor: vscode.TextEditor): Promise<Snippet[]> {
+    const document = editor.document;
+    const added: Snippet[] = [];
+
+    for (const selection of editor.selections) {
+      if (selection.isEmpty) {
+        continue;
+      }
+
+      // Whole lines; a selection ending at the start of a line does not include that line
+      const startLine = selection.start.line;
+      const endLine =
+        selection.end.character === 0 && selection.end.line > startLine
+          ? selection.end.line - 1
+          : selection.end.line;
+      const text = document.getText(
+        new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length)
+      );
+
+      const snippet: Snippet = {
+        id: `${document.uri.fsPath}:${startLine + 1}-${endLine + 1}`,
+        absolutePath: document.uri.fsPath,
+        relativePath: vscode.workspace.asRelativePath(document.uri, false),
+        startLine: startLine + 1,
+        endLine: endLine + 1,
+        text: text.replace(/\r\n/g, "\n"),
+        isChecked: true,
+      };
+
+      this.snippets = this.snippets.filter((existing) => existing.id !== snippet.id);
+      this.snippets.push(snippet);
+      added.push(snippet);
+    }
+
+    if (added.length > 0) {
+      await this.save();
+    }
+    return added;
+  }
+
+  /**
+   * Include or exclude a snippet
+   */
+  async toggleSnippet(snippet: Snippet, isChecked: boolean): Promise<void> {
+    snippet.isChecked = isChecked;
+    await this.save();
+  }
+
+  /**
+   * Remove snippets from the view
+   */
+  async removeSnippets(snippets: Snippet[]): Promise<void> {
+    const removedIds = new Set(snippets.map((snippet) => snippet.id));
+    this.snippets = this.snippets.filter((snippet) => !removedIds.has(snippet.id));
+    await this.save();
+  }
+
+  /**
+   * Remove all snippets
+   */
+  async clearSnippets(): Promise<void> {
+    this.snippets = [];
+    await this.save();
+  }
+
+  /**
+   * Snippets included in the context, in the order they were added
+   */
+  getCheckedSnippets(): Snippet[] {
+    return this.snippets.filter((snippet) => snippet.isChecked);
+  }
+
+  private async save(): Promise<void> {
+    await this.context.workspaceState.update(SNIPPETS_KEY, this.snippets);
+    this._onDidChangeTreeData.fire();
+    this._onDidChangeSnippets.fire();
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+    this._onDidChangeSnippets.dispose();
+  }
+}
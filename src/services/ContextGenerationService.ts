@@ -1,9 +1,115 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
+import ignore from "ignore";
 import { FileNode, FileNodeUtils } from "../models/FileNode";
+import { Snippet } from "../models/Snippet";
 import { ContextConfig } from "../models/Workspace";
 import { generateFileStructureTree } from "../utils/fileTree";
+import {
+  StrippedLine,
+  stripCommentsToLines,
+  supportsCommentStripping,
+} from "../utils/commentStripper";
+import { generateOutlineLines, supportsOutline } from "../utils/outline";
+import { Tokenizer } from "../utils/tokenizers";
+import { TokenCountingService } from "./TokenCountingService";
+import { GitDiffSource, GitService } from "./GitService";
+import { ProjectConfigService } from "./ProjectConfigService";
+import { SecretScanService } from "./SecretScanService";
+import { FileSniffService } from "./FileSniffService";
+import { FileEncodingService } from "./FileEncodingService";
+import { SymbolSelectionService } from "./SymbolSelectionService";
+import { RenderModeService } from "./RenderModeService";
+import { SnippetsProvider } from "../providers/SnippetsProvider";
+import { isSniffPlaceholder } from "../utils/fileSniffer";
+import { DecodedText, decodeText } from "../utils/encoding";
+import {
+  PRESET_TEMPLATES,
+  assembleJsonContext,
+  getMarkdownFence,
+  getMarkdownLanguage,
+  renderFileErrorBlock,
+  renderGitDiffBlock,
+  renderIssueBlock,
+  renderJsonBlock,
+  renderPullRequestBlock,
+  toEscapingStrategy,
+  toOutputPreset,
+} from "../utils/outputFormats";
+import { escapeContent, escapeXmlValue } from "../utils/escaping";
+import {
+  LineRange,
+  NumberedLine,
+  countLines,
+  extractNumberedLines,
+  formatNumberedLines,
+  toNumberedLines,
+  trimBlankLines,
+} from "../utils/lineRanges";
+
+/**
+ * How a file is rendered into its block
+ */
+type FileBlockMode = "full" | "commentsStripped" | "outlined";
+
+/**
+ * Decoded content of a file
+ */
+interface FileContent extends DecodedText {
+  /** Outline of files rendered as outlines, when it needs more than the content */
+  outline?: StrippedLine[] | null;
+
+  /** Lines of the whole file, also when only some of them are included */
+  lineCount?: number;
+
+  /** Lines to include when only some symbols of the file are selected */
+  ranges?: LineRange[];
+}
+
+/**
+ * What a block stands for: a file or a snippet of one
+ */
+interface BlockSource {
+  absolutePath: string;
+  relativePath: string;
+  encoding: string;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Block content and how many source lines it holds (elision markers excluded)
+ */
+interface RenderedLines {
+  content: string;
+  lineCount: number;
+}
+
+/**
+ * What the token budget did to a file
+ */
+export type TrimAction = "commentsStripped" | "outlined" | "dropped";
+
+/**
+ * A file that was reduced to fit the token budget
+ */
+export interface TrimmedFile {
+  relativePath: string;
+  action: TrimAction;
+}
+
+/**
+ * Outcome of fitting the context into a token budget
+ */
+export interface TokenBudgetReport {
+  budget: number;
+  tokenCount: number;
+  withinBudget: boolean;
+  /** Project tree type that was finally used */
+  treeType: string;
+  trimmedFiles: TrimmedFile[];
+}
 
 /**
  * Result of context generation
@@ -12,6 +118,8 @@ export interface ContextGenerationResult {
   contextString: string;
   fileCount: number;
   tokenCount?: number;
+  /** Present when a token budget was applied */
+  budget?: TokenBudgetReport;
 }
 
 /**
@@ -22,13 +130,40 @@ interface StructuredFilePath {
   tree: string;
 }
 
+/**
+ * Project tree types from most to least detailed, in the order the budget gives them up
+ */
+const TREE_DEGRADATION_ORDER = [
+  "fullFilesAndDirectories",
+  "fullDirectoriesOnly",
+  "selectedFilesOnly",
+  "none",
+];
+
+const MODE_RANK: Record<FileBlockMode | "dropped", number> = {
+  full: 0,
+  commentsStripped: 1,
+  outlined: 2,
+  dropped: 3,
+};
+
 /**
  * Service for generating context strings from selected files
  */
 export class ContextGenerationService {
   private config!: ContextConfig; // Use definite assignment assertion
+  private tokenizer!: Tokenizer;
   private gitHubIssuesProvider?: any;
   private gitHubPRsProvider?: any;
+  private gitService?: GitService;
+  private secretScanService?: SecretScanService;
+  private fileSniffService?: FileSniffService;
+  private fileEncodingService?: FileEncodingService;
+  private symbolSelectionService?: SymbolSelectionService;
+  private renderModeService?: RenderModeService;
+  private snippetsProvider?: SnippetsProvider;
+  private projectConfigService?: ProjectConfigService;
+  private gitDiffSource: GitDiffSource | null = null;
 
   constructor() {
     this.loadConfiguration();
@@ -36,36 +171,79 @@ export class ContextGenerationService {
   }
 
   /**
-   * Load configuration from VS Code settings
+   * Load configuration from VS Code settings, with the project config file on top
    */
   private loadConfiguration(): void {
     const config = vscode.workspace.getConfiguration("promptTower");
+    const project = this.projectConfigService?.getConfig() ?? {};
+    this.tokenizer = TokenCountingService.getConfiguredTokenizer();
 
     const outputFormat = config.get<any>("outputFormat") || {};
     const projectTreeFormat =
       config.get<any>("outputFormat.projectTreeFormat") || {};
     const wrapperFormat = config.get<any>("outputFormat.wrapperFormat");
+    const wrapperTemplate =
+      project.templates?.wrapper !== undefined
+        ? project.templates.wrapper
+        : wrapperFormat === null
+          ? null
+          : wrapperFormat?.template;
+
+    // Markdown and plain text bring their own templates; the configured ones shape the XML preset
+    const outputPreset = toOutputPreset(config.get<string>("outputPreset"));
+    const xml = PRESET_TEMPLATES.xml;
+    const templates =
+      outputPreset === "markdown" || outputPreset === "plain"
+        ? PRESET_TEMPLATES[outputPreset]
+        : {
+            blockTemplate:
+              project.templates?.block || outputFormat.blockTemplate || xml.blockTemplate,
+            blockSeparator:
+              project.templates?.blockSeparator ??
+              (outputFormat.blockSeparator || xml.blockSeparator),
+            wrapperTemplate:
+              wrapperTemplate === null ? null : wrapperTemplate || xml.wrapperTemplate,
+            projectTreeTemplate: xml.projectTreeTemplate,
+          };
 
     this.config = {
-      blockTemplate:
-        outputFormat.blockTemplate ||
-        '<file name="{fileNameWithExtension}" path="{rawFilePath}">\n{fileContent}\n</file>',
-      blockSeparator: outputFormat.blockSeparator || "\n",
-      blockTrimLines: outputFormat.blockTrimLines ?? true,
-      wrapperTemplate:
-        wrapperFormat === null
-          ? null
-          : wrapperFormat?.template ||
-            "<context>\n{githubIssues}{githubPRs}{treeBlock}<project_files>\n{blocks}\n</project_files>\n</context>",
+      outputPreset,
+      escaping: toEscapingStrategy(outputPreset, config.get<string>(`escaping.${outputPreset}`)),
+      blockTemplate: templates.blockTemplate,
+      blockSeparator: templates.blockSeparator,
+      blockTrimLines:
+        project.templates?.trimBlockLines ?? outputFormat.blockTrimLines ?? true,
+      wrapperTemplate: templates.wrapperTemplate,
       projectTree: {
-        enabled: projectTreeFormat.enabled ?? true,
-        type: projectTreeFormat.type || "fullFilesAndDirectories",
-        showFileSize: projectTreeFormat.showFileSize ?? false,
-        template: "<project_tree>\n{projectTree}\n</project_tree>\n",
+        enabled: project.projectTree?.enabled ?? projectTreeFormat.enabled ?? true,
+        type:
+          project.projectTree?.type ||
+          projectTreeFormat.type ||
+          "fullFilesAndDirectories",
+        showFileSize:
+          project.projectTree?.showFileSize ?? projectTreeFormat.showFileSize ?? false,
+        template: templates.projectTreeTemplate,
       },
-      promptPrefix: "",
-      promptSuffix: "",
+      promptPrefix: project.prompt?.prefix ?? "",
+      promptSuffix: project.prompt?.suffix ?? "",
       maxFileSizeWarningKB: config.get<number>("maxFileSizeWarningKB", 500),
+      commentStripping: {
+        keepLicenseHeader: config.get<boolean>(
+          "removeComments.keepLicenseHeader",
+          false
+        ),
+        keepDocComments: config.get<boolean>(
+          "removeComments.keepDocComments",
+          false
+        ),
+      },
+      tokenBudget: {
+        limit: project.tokenBudget?.limit ?? config.get<number>("tokenBudget.limit", 0),
+        filePriorities: {
+          ...config.get<Record<string, number>>("tokenBudget.filePriorities", {}),
+          ...project.priorities,
+        },
+      },
     };
   }
 
@@ -74,7 +252,14 @@ export class ContextGenerationService {
    */
   private setupConfigurationWatcher(): void {
     vscode.workspace.onDidChangeConfiguration((event) => {
-      if (event.affectsConfiguration("promptTower.outputFormat")) {
+      if (
+        event.affectsConfiguration("promptTower.outputFormat") ||
+        event.affectsConfiguration("promptTower.outputPreset") ||
+        event.affectsConfiguration("promptTower.escaping") ||
+        event.affectsConfiguration("promptTower.removeComments") ||
+        event.affectsConfiguration("promptTower.tokenBudget") ||
+        event.affectsConfiguration("promptTower.tokenizer")
+      ) {
         this.loadConfiguration();
       }
     });
@@ -90,13 +275,18 @@ export class ContextGenerationService {
       suffix?: string;
       primaryWorkspaceRoot?: string;
       treeType?: string;
+      removeComments?: boolean;
+      /** Maximum context size in tokens; 0 disables, undefined uses the configured limit */
+      tokenBudget?: number;
     }
   ): Promise<ContextGenerationResult> {
-    const checkedFiles = FileNodeUtils.getCheckedFiles(fileNodes);
+    // Files with checked symbols only contribute those symbols
+    const checkedFiles = FileNodeUtils.getSelectedFiles(fileNodes);
     const fileCount = checkedFiles.length;
     
     // Use provided treeType or fall back to config default
     const effectiveTreeType = options?.treeType || this.config.projectTree.type;
+    const tokenBudget = options?.tokenBudget ?? this.config.tokenBudget.limit;
 
     // Check if we have GitHub issues selected
     let hasSelectedIssues = false;
@@ -122,22 +312,41 @@ export class ContextGenerationService {
       }
     }
 
-    if (fileCount === 0 && !hasSelectedIssues && !hasSelectedPRs) {
+    // Local git changes are rendered up front so an empty file selection can still use them
+    const gitDiffBlocks = await this.generateGitDiffBlocks(fileNodes);
+
+    // Snippets follow the file blocks and are never trimmed by the token budget
+    const snippetBlocks = (this.snippetsProvider?.getCheckedSnippets() ?? []).map((snippet) =>
+      this.renderSnippetBlock(snippet)
+    );
+
+    if (
+      fileCount === 0 &&
+      snippetBlocks.length === 0 &&
+      !hasSelectedIssues &&
+      !hasSelectedPRs &&
+      gitDiffBlocks.length === 0
+    ) {
       // If project tree is enabled and configured to show all files, generate tree-only context
-      if (
+      const fileTree =
         this.config.projectTree.enabled &&
         (effectiveTreeType === "fullFilesAndDirectories" ||
           effectiveTreeType === "fullDirectoriesOnly")
-      ) {
-        const fileTree = await this.generateProjectTree(
-          fileNodes,
-          options?.primaryWorkspaceRoot,
-          effectiveTreeType
-        );
-        let treeOnlyContext = this.config.projectTree.template.replace(
-          "{projectTree}",
-          fileTree
-        );
+          ? await this.generateProjectTree(
+              fileNodes,
+              options?.primaryWorkspaceRoot,
+              effectiveTreeType
+            )
+          : null;
+      if (fileTree !== null) {
+        if (this.config.outputPreset === "json") {
+          return {
+            contextString: this.assembleContext([], [], [], [], fileTree, 0, options),
+            fileCount: 0,
+          };
+        }
+
+        let treeOnlyContext = this.renderTreeBlock(fileTree);
 
         if (options?.prefix) {
           treeOnlyContext = options.prefix + "\n" + treeOnlyContext;
@@ -153,11 +362,20 @@ export class ContextGenerationService {
     }
 
     try {
-      // Generate file blocks concurrently
-      const fileBlockPromises =
-        fileCount > 0
-          ? checkedFiles.map((node) => this.generateFileBlock(node))
-          : [];
+      // Files marked as outlines stay outlines (files with checked symbols are reduced already);
+      // the rest can have their comments stripped
+      const baseModes: FileBlockMode[] = checkedFiles.map((node) =>
+        this.renderModeService?.getMode(node.absolutePath) === "outline" && node.isChecked
+          ? "outlined"
+          : options?.removeComments
+            ? "commentsStripped"
+            : "full"
+      );
+
+      // Read file contents concurrently
+      const fileContentPromises = checkedFiles.map((node, index) =>
+        this.readFileContent(node, baseModes[index])
+      );
 
       // Generate project tree
       const projectTreePromise = this.generateProjectTree(
@@ -173,50 +391,49 @@ export class ContextGenerationService {
       const githubPRsPromise = this.generateGitHubPRsBlocks();
 
       // Wait for all processing to complete
-      const [fileTree, githubIssuesBlocks, githubPRsBlocks, ...fileBlocks] = await Promise.all([
+      const [fileTree, githubIssuesBlocks, githubPRsBlocks, ...fileContents] = await Promise.all([
         projectTreePromise,
         githubIssuesPromise,
         githubPRsPromise,
-        ...fileBlockPromises,
+        ...fileContentPromises,
       ]);
 
-      // Join file blocks
-      const joinedFileBlocks = fileBlocks.join(this.config.blockSeparator);
-
-      // Join GitHub issues
-      const joinedGithubIssues =
-        githubIssuesBlocks.length > 0
-          ? githubIssuesBlocks.join(this.config.blockSeparator)
-          : "";
-
-      // Join GitHub PRs
-      const joinedGithubPRs =
-        githubPRsBlocks.length > 0
-          ? githubPRsBlocks.join(this.config.blockSeparator)
-          : "";
-
-      // Apply wrapper template
-      let finalContext = this.applyWrapperTemplate(
-        joinedFileBlocks,
-        joinedGithubIssues,
-        joinedGithubPRs,
-        fileTree,
-        fileCount
+      const fileBlocks = checkedFiles.map((node, index) =>
+        this.renderFileBlock(node, fileContents[index], baseModes[index])
       );
 
-      // Add prefix and suffix
-      if (options?.prefix) {
-        finalContext = options.prefix + "\n" + finalContext;
-      }
-      if (options?.suffix) {
-        if (finalContext.length > 0 && !finalContext.endsWith("\n")) {
-          finalContext += "\n";
-        }
-        finalContext += options.suffix;
+      const assemble = (
+        blocks: string[],
+        projectTree: string | null,
+        includedFileCount: number
+      ): string =>
+        this.assembleContext(
+          [...blocks, ...snippetBlocks],
+          githubIssuesBlocks,
+          githubPRsBlocks,
+          gitDiffBlocks,
+          projectTree,
+          includedFileCount,
+          options
+        );
+
+      if (tokenBudget > 0) {
+        return await this.fitToBudget({
+          fileNodes,
+          checkedFiles,
+          fileContents,
+          fileBlocks,
+          baseModes,
+          treeType: effectiveTreeType,
+          fileTree,
+          budget: tokenBudget,
+          primaryWorkspaceRoot: options?.primaryWorkspaceRoot,
+          assemble,
+        });
       }
 
       return {
-        contextString: finalContext,
+        contextString: assemble(fileBlocks, fileTree, fileCount),
         fileCount,
       };
     } catch (error) {
@@ -227,86 +444,467 @@ export class ContextGenerationService {
   }
 
   /**
-   * Generate a formatted block for a single file
+   * Combine blocks into the wrapper template and add prefix and suffix
    */
-  private async generateFileBlock(fileNode: FileNode): Promise<string> {
-    try {
-      // Read file content
-      const fileContent = await fs.promises.readFile(
-        fileNode.absolutePath,
-        "utf8"
-      );
+  private assembleContext(
+    fileBlocks: string[],
+    githubIssues: string[],
+    githubPRs: string[],
+    gitDiffs: string[],
+    projectTree: string | null,
+    fileCount: number,
+    options?: { prefix?: string; suffix?: string }
+  ): string {
+    // JSON keeps the prompt text inside the document so it stays parseable
+    if (this.config.outputPreset === "json") {
+      return assembleJsonContext({
+        prefix: options?.prefix,
+        issues: githubIssues,
+        pullRequests: githubPRs,
+        gitChanges: gitDiffs,
+        projectTree: this.config.projectTree.enabled ? projectTree : null,
+        files: fileBlocks,
+        suffix: options?.suffix,
+      });
+    }
 
-      // Calculate paths and names
-      const fileNameWithExtension = path.basename(fileNode.absolutePath);
-      const fileExtension = path.extname(fileNode.absolutePath);
-      const fileName = path.basename(fileNode.absolutePath, fileExtension);
+    // Apply wrapper template
+    const separator = this.config.blockSeparator;
+    let finalContext = this.applyWrapperTemplate(
+      fileBlocks.join(separator),
+      githubIssues.join(separator),
+      githubPRs.join(separator),
+      gitDiffs.join(separator),
+      projectTree,
+      fileCount
+    );
 
-      // Create source path (relative to workspace with leading slash)
-      const sourcePath = "/" + fileNode.relativePath.replace(/\\/g, "/");
+    // Add prefix and suffix
+    if (options?.prefix) {
+      finalContext = options.prefix + "\n" + finalContext;
+    }
+    if (options?.suffix) {
+      if (finalContext.length > 0 && !finalContext.endsWith("\n")) {
+        finalContext += "\n";
+      }
+      finalContext += options.suffix;
+    }
 
-      // Apply block template
-      let formattedBlock = this.config.blockTemplate;
+    return finalContext;
+  }
 
-      // Replace placeholders
-      formattedBlock = formattedBlock.replace(
-        /{fileNameWithExtension}/g,
-        fileNameWithExtension
-      );
-      formattedBlock = formattedBlock.replace(/{rawFilePath}/g, sourcePath);
-      formattedBlock = formattedBlock.replace(/{fileName}/g, fileName);
-      formattedBlock = formattedBlock.replace(
-        /{fileExtension}/g,
-        fileExtension
-      );
-      formattedBlock = formattedBlock.replace(
-        /{fullPath}/g,
-        fileNode.absolutePath
+  /**
+   * Degrade the context until it fits the token budget.
+   *
+   * Order: shrink the project tree, strip comments, outline the
+   * lowest-priority files, then drop the lowest-priority files.
+   */
+  private async fitToBudget(state: {
+    fileNodes: FileNode[];
+    checkedFiles: FileNode[];
+    fileContents: Array<FileContent | null>;
+    fileBlocks: string[];
+    baseModes: FileBlockMode[];
+    treeType: string;
+    fileTree: string | null;
+    budget: number;
+    primaryWorkspaceRoot?: string;
+    assemble: (
+      blocks: string[],
+      projectTree: string | null,
+      includedFileCount: number
+    ) => string;
+  }): Promise<ContextGenerationResult> {
+    const { checkedFiles, fileContents, baseModes, budget } = state;
+    const modes: Array<FileBlockMode | "dropped"> = [...baseModes];
+
+    // Blocks and their token counts, memoized per file and mode
+    const blockCache = new Map<string, { block: string; tokens: number }>();
+    const getBlock = (index: number, mode: FileBlockMode) => {
+      const key = `${index}:${mode}`;
+      let entry = blockCache.get(key);
+      if (!entry) {
+        const block =
+          mode === baseModes[index]
+            ? state.fileBlocks[index]
+            : this.renderFileBlock(
+                checkedFiles[index],
+                fileContents[index],
+                mode
+              );
+        entry = { block, tokens: this.tokenizer.countTokens(block) };
+        blockCache.set(key, entry);
+      }
+      return entry;
+    };
+    const tokensFor = (index: number): number => {
+      const mode = modes[index];
+      return mode === "dropped" ? 0 : getBlock(index, mode).tokens;
+    };
+
+    let treeIndex = TREE_DEGRADATION_ORDER.indexOf(state.treeType);
+    let treeType = state.treeType;
+    let projectTree: string | null = state.fileTree;
+
+    let contextString = "";
+    let includedCount = 0;
+    const measure = (): number => {
+      const blocks: string[] = [];
+      modes.forEach((mode, index) => {
+        if (mode !== "dropped") {
+          blocks.push(getBlock(index, mode).block);
+        }
+      });
+      includedCount = blocks.length;
+      contextString = state.assemble(blocks, projectTree, includedCount);
+      return this.tokenizer.countTokens(contextString);
+    };
+
+    let tokenCount = measure();
+
+    // 1. Shrink the project tree
+    while (
+      tokenCount > budget &&
+      treeIndex !== -1 &&
+      treeIndex < TREE_DEGRADATION_ORDER.length - 1
+    ) {
+      treeIndex++;
+      treeType = TREE_DEGRADATION_ORDER[treeIndex];
+      projectTree =
+        treeType === "none"
+          ? null
+          : await this.generateProjectTree(
+              state.fileNodes,
+              state.primaryWorkspaceRoot,
+              treeType
+            );
+      tokenCount = measure();
+    }
+
+    // 2-4. Strip comments, outline, then drop files, lowest priority first
+    if (tokenCount > budget) {
+      const priorities = checkedFiles.map((node) =>
+        this.getFilePriority(node)
       );
+      const order = checkedFiles
+        .map((_, index) => index)
+        .sort(
+          (a, b) =>
+            priorities[a] - priorities[b] || tokensFor(b) - tokensFor(a)
+        );
+
+      const steps: Array<{ index: number; mode: FileBlockMode | "dropped" }> =
+        [
+          ...order
+            .filter((index) =>
+              supportsCommentStripping(checkedFiles[index].extension)
+            )
+            .map((index) => ({ index, mode: "commentsStripped" as const })),
+          ...order
+            .filter((index) => supportsOutline(checkedFiles[index].extension))
+            .map((index) => ({ index, mode: "outlined" as const })),
+          ...order.map((index) => ({ index, mode: "dropped" as const })),
+        ];
+
+      for (const step of steps) {
+        if (tokenCount <= budget) {
+          break;
+        }
+        if (MODE_RANK[modes[step.index]] >= MODE_RANK[step.mode]) {
+          continue;
+        }
 
-      // Trim file content if configured
-      let trimmedFileContent = fileContent;
-      if (this.config.blockTrimLines) {
-        trimmedFileContent = trimmedFileContent.replace(/^(\s*\r?\n)+/, ""); // Remove leading blank lines
-        trimmedFileContent = trimmedFileContent.replace(/(\r?\n\s*)+$/, ""); // Remove trailing blank lines
+        const before = tokensFor(step.index);
+        const after =
+          step.mode === "dropped" ? 0 : getBlock(step.index, step.mode).tokens;
+        if (after >= before) {
+          continue;
+        }
+
+        modes[step.index] = step.mode;
+        tokenCount -= before - after;
+
+        // Estimates are per-block; confirm against the real context once under budget
+        if (tokenCount <= budget) {
+          tokenCount = measure();
+        }
       }
+    }
 
-      // Replace file content last to avoid issues with content containing placeholders
-      formattedBlock = formattedBlock.replace(
-        /{fileContent}/g,
-        trimmedFileContent
-      );
+    tokenCount = measure();
 
-      return formattedBlock;
+    const trimmedFiles: TrimmedFile[] = [];
+    modes.forEach((mode, index) => {
+      if (mode !== baseModes[index] && mode !== "full") {
+        trimmedFiles.push({
+          relativePath: checkedFiles[index].relativePath,
+          action: mode,
+        });
+      }
+    });
+
+    return {
+      contextString,
+      fileCount: includedCount,
+      tokenCount,
+      budget: {
+        budget,
+        tokenCount,
+        withinBudget: tokenCount <= budget,
+        treeType,
+        trimmedFiles,
+      },
+    };
+  }
+
+  /**
+   * Priority of a file under the token budget (higher is kept longer)
+   */
+  private getFilePriority(fileNode: FileNode): number {
+    const relativePath = fileNode.relativePath.replace(/\\/g, "/");
+    let priority = 0;
+    let matched = false;
+
+    for (const [pattern, value] of Object.entries(
+      this.config.tokenBudget.filePriorities
+    )) {
+      if (typeof value !== "number") {
+        continue;
+      }
+      try {
+        if (ignore().add(pattern).ignores(relativePath)) {
+          priority = matched ? Math.max(priority, value) : value;
+          matched = true;
+        }
+      } catch (error) {
+        console.error(`Invalid file priority pattern "${pattern}":`, error);
+      }
+    }
+
+    return priority;
+  }
+
+  /**
+   * Read and decode a file's content, or null if it cannot be read
+   * Binary, minified and generated files are replaced by a placeholder unless forced
+   */
+  private async readFileContent(
+    fileNode: FileNode,
+    mode: FileBlockMode
+  ): Promise<FileContent | null> {
+    try {
+      const placeholder = await this.fileSniffService?.getPlaceholder(fileNode.absolutePath);
+      if (placeholder !== undefined) {
+        return { text: placeholder, encoding: "utf-8" };
+      }
+      const decoded = this.fileEncodingService
+        ? await this.fileEncodingService.readTextFile(fileNode.absolutePath)
+        : decodeText(await fs.promises.readFile(fileNode.absolutePath));
+      const content: FileContent = { ...decoded, lineCount: countLines(decoded.text) };
+
+      // Only the checked symbols of a partially selected file; all of it if they are gone
+      if (!fileNode.isChecked && this.symbolSelectionService) {
+        const ranges = await this.symbolSelectionService.getSelectedRanges(fileNode.absolutePath);
+        if (ranges.length > 0) {
+          content.ranges = ranges;
+        }
+      }
+
+      // Languages without a built-in outline are outlined from their document symbols
+      if (mode === "outlined" && !supportsOutline(fileNode.extension) && this.renderModeService) {
+        content.outline = await this.renderModeService.getOutlineLines(
+          fileNode.absolutePath,
+          content.text,
+          fileNode.extension
+        );
+      }
+      return content;
     } catch (error) {
-      console.error(
-        `Error generating block for file ${fileNode.absolutePath}:`,
-        error
+      console.error(`Error reading file ${fileNode.absolutePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Generate a formatted block for a single file
+   */
+  private renderFileBlock(
+    fileNode: FileNode,
+    content: FileContent | null,
+    mode: FileBlockMode = "full"
+  ): string {
+    if (content === null) {
+      return renderFileErrorBlock(
+        this.config.outputPreset,
+        fileNode.relativePath,
+        this.config.escaping
+      );
+    }
+
+    // Content is always UTF-8 from here on; {encoding} tells what the file was stored as
+    const placeholder = isSniffPlaceholder(content.text);
+    if (placeholder) {
+      mode = "full";
+    }
+    const lineCount = content.lineCount ?? countLines(content.text);
+
+    // Lines keep their original numbers through comment stripping, outlining and range extraction
+    let lines: NumberedLine[];
+    if (mode === "outlined") {
+      // Reduce to an outline where supported, otherwise fall back to stripping comments
+      lines =
+        content.outline ??
+        generateOutlineLines(content.text, fileNode.extension) ??
+        stripCommentsToLines(
+          content.text,
+          fileNode.extension,
+          this.config.commentStripping
+        );
+    } else if (mode === "commentsStripped") {
+      // Strip comments for supported languages if requested
+      lines = stripCommentsToLines(
+        content.text,
+        fileNode.extension,
+        this.config.commentStripping
       );
-      return `<!-- Error reading file: ${fileNode.relativePath} -->`;
+    } else {
+      lines = toNumberedLines(content.text);
+    }
+
+    if (content.ranges) {
+      lines = extractNumberedLines(lines, content.ranges, lineCount);
+    }
+
+    return this.applyBlockTemplate(
+      {
+        absolutePath: fileNode.absolutePath,
+        relativePath: fileNode.relativePath,
+        encoding: content.encoding,
+        startLine: 1,
+        endLine: lineCount,
+      },
+      this.formatLines(
+        lines,
+        !placeholder && !!this.renderModeService?.getLineNumbers(fileNode.absolutePath)
+      )
+    );
+  }
+
+  /**
+   * Generate a formatted block for a snippet; its text was decoded by the editor
+   */
+  private renderSnippetBlock(snippet: Snippet): string {
+    return this.applyBlockTemplate(
+      {
+        absolutePath: snippet.absolutePath,
+        relativePath: snippet.relativePath,
+        encoding: "utf-8",
+        startLine: snippet.startLine,
+        endLine: snippet.endLine,
+      },
+      this.formatLines(
+        toNumberedLines(snippet.text, snippet.startLine),
+        !!this.renderModeService?.getLineNumbers(snippet.absolutePath)
+      )
+    );
+  }
+
+  /**
+   * Turn lines into block content, trimmed if configured and with line numbers if requested
+   */
+  private formatLines(lines: NumberedLine[], showLineNumbers: boolean): RenderedLines {
+    const rendered = this.config.blockTrimLines ? trimBlankLines(lines) : lines;
+    return {
+      content: formatNumberedLines(rendered, showLineNumbers),
+      lineCount: rendered.filter((line) => line.lineNumber !== undefined).length,
+    };
+  }
+
+  /**
+   * Fill the block template for a file or snippet
+   */
+  private applyBlockTemplate(source: BlockSource, rendered: RenderedLines): string {
+    const fileContent = rendered.content;
+
+    // Calculate paths and names
+    const fileNameWithExtension = path.basename(source.absolutePath);
+    const fileExtension = path.extname(source.absolutePath);
+    const fileName = path.basename(source.absolutePath, fileExtension);
+
+    // Create source path (relative to workspace with leading slash)
+    const sourcePath = "/" + source.relativePath.replace(/\\/g, "/");
+    const language = getMarkdownLanguage(source.absolutePath);
+
+    if (this.config.outputPreset === "json") {
+      return renderJsonBlock({
+        path: sourcePath,
+        name: fileNameWithExtension,
+        language,
+        encoding: source.encoding,
+        startLine: source.startLine,
+        endLine: source.endLine,
+        lineCount: rendered.lineCount,
+        content: fileContent,
+      });
     }
+
+    // Apply block template
+    let formattedBlock = this.config.blockTemplate;
+
+    // Replace placeholders
+    formattedBlock = formattedBlock.replace(
+      /{fileNameWithExtension}/g,
+      this.escapeBlockValue(fileNameWithExtension)
+    );
+    formattedBlock = formattedBlock.replace(/{rawFilePath}/g, this.escapeBlockValue(sourcePath));
+    formattedBlock = formattedBlock.replace(/{fileName}/g, this.escapeBlockValue(fileName));
+    formattedBlock = formattedBlock.replace(
+      /{fileExtension}/g,
+      this.escapeBlockValue(fileExtension)
+    );
+    formattedBlock = formattedBlock.replace(
+      /{fullPath}/g,
+      this.escapeBlockValue(source.absolutePath)
+    );
+    formattedBlock = formattedBlock.replace(/{encoding}/g, source.encoding);
+    formattedBlock = formattedBlock.replace(/{startLine}/g, String(source.startLine));
+    formattedBlock = formattedBlock.replace(/{endLine}/g, String(source.endLine));
+    formattedBlock = formattedBlock.replace(/{lineCount}/g, String(rendered.lineCount));
+    formattedBlock = formattedBlock.replace(/{language}/g, language);
+    formattedBlock = formattedBlock.replace(/{fence}/g, getMarkdownFence(fileContent));
+
+    // Replace file content last to avoid issues with content containing placeholders
+    formattedBlock = formattedBlock.replace(
+      /{fileContent}/g,
+      this.escapeBlockContent(fileContent)
+    );
+
+    return formattedBlock;
   }
 
   /**
-   * Generate project tree structure
+   * Generate project tree structure; null when the tree type is "none"
    */
   private async generateProjectTree(
     fileNodes: FileNode[],
     primaryWorkspaceRoot?: string,
     treeType?: string
-  ): Promise<string> {
+  ): Promise<string | null> {
     if (!this.config.projectTree.enabled) {
       return "";
     }
 
     // Use provided treeType or fall back to config default
     const effectiveTreeType = treeType || this.config.projectTree.type;
+    if (effectiveTreeType === "none") {
+      return null;
+    }
 
     let filesToInclude: StructuredFilePath[];
 
     if (effectiveTreeType === "selectedFilesOnly") {
       // Use only selected files
-      const checkedFiles = FileNodeUtils.getCheckedFiles(fileNodes);
+      const checkedFiles = FileNodeUtils.getSelectedFiles(fileNodes);
       filesToInclude = checkedFiles.map((node) => ({
         origin: node.absolutePath,
         tree: node.relativePath,
@@ -390,6 +988,31 @@ export class ContextGenerationService {
     return process.cwd(); // Fallback
   }
 
+  /**
+   * Fill the project tree template
+   */
+  private renderTreeBlock(projectTree: string): string {
+    return this.config.projectTree.template
+      .replace(/{fence}/g, getMarkdownFence(projectTree))
+      .replace("{projectTree}", this.escapeBlockContent(projectTree));
+  }
+
+  /**
+   * Escape content placed into a template; Markdown templates fence it instead
+   */
+  private escapeBlockContent(text: string): string {
+    return this.config.outputPreset === "markdown"
+      ? text
+      : escapeContent(text, this.config.escaping);
+  }
+
+  /**
+   * Escape names and paths placed into XML templates, where they usually end up in attributes
+   */
+  private escapeBlockValue(text: string): string {
+    return this.config.outputPreset === "xml" ? escapeXmlValue(text, this.config.escaping) : text;
+  }
+
   /**
    * Apply wrapper template with all substitutions
    */
@@ -397,21 +1020,23 @@ export class ContextGenerationService {
     fileBlocks: string,
     githubIssues: string,
     githubPRs: string,
-    projectTree: string,
+    gitDiff: string,
+    projectTree: string | null,
     fileCount: number
   ): string {
     if (!this.config.wrapperTemplate) {
       // No wrapper - combine directly
-      const parts = [githubIssues, githubPRs, fileBlocks].filter(p => p);
+      const parts = [githubIssues, githubPRs, gitDiff, fileBlocks].filter(p => p);
       return parts.join(this.config.blockSeparator);
     }
 
     let wrapped = this.config.wrapperTemplate;
 
-    // Create tree block
-    const treeBlock = this.config.projectTree.enabled
-      ? this.config.projectTree.template.replace("{projectTree}", projectTree)
-      : "";
+    // Create tree block (null when the tree was left out)
+    const treeBlock =
+      this.config.projectTree.enabled && projectTree !== null
+        ? this.renderTreeBlock(projectTree)
+        : "";
 
     // Create GitHub issues section
     const githubIssuesSection = githubIssues ? `${githubIssues}\n` : "";
@@ -419,10 +1044,14 @@ export class ContextGenerationService {
     // Create GitHub PRs section
     const githubPRsSection = githubPRs ? `${githubPRs}\n` : "";
 
+    // Create git changes section
+    const gitDiffSection = gitDiff ? `${gitDiff}\n` : "";
+
     // Replace all placeholders
     wrapped = wrapped.replace(/{treeBlock}/g, treeBlock);
     wrapped = wrapped.replace(/{githubIssues}/g, githubIssuesSection);
     wrapped = wrapped.replace(/{githubPRs}/g, githubPRsSection);
+    wrapped = wrapped.replace(/{gitDiff}/g, gitDiffSection);
     wrapped = wrapped.replace(/{blocks}/g, fileBlocks);
     wrapped = wrapped.replace(/{timestamp}/g, new Date().toISOString());
     wrapped = wrapped.replace(/{fileCount}/g, String(fileCount));
@@ -440,6 +1069,8 @@ export class ContextGenerationService {
       prefix?: string;
       suffix?: string;
       primaryWorkspaceRoot?: string;
+      removeComments?: boolean;
+      tokenBudget?: number;
     }
   ): Promise<ContextGenerationResult> {
     try {
@@ -452,13 +1083,27 @@ export class ContextGenerationService {
         return result;
       }
 
-      await vscode.env.clipboard.writeText(result.contextString);
+      // Check for secrets before the context leaves the editor
+      const contextString = this.secretScanService
+        ? await this.secretScanService.review(
+            result.contextString,
+            fileNodes,
+            "the clipboard",
+            this.config.outputPreset === "json"
+          )
+        : result.contextString;
+      if (contextString === undefined) {
+        vscode.window.showInformationMessage("Copy to clipboard cancelled.");
+        return result;
+      }
+
+      await vscode.env.clipboard.writeText(contextString);
 
       vscode.window.showInformationMessage(
         `Success: Copied context for ${result.fileCount} files to clipboard.`
       );
 
-      return result;
+      return { ...result, contextString };
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -497,6 +1142,131 @@ export class ContextGenerationService {
     this.gitHubPRsProvider = provider;
   }
 
+  /**
+   * Set the project config service and reload whenever the config file changes
+   */
+  setProjectConfigService(service: ProjectConfigService): void {
+    this.projectConfigService = service;
+    service.onDidChange(() => this.loadConfiguration());
+    this.loadConfiguration();
+  }
+
+  /**
+   * Set the service that checks for secrets before copying to the clipboard
+   */
+  setSecretScanService(service: SecretScanService): void {
+    this.secretScanService = service;
+  }
+
+  /**
+   * Set the service that replaces binary, minified and generated files with placeholders
+   */
+  setFileSniffService(service: FileSniffService): void {
+    this.fileSniffService = service;
+  }
+
+  /**
+   * Set the service that decodes files with their configured or detected encoding
+   */
+  setFileEncodingService(service: FileEncodingService): void {
+    this.fileEncodingService = service;
+  }
+
+  /**
+   * Set the service that resolves checked symbols to line ranges
+   */
+  setSymbolSelectionService(service: SymbolSelectionService): void {
+    this.symbolSelectionService = service;
+  }
+
+  /**
+   * Set the service that decides which files are rendered as outlines
+   */
+  setRenderModeService(service: RenderModeService): void {
+    this.renderModeService = service;
+  }
+
+  /**
+   * Set the provider of the Snippets view
+   */
+  setSnippetsProvider(provider: SnippetsProvider): void {
+    this.snippetsProvider = provider;
+  }
+
+  /**
+   * Set the git service used for the local "Git Changes" source
+   */
+  setGitService(service: GitService): void {
+    this.gitService = service;
+  }
+
+  /**
+   * Set which local changes to include as a git diff (null to leave them out)
+   */
+  setGitDiffSource(source: GitDiffSource | null): void {
+    this.gitDiffSource = source;
+  }
+
+  /**
+   * Get the local changes currently included as a git diff
+   */
+  getGitDiffSource(): GitDiffSource | null {
+    return this.gitDiffSource;
+  }
+
+  /**
+   * Generate the diff block of each repository in the workspace
+   */
+  private async generateGitDiffBlocks(fileNodes: FileNode[]): Promise<string[]> {
+    if (!this.gitService || !this.gitDiffSource) {
+      return [];
+    }
+
+    const blocks: string[] = [];
+    const seenRepositories = new Set<string>();
+
+    for (const rootNode of fileNodes) {
+      if (rootNode.type !== "workspace-root") {
+        continue;
+      }
+
+      const workspaceRoot = rootNode.workspace.rootPath;
+      if (!(await this.gitService.isRepository(workspaceRoot))) {
+        continue;
+      }
+
+      try {
+        const result = await this.gitService.getDiff(workspaceRoot, this.gitDiffSource);
+        if (seenRepositories.has(result.repositoryRoot) || !result.diff.trim()) {
+          continue;
+        }
+        seenRepositories.add(result.repositoryRoot);
+
+        blocks.push(
+          renderGitDiffBlock(
+            this.config.outputPreset,
+            {
+              repository: path.basename(result.repositoryRoot),
+              source: this.gitService.describeSource(result.source),
+              base: result.resolvedRef,
+              diff: result.diff,
+            },
+            this.config.escaping
+          )
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        console.error(`Error reading git changes in ${workspaceRoot}:`, error);
+        vscode.window.showWarningMessage(
+          `Could not include git changes for ${rootNode.workspace.name}: ${errorMessage}`
+        );
+      }
+    }
+
+    return blocks;
+  }
+
   /**
    * Generate formatted blocks for selected GitHub issues
    */
@@ -518,33 +1288,27 @@ export class ContextGenerationService {
       for (const [issueNumber, details] of selectedIssues) {
         const { issue, comments } = details;
 
-        let issueBlock = `<github_issue number="${issue.number}" state="${issue.state}">
-<title>${issue.title}</title>
-<url>${issue.html_url}</url>
-<created_at>${issue.created_at}</created_at>
-<author>${issue.user.login}</author>`;
-
-        if (issue.labels.length > 0) {
-          const labelNames = issue.labels.map((l: any) => l.name).join(", ");
-          issueBlock += `\n<labels>${labelNames}</labels>`;
-        }
-
-        if (issue.body) {
-          issueBlock += `\n<body>\n${issue.body}\n</body>`;
-        }
-
-        if (comments.length > 0) {
-          issueBlock += `\n<comments>`;
-          for (const comment of comments) {
-            issueBlock += `\n<comment author="${comment.user.login}" created_at="${comment.created_at}">
-${comment.body}
-</comment>`;
-          }
-          issueBlock += `\n</comments>`;
-        }
-
-        issueBlock += `\n</github_issue>`;
-        blocks.push(issueBlock);
+        blocks.push(
+          renderIssueBlock(
+            this.config.outputPreset,
+            {
+              number: issue.number,
+              state: issue.state,
+              title: issue.title,
+              url: issue.html_url,
+              createdAt: issue.created_at,
+              author: issue.user.login,
+              labels: issue.labels.map((l: any) => l.name),
+              body: issue.body,
+              comments: comments.map((comment: any) => ({
+                author: comment.user.login,
+                createdAt: comment.created_at,
+                body: comment.body,
+              })),
+            },
+            this.config.escaping
+          )
+        );
       }
 
       return blocks;
@@ -573,8 +1337,9 @@ ${comment.body}
 
       for (const [prNumber, details] of selectedPRs) {
         const { diff } = details;
-        const prBlock = `<github_pr number="${prNumber}">\n${diff}\n</github_pr>`;
-        blocks.push(prBlock);
+        blocks.push(
+          renderPullRequestBlock(this.config.outputPreset, prNumber, diff, this.config.escaping)
+        );
       }
 
       return blocks;
@@ -1,9 +1,9 @@
-import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
 import { Workspace } from "../models/Workspace";
 import { FileNode, FileNodeFactory, FileNodeUtils } from "../models/FileNode";
 import { IgnorePatternService } from "./IgnorePatternService";
+import { walkFiles } from "../utils/fileWalker";
 
 /**
  * Service for discovering files and building file trees across multiple workspaces
@@ -43,21 +43,13 @@ export class FileDiscoveryService {
     console.log(`Discovering files for workspace: ${workspace.name}`);
 
     try {
-      // Get exclude patterns for this workspace
-      const excludePatterns =
-        this.ignorePatternService.getExcludeGlobPatterns(workspace);
-      const excludePattern =
-        excludePatterns.length > 0 ? `{${excludePatterns.join(",")}}` : null;
-
-      // Discover files using VS Code's findFiles with workspace scope
-      const fileUris = await vscode.workspace.findFiles(
-        new vscode.RelativePattern(workspace.rootPath, "**/*"),
-        excludePattern,
-        undefined
+      // Walk the workspace, letting the ignore rules prune whole directories
+      const filePaths = await walkFiles(workspace.rootPath, (absolutePath, isDirectory) =>
+        this.ignorePatternService.isPathIgnored(absolutePath, workspace, isDirectory)
       );
 
       console.log(
-        `Found ${fileUris.length} files in workspace ${workspace.name}`
+        `Found ${filePaths.length} files in workspace ${workspace.name}`
       );
 
       // Create workspace root node
@@ -68,23 +60,13 @@ export class FileDiscoveryService {
       fileNodeMap.set(workspace.rootPath, workspaceRoot);
 
       // Process each discovered file
-      for (const uri of fileUris) {
-        const absolutePath = uri.fsPath;
-
-        try {
-          const stats = await fs.promises.stat(absolutePath);
-
-          if (stats.isFile()) {
-            this.addFileToTree(
-              absolutePath,
-              workspace,
-              fileNodeMap,
-              preserveCheckedPaths
-            );
-          }
-        } catch (error) {
-          console.warn(`Error processing file ${absolutePath}:`, error);
-        }
+      for (const absolutePath of filePaths) {
+        this.addFileToTree(
+          absolutePath,
+          workspace,
+          fileNodeMap,
+          preserveCheckedPaths
+        );
       }
 
       // Build the tree structure from the flat map
@@ -367,9 +349,9 @@ export class FileDiscoveryService {
     // This handles cases where a directory was checked (all children should be checked)
     this.propagateCheckedStateToChildren(rootNode);
 
-    // Then, update parent states based on children
+    // Then, update parent and partial states based on children
     // This handles cases where individual files were checked (parents should reflect this)
-    this.updateParentStatesFromChildren(rootNode);
+    FileNodeUtils.recomputeCheckedStates(rootNode);
   }
 
   /**
@@ -393,18 +375,4 @@ export class FileDiscoveryService {
     }
   }
 
-  /**
-   * Update parent checked states based on children using existing utility
-   */
-  private updateParentStatesFromChildren(node: FileNode): void {
-    if (node.children) {
-      for (const child of node.children) {
-        this.updateParentStatesFromChildren(child);
-        // Use the existing utility to update parent state
-        if (child.isChecked) {
-          FileNodeUtils.updateParentCheckedState(child);
-        }
-      }
-    }
-  }
 }
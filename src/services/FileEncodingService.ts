@@ -0,0 +1,121 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import ignore from "ignore";
+import { decodeText, DecodedText, toWhatwgEncoding } from "../utils/encoding";
+
+/**
+ * Service that reads files with the encoding VS Code would use
+ * - `files.encoding` is resolved per language, like language-scoped settings in the editor
+ * - Files without a configured encoding are detected (BOM, UTF-8, Shift-JIS, Windows-1252)
+ */
+export class FileEncodingService implements vscode.Disposable {
+  /** Language id by file extension (".ts") and exact file name ("Makefile") */
+  private languageByExtension?: Map<string, string>;
+  private languageByFileName?: Map<string, string>;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.disposables.push(
+      vscode.extensions.onDidChange(() => {
+        this.languageByExtension = undefined;
+        this.languageByFileName = undefined;
+      })
+    );
+  }
+
+  /**
+   * Read a file and decode it to a string
+   */
+  async readTextFile(absolutePath: string): Promise<DecodedText> {
+    const buffer = await fs.promises.readFile(absolutePath);
+    return decodeText(buffer, this.getConfiguredEncoding(absolutePath));
+  }
+
+  /**
+   * Encoding set in `files.encoding` for a file's language, as a WHATWG label
+   * Undefined when the file should be detected (UTF-8 default or an encoding the runtime lacks)
+   */
+  getConfiguredEncoding(absolutePath: string): string | undefined {
+    const uri = vscode.Uri.file(absolutePath);
+    const languageId = this.getLanguageId(absolutePath);
+    const configured = vscode.workspace
+      .getConfiguration("files", languageId ? { uri, languageId } : uri)
+      .get<string>("encoding", "utf8");
+
+    const encoding = toWhatwgEncoding(configured);
+    return encoding === "utf-8" ? undefined : encoding;
+  }
+
+  /**
+   * Language of a file from `files.associations` and the languages contributed by extensions
+   */
+  private getLanguageId(absolutePath: string): string | undefined {
+    const uri = vscode.Uri.file(absolutePath);
+    const fileName = path.basename(absolutePath);
+
+    const associations =
+      vscode.workspace
+        .getConfiguration("files", uri)
+        .get<Record<string, string>>("associations") ?? {};
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
+    const relativePath = workspaceFolder
+      ? path.relative(workspaceFolder.uri.fsPath, absolutePath).replace(/\\/g, "/")
+      : fileName;
+    for (const [pattern, languageId] of Object.entries(associations)) {
+      // Patterns without a slash match the file name, like in VS Code
+      const target = pattern.includes("/") ? relativePath : fileName;
+      if (target && ignore().add(pattern).ignores(target)) {
+        return languageId;
+      }
+    }
+
+    this.loadContributedLanguages();
+    const lowerName = fileName.toLowerCase();
+    const byFileName = this.languageByFileName!.get(lowerName);
+    if (byFileName) {
+      return byFileName;
+    }
+
+    // Longest extension first so ".d.ts" wins over ".ts"
+    for (let dot = lowerName.indexOf("."); dot !== -1; dot = lowerName.indexOf(".", dot + 1)) {
+      const languageId = this.languageByExtension!.get(lowerName.slice(dot));
+      if (languageId) {
+        return languageId;
+      }
+    }
+    return undefined;
+  }
+
+  private loadContributedLanguages(): void {
+    if (this.languageByExtension && this.languageByFileName) {
+      return;
+    }
+
+    this.languageByExtension = new Map();
+    this.languageByFileName = new Map();
+    for (const extension of vscode.extensions.all) {
+      const languages: Array<{ id?: string; extensions?: string[]; filenames?: string[] }> =
+        extension.packageJSON?.contributes?.languages ?? [];
+      for (const language of languages) {
+        if (!language.id) {
+          continue;
+        }
+        for (const fileExtension of language.extensions ?? []) {
+          if (!this.languageByExtension.has(fileExtension.toLowerCase())) {
+            this.languageByExtension.set(fileExtension.toLowerCase(), language.id);
+          }
+        }
+        for (const fileName of language.filenames ?? []) {
+          if (!this.languageByFileName.has(fileName.toLowerCase())) {
+            this.languageByFileName.set(fileName.toLowerCase(), language.id);
+          }
+        }
+      }
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+}
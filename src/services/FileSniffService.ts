@@ -0,0 +1,129 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import {
+  FileSniffResult,
+  formatSniffPlaceholder,
+  sniffContent,
+  SNIFF_SAMPLE_BYTES,
+} from "../utils/fileSniffer";
+
+/**
+ * A sniff result, valid while the file's mtime and size are unchanged
+ */
+interface SniffCacheEntry {
+  mtimeMs: number;
+  size: number;
+  result: FileSniffResult;
+}
+
+const FORCED_PATHS_KEY = "promptTower.forcedFullContent";
+
+/**
+ * Service that recognizes binary, minified and generated files
+ * - Such files are replaced by a one-line placeholder in the context unless forced
+ * - Forced paths are remembered per workspace
+ */
+export class FileSniffService implements vscode.Disposable {
+  private cache = new Map<string, SniffCacheEntry>();
+  private forcedPaths: Set<string>;
+  private configurationListener: vscode.Disposable;
+  private _onDidChange = new vscode.EventEmitter<void>();
+
+  /** Fires when files need to be re-rendered (forced paths or settings changed) */
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.forcedPaths = new Set(context.workspaceState.get<string[]>(FORCED_PATHS_KEY, []));
+    this.configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("promptTower.contentSniffing")) {
+        this._onDidChange.fire();
+      }
+    });
+  }
+
+  /**
+   * Whether content sniffing is switched on (`promptTower.contentSniffing.enabled`)
+   */
+  isEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration("promptTower")
+      .get<boolean>("contentSniffing.enabled", true);
+  }
+
+  /**
+   * Classify a file by reading its first bytes; results are cached until the file changes
+   */
+  async sniff(
+    absolutePath: string,
+    stats?: { mtimeMs: number; size: number }
+  ): Promise<FileSniffResult> {
+    stats ??= await fs.promises.stat(absolutePath);
+
+    const cached = this.cache.get(absolutePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+      return cached.result;
+    }
+
+    const sample = Buffer.alloc(Math.min(stats.size, SNIFF_SAMPLE_BYTES));
+    const handle = await fs.promises.open(absolutePath, "r");
+    try {
+      await handle.read(sample, 0, sample.length, 0);
+    } finally {
+      await handle.close();
+    }
+
+    const result = sniffContent(sample);
+    this.cache.set(absolutePath, { mtimeMs: stats.mtimeMs, size: stats.size, result });
+    return result;
+  }
+
+  /**
+   * Last known classification of a file, without touching the disk
+   */
+  getCached(absolutePath: string): FileSniffResult | undefined {
+    return this.cache.get(absolutePath)?.result;
+  }
+
+  /**
+   * Placeholder to use instead of the file's content, or undefined to include the content
+   */
+  async getPlaceholder(
+    absolutePath: string,
+    stats?: { mtimeMs: number; size: number }
+  ): Promise<string | undefined> {
+    if (!this.isEnabled() || this.isForced(absolutePath)) {
+      return undefined;
+    }
+
+    stats ??= await fs.promises.stat(absolutePath);
+    const result = await this.sniff(absolutePath, stats);
+    return result.kind === "text" ? undefined : formatSniffPlaceholder(result, stats.size);
+  }
+
+  /**
+   * Whether a file's full content is included even though it is not plain source
+   */
+  isForced(absolutePath: string): boolean {
+    return this.forcedPaths.has(absolutePath);
+  }
+
+  /**
+   * Include (or stop including) the full content of files
+   */
+  async setForced(absolutePaths: string[], forced: boolean): Promise<void> {
+    for (const absolutePath of absolutePaths) {
+      if (forced) {
+        this.forcedPaths.add(absolutePath);
+      } else {
+        this.forcedPaths.delete(absolutePath);
+      }
+    }
+    await this.context.workspaceState.update(FORCED_PATHS_KEY, Array.from(this.forcedPaths));
+    this._onDidChange.fire();
+  }
+
+  dispose(): void {
+    this.configurationListener.dispose();
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,306 @@
+import { execFile } from "child_process";
+import * as path from "path";
+import { promisify } from "util";
+import { GitHubConfigManager } from "../utils/githubConfig";
+
+const execFileAsync = promisify(execFile);
+
+/** Large diffs (lockfiles, generated code) easily exceed the 1MB default */
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Which changes to diff
+ * - unstaged: working tree against the index
+ * - staged: index against HEAD
+ * - base: working tree against the merge base with a branch
+ * - commit: working tree against a commit or other ref
+ * Modes that read the working tree also include untracked (not ignored) files as new files
+ */
+export type GitDiffMode = "unstaged" | "staged" | "base" | "commit";
+
+/**
+ * A local diff selected as a context source
+ */
+export interface GitDiffSource {
+  mode: GitDiffMode;
+
+  /** Branch (base mode) or commit (commit mode); base mode defaults to the repository's default branch */
+  ref?: string;
+}
+
+/**
+ * Which files count as changed
+ * - status: modified, added or untracked files in `git status`
+ * - branchPoint: everything changed since the branch was forked from a base branch, plus untracked files
+ * - lastCommits: files touched by the last N commits
+ */
+export type ChangedFilesScope =
+  | { mode: "status" }
+  | { mode: "branchPoint"; branch?: string }
+  | { mode: "lastCommits"; count: number };
+
+/** Hash of the empty tree, for diffing against the root of history */
+const EMPTY_TREE_HASH = "4b825dc642cb6eb9a060e54bf8d69288fbee4904";
+
+/**
+ * Diff of one repository
+ */
+export interface GitDiffResult {
+  repositoryRoot: string;
+
+  /** Source with the base branch filled in */
+  source: GitDiffSource;
+
+  /** Commit actually compared against (e.g. the merge base for base mode) */
+  resolvedRef?: string;
+  diff: string;
+}
+
+/**
+ * Service for reading local changes with the git CLI
+ */
+export class GitService {
+  /**
+   * Whether a folder is inside a git work tree
+   */
+  async isRepository(folder: string): Promise<boolean> {
+    try {
+      const output = await this.git(folder, ["rev-parse", "--is-inside-work-tree"]);
+      return output.trim() === "true";
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Top-level directory of the repository containing a folder
+   */
+  async getRepositoryRoot(folder: string): Promise<string> {
+    return (await this.git(folder, ["rev-parse", "--show-toplevel"])).trim();
+  }
+
+  /**
+   * Default branch of the repository (origin/HEAD, falling back to "main")
+   */
+  getDefaultBranch(folder: string): string {
+    return GitHubConfigManager.getDefaultBranch(folder);
+  }
+
+  /**
+   * Diff the changes in the repository containing a folder
+   */
+  async getDiff(folder: string, source: GitDiffSource): Promise<GitDiffResult> {
+    const repositoryRoot = await this.getRepositoryRoot(folder);
+    if (source.mode === "base" && !source.ref) {
+      source = { ...source, ref: this.getDefaultBranch(repositoryRoot) };
+    }
+    const resolvedRef = await this.resolveComparisonRef(repositoryRoot, source);
+
+    const args = ["diff", "--no-color", "--no-ext-diff"];
+    if (source.mode === "staged") {
+      args.push("--cached");
+    } else if (resolvedRef) {
+      args.push(resolvedRef);
+    }
+    args.push("--");
+
+    let diff = await this.git(repositoryRoot, args);
+    if (source.mode !== "staged") {
+      diff += await this.diffUntrackedFiles(repositoryRoot);
+    }
+    return { repositoryRoot, source, resolvedRef, diff };
+  }
+
+  /**
+   * Absolute paths of existing files changed in the repository containing a folder
+   */
+  async getChangedFiles(folder: string, scope: ChangedFilesScope): Promise<string[]> {
+    const repositoryRoot = await this.getRepositoryRoot(folder);
+    let relativePaths: string[];
+
+    switch (scope.mode) {
+      case "status":
+        relativePaths = this.parseStatus(
+          await this.git(repositoryRoot, ["status", "--porcelain", "-z", "--untracked-files=all"])
+        );
+        break;
+
+      case "branchPoint": {
+        const mergeBase = await this.resolveComparisonRef(repositoryRoot, {
+          mode: "base",
+          ref: scope.branch,
+        });
+        relativePaths = [
+          ...this.splitNul(
+            await this.git(repositoryRoot, [
+              "diff",
+              "--name-only",
+              "--diff-filter=d",
+              "-z",
+              mergeBase!,
+              "--",
+            ])
+          ),
+          ...(await this.getUntrackedFiles(repositoryRoot)),
+        ];
+        break;
+      }
+
+      case "lastCommits": {
+        // Diff against the empty tree when history is shorter than N commits
+        const commitCount = Number(
+          (await this.git(repositoryRoot, ["rev-list", "--count", "HEAD"])).trim()
+        );
+        const base = commitCount > scope.count ? `HEAD~${scope.count}` : EMPTY_TREE_HASH;
+        relativePaths = this.splitNul(
+          await this.git(repositoryRoot, [
+            "diff",
+            "--name-only",
+            "--diff-filter=d",
+            "-z",
+            base,
+            "HEAD",
+            "--",
+          ])
+        );
+        break;
+      }
+    }
+
+    return Array.from(new Set(relativePaths)).map((relativePath) =>
+      path.join(repositoryRoot, relativePath)
+    );
+  }
+
+  /**
+   * Human readable description of a diff source
+   */
+  describeSource(source: GitDiffSource): string {
+    switch (source.mode) {
+      case "unstaged":
+        return "Unstaged changes";
+      case "staged":
+        return "Staged changes";
+      case "base":
+        return `Changes against ${source.ref || "the default branch"}`;
+      case "commit":
+        return `Changes since ${source.ref}`;
+    }
+  }
+
+  /**
+   * Commit the working tree is compared against, or undefined for unstaged/staged diffs
+   */
+  private async resolveComparisonRef(
+    repositoryRoot: string,
+    source: GitDiffSource
+  ): Promise<string | undefined> {
+    if (source.mode === "commit") {
+      if (!source.ref) {
+        throw new Error("No commit given to diff against.");
+      }
+      return this.verifyRef(repositoryRoot, source.ref);
+    }
+
+    if (source.mode !== "base") {
+      return undefined;
+    }
+
+    // Prefer the local branch, then the remote-tracking branch
+    const branch = source.ref || this.getDefaultBranch(repositoryRoot);
+    let baseRef: string | undefined;
+    for (const candidate of [branch, `origin/${branch}`]) {
+      try {
+        baseRef = await this.verifyRef(repositoryRoot, candidate);
+        break;
+      } catch {
+        // Try the next candidate
+      }
+    }
+    if (!baseRef) {
+      throw new Error(`Base branch "${branch}" was not found.`);
+    }
+
+    // Only show what changed on this branch, like a pull request would
+    return (await this.git(repositoryRoot, ["merge-base", baseRef, "HEAD"])).trim();
+  }
+
+  /**
+   * Diffs adding each untracked file; `git diff` only covers tracked files
+   */
+  private async diffUntrackedFiles(repositoryRoot: string): Promise<string> {
+    let diff = "";
+    for (const relativePath of await this.getUntrackedFiles(repositoryRoot)) {
+      // --no-index exits with 1 when the files differ, which they always do here
+      diff += await this.git(
+        repositoryRoot,
+        ["diff", "--no-color", "--no-ext-diff", "--no-index", "--", "/dev/null", relativePath],
+        [1]
+      );
+    }
+    return diff;
+  }
+
+  private async getUntrackedFiles(repositoryRoot: string): Promise<string[]> {
+    return this.splitNul(
+      await this.git(repositoryRoot, ["ls-files", "--others", "--exclude-standard", "-z"])
+    );
+  }
+
+  /**
+   * Parse `git status --porcelain -z`, skipping deleted files
+   */
+  private parseStatus(output: string): string[] {
+    const entries = this.splitNul(output);
+    const paths: string[] = [];
+
+    for (let index = 0; index < entries.length; index++) {
+      const status = entries[index].slice(0, 2);
+      const filePath = entries[index].slice(3);
+
+      // Renames and copies are followed by their original path
+      if (status.includes("R") || status.includes("C")) {
+        index++;
+      }
+      if (!status.includes("D")) {
+        paths.push(filePath);
+      }
+    }
+
+    return paths;
+  }
+
+  private splitNul(output: string): string[] {
+    return output.split("\0").filter((entry) => entry.length > 0);
+  }
+
+  private async verifyRef(repositoryRoot: string, ref: string): Promise<string> {
+    try {
+      return (
+        await this.git(repositoryRoot, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])
+      ).trim();
+    } catch {
+      throw new Error(`Unknown git revision "${ref}".`);
+    }
+  }
+
+  /**
+   * Run git and return its output; `allowedExitCodes` lists non-zero codes that are not failures
+   */
+  private async git(cwd: string, args: string[], allowedExitCodes: number[] = []): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync("git", args, {
+        cwd,
+        encoding: "utf8",
+        maxBuffer: MAX_GIT_OUTPUT_BYTES,
+      });
+      return stdout;
+    } catch (error) {
+      const { code, stdout } = error as { code?: unknown; stdout?: string };
+      if (typeof code === "number" && allowedExitCodes.includes(code) && stdout !== undefined) {
+        return stdout;
+      }
+      throw error;
+    }
+  }
+}
@@ -1,17 +1,109 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import * as fs from "fs";
+import * as os from "os";
+import { execFileSync } from "child_process";
 import ignore from "ignore";
 import { Workspace, IgnorePatterns } from "../models/Workspace";
-import { ALWAYS_IGNORE } from "../utils/alwaysIgnore";
+import { ALWAYS_IGNORE_CATEGORIES, AlwaysIgnoreCategory } from "../utils/alwaysIgnore";
+
+/** Ignore files read in every directory, in increasing precedence */
+const DIRECTORY_IGNORE_FILES = [".gitignore", ".towerignore"];
+
+/** Allow-list in the workspace root; matching paths are included even when ignored */
+const INCLUDE_FILE = ".towerinclude";
+
+/** Wait for bursts of ignore file changes (e.g. a branch switch) before reloading */
+const IGNORE_CHANGE_DEBOUNCE_MS = 300;
+
+/**
+ * Where an ignore rule comes from
+ * - builtin: `ALWAYS_IGNORE` (minus disabled categories and patterns)
+ * - gitignore / towerignore: a `.gitignore` or `.towerignore` in the workspace folder
+ * - gitExclude: `.git/info/exclude`, `core.excludesFile` or a `.gitignore` above the workspace folder
+ */
+export type IgnoreSourceKind = "builtin" | "gitignore" | "towerignore" | "gitExclude";
+
+/**
+ * An ignore rule as written in its source
+ */
+export interface IgnoreRuleSource {
+  pattern: string;
+  kind: IgnoreSourceKind;
+
+  /** File containing the rule (not set for built-in rules) */
+  filePath?: string;
+
+  /** Category of a built-in rule */
+  category?: string;
+
+  /** 1-based line of the rule in that file */
+  line?: number;
+}
+
+/**
+ * Why a path is or is not ignored
+ */
+export interface IgnoreExplanation {
+  ignored: boolean;
+
+  /** Rule that ignored the path */
+  rule?: IgnoreRuleSource;
+
+  /** Ignored parent directory (relative to the workspace root) the path is inside, if any */
+  ignoredDirectory?: string;
+}
+
+/**
+ * Ignore rules of a workspace, loaded lazily per directory
+ */
+interface WorkspaceIgnoreState {
+  /** All rules, rebased onto the workspace root */
+  instance: ignore.Ignore;
+
+  /** Sources of the rules with their rebased patterns, indexed by the mark they were added with */
+  rules: Array<{ source: IgnoreRuleSource; workspacePattern: string }>;
+
+  /** Directories whose ignore files have been added to the instance */
+  loadedDirectories: Set<string>;
+
+  /** `.towerinclude` rules */
+  include: ignore.Ignore;
+
+  /** Literal leading paths of the `.towerinclude` rules; directories leading to them are walked even when ignored */
+  includePrefixes: string[];
+}
+
+/**
+ * Git locations that affect ignore rules of a workspace
+ */
+interface GitIgnoreLocations {
+  /** Top level of the repository containing the workspace */
+  topLevel?: string;
+
+  /** `.git/info/exclude` of that repository */
+  infoExclude?: string;
+
+  /** The user's `core.excludesFile` (or git's default location for it) */
+  excludesFile?: string;
+}
 
 /**
  * Service for managing ignore patterns across multiple workspaces
+ * - `.gitignore` and `.towerignore` are honored at any depth; the nearest file wins,
+ *   and `.towerignore` wins over `.gitignore` in the same directory
+ * - `core.excludesFile` and `.git/info/exclude` apply below every `.gitignore`
  */
 export class IgnorePatternService {
-  private ignoreInstanceCache = new Map<string, ignore.Ignore>();
+  private stateCache = new Map<string, WorkspaceIgnoreState>();
   private patternCache = new Map<string, IgnorePatterns>();
+  private gitLocationCache = new Map<string, GitIgnoreLocations>();
   private fileWatchers = new Map<string, vscode.FileSystemWatcher[]>();
+  private changeTimers = new Map<string, NodeJS.Timeout>();
+  private _onDidChangeIgnorePatterns = new vscode.EventEmitter<Workspace>();
+
+  /** Fires after an ignore file of a workspace was created, changed or deleted */
+  readonly onDidChangeIgnorePatterns = this._onDidChangeIgnorePatterns.event;
   
   constructor(private context: vscode.ExtensionContext) {
     this.setupConfigurationWatcher();
@@ -31,29 +123,131 @@ export class IgnorePatternService {
   }
   
   /**
-   * Get configured ignore instance for a workspace
+   * Check if a path should be ignored in a specific workspace
+   * Pass `isDirectory` for directories so patterns like `build/` match the directory itself
    */
-  getIgnoreInstance(workspace: Workspace): ignore.Ignore {
-    if (this.ignoreInstanceCache.has(workspace.id)) {
-      return this.ignoreInstanceCache.get(workspace.id)!;
+  isPathIgnored(absolutePath: string, workspace: Workspace, isDirectory = false): boolean {
+    const relativePath = path.relative(workspace.rootPath, absolutePath);
+    if (!relativePath || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      return false;
     }
     
-    const instance = this.createIgnoreInstance(workspace);
-    this.ignoreInstanceCache.set(workspace.id, instance);
-    return instance;
+    // Normalize path separators for cross-platform compatibility
+    const normalizedPath = relativePath.replace(/\\/g, '/');
+    
+    const state = this.getState(workspace);
+    if (this.isIncluded(state, normalizedPath, isDirectory)) {
+      return false;
+    }
+    this.loadDirectories(state, workspace, path.posix.dirname(normalizedPath));
+    return state.instance.ignores(isDirectory ? `${normalizedPath}/` : normalizedPath);
   }
   
   /**
-   * Check if a path should be ignored in a specific workspace
+   * Built-in ignore categories, with the patterns left after `promptTower.builtinIgnore.disabledPatterns`
+   * and whether the category is switched on
    */
-  isPathIgnored(absolutePath: string, workspace: Workspace): boolean {
-    const ignoreInstance = this.getIgnoreInstance(workspace);
+  getBuiltinCategories(): Array<AlwaysIgnoreCategory & { active: boolean }> {
+    const config = vscode.workspace.getConfiguration("promptTower");
+    const disabledCategories = config.get<string[]>("builtinIgnore.disabledCategories", []);
+    const disabledPatterns = new Set(config.get<string[]>("builtinIgnore.disabledPatterns", []));
+    
+    return ALWAYS_IGNORE_CATEGORIES.map((category) => ({
+      ...category,
+      patterns: category.patterns.filter((pattern) => !disabledPatterns.has(pattern)),
+      active: !disabledCategories.includes(category.id),
+    }));
+  }
+  
+  /**
+   * Find the rule that decides whether a path is ignored
+   * A path inside an ignored directory is reported with the rule that ignored that directory
+   */
+  explainPath(absolutePath: string, workspace: Workspace, isDirectory = false): IgnoreExplanation {
     const relativePath = path.relative(workspace.rootPath, absolutePath);
+    if (!relativePath || relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+      return { ignored: false };
+    }
     
-    // Normalize path separators for cross-platform compatibility
     const normalizedPath = relativePath.replace(/\\/g, '/');
+    const state = this.getState(workspace);
+    if (this.isIncluded(state, normalizedPath, isDirectory)) {
+      return { ignored: false };
+    }
+    this.loadDirectories(state, workspace, path.posix.dirname(normalizedPath));
+    
+    // Git cannot re-include anything inside an excluded directory, so the topmost one decides
+    const segments = normalizedPath.split("/");
+    for (let depth = 1; depth < segments.length; depth++) {
+      const directory = segments.slice(0, depth).join("/");
+      if (state.instance.ignores(`${directory}/`)) {
+        return {
+          ignored: true,
+          rule: this.getDecidingRule(state, `${directory}/`),
+          ignoredDirectory: directory,
+        };
+      }
+    }
     
-    return ignoreInstance.ignores(normalizedPath);
+    const testPath = isDirectory ? `${normalizedPath}/` : normalizedPath;
+    if (!state.instance.ignores(testPath)) {
+      return { ignored: false };
+    }
+    return { ignored: true, rule: this.getDecidingRule(state, testPath) };
+  }
+  
+  /**
+   * Re-include a path by appending negations to a `.towerignore`
+   * Each negation goes into the `.towerignore` next to the rule it overrides, since rules in
+   * deeper ignore files take precedence. Ignored parent directories are re-included with their
+   * other contents still ignored. Returns the files written and whether the path is now included.
+   */
+  unignorePath(
+    absolutePath: string,
+    workspace: Workspace,
+    isDirectory = false
+  ): { writtenFiles: string[]; included: boolean } {
+    const writtenFiles = new Set<string>();
+    const normalizedPath = path.relative(workspace.rootPath, absolutePath).replace(/\\/g, '/');
+    
+    // Every pass clears one ignored ancestor or the path itself
+    const maxPasses = 2 * normalizedPath.split("/").length + 2;
+    let explanation = this.explainPath(absolutePath, workspace, isDirectory);
+    
+    for (let pass = 0; explanation.ignored && pass < maxPasses; pass++) {
+      const rule = explanation.rule;
+      const ruleDirectory =
+        rule?.filePath && (rule.kind === "gitignore" || rule.kind === "towerignore")
+          ? path.dirname(rule.filePath)
+          : workspace.rootPath;
+      const towerignorePath = path.join(ruleDirectory, ".towerignore");
+      const toRelative = (target: string) =>
+        escapePath(path.relative(ruleDirectory, path.join(workspace.rootPath, target)).replace(/\\/g, '/'));
+      
+      const lines = explanation.ignoredDirectory
+        ? [`!/${toRelative(explanation.ignoredDirectory)}/`, `/${toRelative(explanation.ignoredDirectory)}/*`]
+        : [`!/${toRelative(normalizedPath)}${isDirectory ? "/" : ""}`];
+      
+      try {
+        const existing = fs.existsSync(towerignorePath)
+          ? fs.readFileSync(towerignorePath, "utf-8")
+          : "";
+        const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+        fs.writeFileSync(towerignorePath, `${existing}${separator}${lines.join("\n")}\n`);
+      } catch (error) {
+        console.error(`Error writing ${towerignorePath}:`, error);
+        break;
+      }
+      writtenFiles.add(towerignorePath);
+      
+      this.invalidateCache(workspace);
+      explanation = this.explainPath(absolutePath, workspace, isDirectory);
+    }
+    
+    if (writtenFiles.size > 0) {
+      this.scheduleChangeEvent(workspace);
+    }
+    return { writtenFiles: [...writtenFiles], included: !explanation.ignored };
   }
   
   /**
@@ -67,33 +261,49 @@ export class IgnorePatternService {
     
     const watchers: vscode.FileSystemWatcher[] = [];
     
-    // Watch .gitignore
-    const gitignoreWatcher = vscode.workspace.createFileSystemWatcher(
-      new vscode.RelativePattern(workspace.rootPath, ".gitignore")
+    // Watch .gitignore and .towerignore at any depth
+    watchers.push(
+      vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(
+          workspace.rootPath,
+          `**/{${DIRECTORY_IGNORE_FILES.join(",")}}`
+        )
+      )
     );
     
-    // Watch .towerignore
-    const towerignoreWatcher = vscode.workspace.createFileSystemWatcher(
-      new vscode.RelativePattern(workspace.rootPath, ".towerignore")
+    // Watch the allow-list in the workspace root
+    watchers.push(
+      vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(workspace.rootPath, INCLUDE_FILE)
+      )
     );
     
+    // Watch ignore files outside the workspace folder
+    for (const filePath of this.getExternalIgnoreFiles(workspace)) {
+      watchers.push(
+        vscode.workspace.createFileSystemWatcher(
+          new vscode.RelativePattern(path.dirname(filePath), path.basename(filePath))
+        )
+      );
+    }
+    
     // Common handler for all ignore file changes
-    const handleIgnoreFileChange = (fileName: string) => {
-      console.log(`Ignore file changed in workspace ${workspace.name}: ${fileName}`);
+    const handleIgnoreFileChange = (uri: vscode.Uri) => {
+      // Ignore files inside ignored directories (e.g. node_modules during an install) have no effect
+      if (this.isPathIgnored(path.dirname(uri.fsPath), workspace, true)) {
+        return;
+      }
+      console.log(`Ignore file changed in workspace ${workspace.name}: ${uri.fsPath}`);
       this.invalidateCache(workspace);
+      this.scheduleChangeEvent(workspace);
     };
     
-    // Setup gitignore watchers
-    gitignoreWatcher.onDidCreate(() => handleIgnoreFileChange('.gitignore'));
-    gitignoreWatcher.onDidChange(() => handleIgnoreFileChange('.gitignore'));
-    gitignoreWatcher.onDidDelete(() => handleIgnoreFileChange('.gitignore'));
-    
-    // Setup towerignore watchers
-    towerignoreWatcher.onDidCreate(() => handleIgnoreFileChange('.towerignore'));
-    towerignoreWatcher.onDidChange(() => handleIgnoreFileChange('.towerignore'));
-    towerignoreWatcher.onDidDelete(() => handleIgnoreFileChange('.towerignore'));
+    for (const watcher of watchers) {
+      watcher.onDidCreate(handleIgnoreFileChange);
+      watcher.onDidChange(handleIgnoreFileChange);
+      watcher.onDidDelete(handleIgnoreFileChange);
+    }
     
-    watchers.push(gitignoreWatcher, towerignoreWatcher);
     this.fileWatchers.set(workspace.id, watchers);
     
     // Add to context subscriptions for proper disposal
@@ -101,44 +311,192 @@ export class IgnorePatternService {
   }
   
   /**
-   * Load ignore patterns from all sources for a workspace
+   * Load ignore patterns from all workspace-wide sources (nested ignore files are loaded lazily)
    */
   private loadIgnorePatterns(workspace: Workspace): IgnorePatterns {
+    const toPatterns = (rules: IgnoreRuleSource[]) => rules.map((rule) => rule.pattern);
     return {
-      gitignore: this.loadGitIgnorePatterns(workspace),
-      towerignore: this.loadTowerIgnorePatterns(workspace),
+      gitignore: toPatterns(this.loadGitIgnorePatterns(workspace)),
+      towerignore: toPatterns(this.loadTowerIgnorePatterns(workspace)),
+      gitExclude: this.loadGitExcludeRules(workspace).map(({ pattern }) => pattern),
       manual: [], // No longer using JSON config
-      builtin: ALWAYS_IGNORE
+      builtin: this.getBuiltinCategories()
+        .filter((category) => category.active)
+        .flatMap((category) => category.patterns),
+      towerinclude: toPatterns(
+        this.loadIgnoreFile(path.join(workspace.rootPath, INCLUDE_FILE), "towerignore")
+      ),
     };
   }
   
   /**
    * Load .gitignore patterns for a workspace
    */
-  private loadGitIgnorePatterns(workspace: Workspace): string[] {
-    const config = vscode.workspace.getConfiguration("promptTower");
-    const useGitIgnore = config.get<boolean>("useGitignore", true);
-    
-    if (!useGitIgnore) {
+  private loadGitIgnorePatterns(workspace: Workspace): IgnoreRuleSource[] {
+    if (!this.isGitignoreEnabled()) {
       return [];
     }
     
     const gitignorePath = path.join(workspace.rootPath, ".gitignore");
-    return this.loadIgnoreFile(gitignorePath);
+    return this.loadIgnoreFile(gitignorePath, "gitignore");
+  }
+  
+  /**
+   * Load `core.excludesFile`, `.git/info/exclude` and `.gitignore` files between the
+   * repository root and the workspace folder, with each pattern narrowed to the workspace folder
+   */
+  private loadGitExcludeRules(
+    workspace: Workspace
+  ): Array<{ rule: IgnoreRuleSource; pattern: string }> {
+    if (!this.isGitignoreEnabled()) {
+      return [];
+    }
+    
+    const locations = this.getGitLocations(workspace);
+    const toPrefix = (directory: string) =>
+      path.relative(directory, workspace.rootPath).replace(/\\/g, "/");
+    
+    // Repository-wide files are relative to the repository root
+    const repositoryPrefix = toPrefix(locations.topLevel ?? workspace.rootPath);
+    const sources: Array<[string, string]> = [];
+    for (const filePath of [locations.excludesFile, locations.infoExclude]) {
+      if (filePath) {
+        sources.push([filePath, repositoryPrefix]);
+      }
+    }
+    for (const filePath of this.getAncestorGitignoreFiles(workspace)) {
+      sources.push([filePath, toPrefix(path.dirname(filePath))]);
+    }
+    
+    const rules: Array<{ rule: IgnoreRuleSource; pattern: string }> = [];
+    for (const [filePath, workspacePrefix] of sources) {
+      for (const rule of this.loadIgnoreFile(filePath, "gitExclude")) {
+        const pattern = narrowPattern(rule.pattern, workspacePrefix);
+        if (pattern !== undefined) {
+          rules.push({ rule, pattern });
+        }
+      }
+    }
+    return rules;
+  }
+  
+  /**
+   * `.gitignore` files between the repository root and the workspace folder, from the top down
+   */
+  private getAncestorGitignoreFiles(workspace: Workspace): string[] {
+    const topLevel = this.getGitLocations(workspace).topLevel;
+    if (!topLevel || !isInside(workspace.rootPath, topLevel)) {
+      return [];
+    }
+    
+    const files: string[] = [];
+    for (
+      let directory = workspace.rootPath;
+      directory !== topLevel && directory !== path.dirname(directory);
+    ) {
+      directory = path.dirname(directory);
+      files.unshift(path.join(directory, ".gitignore"));
+    }
+    return files;
+  }
+  
+  /**
+   * Ignore files outside the workspace folder that affect it
+   */
+  private getExternalIgnoreFiles(workspace: Workspace): string[] {
+    const locations = this.getGitLocations(workspace);
+    return [
+      locations.excludesFile,
+      locations.infoExclude,
+      ...this.getAncestorGitignoreFiles(workspace),
+    ].filter((filePath): filePath is string => !!filePath);
+  }
+  
+  /**
+   * Find the repository, its info/exclude file and the global excludes file with the git CLI
+   */
+  private getGitLocations(workspace: Workspace): GitIgnoreLocations {
+    const cached = this.gitLocationCache.get(workspace.id);
+    if (cached) {
+      return cached;
+    }
+    
+    const runGit = (args: string[]): string | undefined => {
+      try {
+        return execFileSync("git", args, {
+          cwd: workspace.rootPath,
+          encoding: "utf8",
+          timeout: 5000,
+          stdio: ["ignore", "pipe", "ignore"],
+        }).trim();
+      } catch {
+        return undefined; // Not a repository, setting not set or git not installed
+      }
+    };
+    
+    const locations: GitIgnoreLocations = {};
+    const [topLevel, commonDir] = (
+      runGit(["rev-parse", "--show-toplevel", "--git-common-dir"]) ?? ""
+    ).split(/\r?\n/);
+    if (topLevel && commonDir) {
+      // Compare against the workspace path as VS Code reports it (git resolves symlinks)
+      locations.topLevel = this.toWorkspacePath(workspace.rootPath, path.resolve(topLevel));
+      locations.infoExclude = path.join(
+        path.resolve(workspace.rootPath, commonDir),
+        "info",
+        "exclude"
+      );
+    }
+    
+    const excludesFile = runGit(["config", "--path", "--get", "core.excludesFile"]);
+    locations.excludesFile = excludesFile
+      ? path.resolve(workspace.rootPath, excludesFile)
+      : path.join(
+          process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"),
+          "git",
+          "ignore"
+        );
+    
+    this.gitLocationCache.set(workspace.id, locations);
+    return locations;
+  }
+  
+  /**
+   * Map a real path from git onto the (possibly symlinked) workspace path
+   */
+  private toWorkspacePath(workspaceRoot: string, realPath: string): string {
+    try {
+      const relative = path.relative(realPath, fs.realpathSync(workspaceRoot));
+      if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+        // Go up from the workspace as many levels as its real path is below the top level
+        return relative
+          ? path.resolve(workspaceRoot, ...relative.split(path.sep).map(() => ".."))
+          : workspaceRoot;
+      }
+    } catch {
+      // Fall back to git's path
+    }
+    return realPath;
+  }
+  
+  private isGitignoreEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration("promptTower")
+      .get<boolean>("useGitignore", true);
   }
   
   /**
    * Load .towerignore patterns for a workspace
    */
-  private loadTowerIgnorePatterns(workspace: Workspace): string[] {
+  private loadTowerIgnorePatterns(workspace: Workspace): IgnoreRuleSource[] {
     const towerignorePath = path.join(workspace.rootPath, ".towerignore");
-    return this.loadIgnoreFile(towerignorePath);
+    return this.loadIgnoreFile(towerignorePath, "towerignore");
   }
   
   /**
-   * Load patterns from an ignore file
+   * Load patterns from an ignore file, with their line numbers
    */
-  private loadIgnoreFile(filePath: string): string[] {
+  private loadIgnoreFile(filePath: string, kind: IgnoreSourceKind): IgnoreRuleSource[] {
     if (!fs.existsSync(filePath)) {
       return [];
     }
@@ -147,8 +505,8 @@ export class IgnorePatternService {
       const content = fs.readFileSync(filePath, "utf-8");
       return content
         .split(/\r?\n/)
-        .map(line => line.trim())
-        .filter(line => line && !line.startsWith("#"));
+        .map((line, index) => ({ pattern: line.trim(), kind, filePath, line: index + 1 }))
+        .filter(rule => rule.pattern && !rule.pattern.startsWith("#"));
     } catch (error) {
       console.error(`Error reading ignore file ${filePath}:`, error);
       return [];
@@ -156,19 +514,126 @@ export class IgnorePatternService {
   }
   
   /**
-   * Create an ignore instance for a workspace
+   * Get the ignore rules of a workspace, starting with the workspace-wide sources
+   * Later rules take precedence, so sources are added from least to most specific
+   */
+  private getState(workspace: Workspace): WorkspaceIgnoreState {
+    const cached = this.stateCache.get(workspace.id);
+    if (cached) {
+      return cached;
+    }
+    
+    const includePatterns = this.getIgnorePatterns(workspace).towerinclude;
+    const state: WorkspaceIgnoreState = {
+      instance: ignore(),
+      rules: [],
+      loadedDirectories: new Set(),
+      include: ignore().add(includePatterns),
+      includePrefixes: includePatterns
+        .map(getLiteralPrefix)
+        .filter((prefix): prefix is string => !!prefix),
+    };
+    for (const category of this.getBuiltinCategories()) {
+      if (!category.active) {
+        continue;
+      }
+      for (const pattern of category.patterns) {
+        this.addRule(state, { pattern, kind: "builtin", category: category.label }, pattern);
+      }
+    }
+    for (const { rule, pattern } of this.loadGitExcludeRules(workspace)) {
+      this.addRule(state, rule, pattern);
+    }
+    this.loadDirectories(state, workspace, "");
+    
+    this.stateCache.set(workspace.id, state);
+    return state;
+  }
+  
+  /**
+   * Add the ignore files of a directory ("" for the workspace root) and its ancestors, from the top down
+   */
+  private loadDirectories(
+    state: WorkspaceIgnoreState,
+    workspace: Workspace,
+    relativeDirectory: string
+  ): void {
+    if (relativeDirectory === ".") {
+      relativeDirectory = "";
+    }
+    if (state.loadedDirectories.has(relativeDirectory)) {
+      return;
+    }
+    
+    if (relativeDirectory) {
+      this.loadDirectories(state, workspace, path.posix.dirname(relativeDirectory));
+    }
+    state.loadedDirectories.add(relativeDirectory);
+    
+    for (const fileName of DIRECTORY_IGNORE_FILES) {
+      if (fileName === ".gitignore" && !this.isGitignoreEnabled()) {
+        continue;
+      }
+      const rules = this.loadIgnoreFile(
+        path.join(workspace.rootPath, relativeDirectory, fileName),
+        fileName === ".gitignore" ? "gitignore" : "towerignore"
+      );
+      for (const rule of rules) {
+        this.addRule(state, rule, rebasePattern(rule.pattern, relativeDirectory));
+      }
+    }
+  }
+  
+  /**
+   * Add a rule, marked with its index so matches can be traced back to their source
+   */
+  private addRule(
+    state: WorkspaceIgnoreState,
+    rule: IgnoreRuleSource,
+    workspacePattern: string
+  ): void {
+    state.instance.add({ pattern: workspacePattern, mark: String(state.rules.length) });
+    state.rules.push({ source: rule, workspacePattern });
+  }
+  
+  /**
+   * Whether `.towerinclude` includes a path, or leads to included paths inside a directory
+   * Directories on the literal prefix of a pattern (the prefix itself, its ancestors and the
+   * directories below it) are entered so the walk reaches the files the pattern matches
+   */
+  private isIncluded(state: WorkspaceIgnoreState, normalizedPath: string, isDirectory: boolean): boolean {
+    if (state.include.ignores(isDirectory ? `${normalizedPath}/` : normalizedPath)) {
+      return true;
+    }
+    return (
+      isDirectory &&
+      state.includePrefixes.some(
+        (prefix) =>
+          prefix === normalizedPath ||
+          normalizedPath.startsWith(`${prefix}/`) ||
+          prefix.startsWith(`${normalizedPath}/`)
+      )
+    );
+  }
+  
+  /**
+   * Source of the last rule ignoring a path, like `git check-ignore -v` reports
+   * The ignore engine stops at the first match, so the rules after it are tested until none match
    */
-  private createIgnoreInstance(workspace: Workspace): ignore.Ignore {
-    const patterns = this.getIgnorePatterns(workspace);
-    const instance = ignore();
+  private getDecidingRule(state: WorkspaceIgnoreState, testPath: string): IgnoreRuleSource | undefined {
+    let mark = state.instance.test(testPath).rule?.mark;
+    let index: number | undefined;
     
-    // Add all pattern sources to the ignore instance
-    instance.add(patterns.builtin);
-    instance.add(patterns.gitignore);
-    instance.add(patterns.towerignore);
-    instance.add(patterns.manual);
+    while (mark !== undefined) {
+      index = Number(mark);
+      const laterRules = ignore();
+      for (let later = index + 1; later < state.rules.length; later++) {
+        laterRules.add({ pattern: state.rules[later].workspacePattern, mark: String(later) });
+      }
+      mark = laterRules.test(testPath).rule?.mark;
+    }
     
-    return instance;
+    return index !== undefined ? state.rules[index].source : undefined;
   }
   
   /**
@@ -176,7 +641,21 @@ export class IgnorePatternService {
    */
   private invalidateCache(workspace: Workspace): void {
     this.patternCache.delete(workspace.id);
-    this.ignoreInstanceCache.delete(workspace.id);
+    this.stateCache.delete(workspace.id);
+  }
+  
+  /**
+   * Notify listeners once a burst of ignore file changes has settled
+   */
+  private scheduleChangeEvent(workspace: Workspace): void {
+    clearTimeout(this.changeTimers.get(workspace.id));
+    this.changeTimers.set(
+      workspace.id,
+      setTimeout(() => {
+        this.changeTimers.delete(workspace.id);
+        this._onDidChangeIgnorePatterns.fire(workspace);
+      }, IGNORE_CHANGE_DEBOUNCE_MS)
+    );
   }
   
   /**
@@ -184,54 +663,18 @@ export class IgnorePatternService {
    */
   private setupConfigurationWatcher(): void {
     vscode.workspace.onDidChangeConfiguration((event) => {
-      if (event.affectsConfiguration("promptTower.useGitignore")) {
+      if (
+        event.affectsConfiguration("promptTower.useGitignore") ||
+        event.affectsConfiguration("promptTower.builtinIgnore")
+      ) {
         // Clear all caches when configuration changes
         this.patternCache.clear();
-        this.ignoreInstanceCache.clear();
+        this.stateCache.clear();
         console.log("Ignore pattern configuration changed, clearing cache");
       }
     });
   }
   
-  /**
-   * Get glob patterns suitable for vscode.workspace.findFiles exclude parameter
-   */
-  getExcludeGlobPatterns(workspace: Workspace): string[] {
-    const patterns = this.getIgnorePatterns(workspace);
-    const allPatterns = [
-      ...patterns.builtin,
-      ...patterns.gitignore,
-      ...patterns.towerignore,
-      ...patterns.manual
-    ];
-    
-    const globs: string[] = [];
-    
-    allPatterns.forEach((pattern) => {
-      // Convert ignore patterns to findFiles-compatible globs
-      if (pattern.endsWith("/")) {
-        // Directory pattern like "node_modules/"
-        globs.push(`**/${pattern}**`);
-      } else if (pattern.includes("*")) {
-        // Already a glob pattern
-        if (!pattern.startsWith("**/")) {
-          globs.push(`**/${pattern}`);
-        } else {
-          globs.push(pattern);
-        }
-      } else if (pattern.startsWith(".")) {
-        // Hidden file like ".DS_Store"
-        globs.push(`**/${pattern}`);
-      } else {
-        // Simple name - could be file or directory
-        globs.push(`**/${pattern}`);
-        globs.push(`**/${pattern}/**`);
-      }
-    });
-    
-    return [...new Set(globs)]; // Remove duplicates
-  }
-  
   /**
    * Cleanup resources for a workspace
    */
@@ -245,7 +688,10 @@ export class IgnorePatternService {
     
     // Clear caches
     this.patternCache.delete(workspace.id);
-    this.ignoreInstanceCache.delete(workspace.id);
+    this.stateCache.delete(workspace.id);
+    this.gitLocationCache.delete(workspace.id);
+    clearTimeout(this.changeTimers.get(workspace.id));
+    this.changeTimers.delete(workspace.id);
   }
   
   /**
@@ -260,6 +706,84 @@ export class IgnorePatternService {
     
     // Clear all caches
     this.patternCache.clear();
-    this.ignoreInstanceCache.clear();
+    this.stateCache.clear();
+    this.gitLocationCache.clear();
+    this.changeTimers.forEach((timer) => clearTimeout(timer));
+    this.changeTimers.clear();
+    this._onDidChangeIgnorePatterns.dispose();
+  }
+}
+
+/**
+ * Make a pattern from the ignore file of a subdirectory relative to the workspace root
+ * A slash at the start or in the middle anchors a pattern to its directory; other patterns
+ * match at any depth below it
+ */
+function rebasePattern(pattern: string, relativeDirectory: string): string {
+  if (!relativeDirectory) {
+    return pattern;
+  }
+  
+  const negation = pattern.startsWith("!") ? "!" : "";
+  const body = pattern.slice(negation.length);
+  const anchored = body.replace(/\/$/, "").includes("/");
+  
+  return `${negation}${escapePath(relativeDirectory)}/${anchored ? body.replace(/^\//, "") : `**/${body}`}`;
+}
+
+/**
+ * Escape a literal path for use in an ignore pattern
+ */
+function escapePath(relativePath: string): string {
+  return relativePath.replace(/[*?[\]\\]/g, "\\$&").replace(/^[!#]/, "\\$&");
+}
+
+/**
+ * Leading path segments of an anchored `.towerinclude` pattern that contain no wildcards,
+ * e.g. `build/generated` for `build/generated/**` (undefined for negations and unanchored patterns)
+ */
+function getLiteralPrefix(pattern: string): string | undefined {
+  if (pattern.startsWith("!") || !pattern.replace(/\/$/, "").includes("/")) {
+    return undefined;
+  }
+  
+  const literalSegments: string[] = [];
+  for (const segment of pattern.replace(/^\//, "").replace(/\/$/, "").split("/")) {
+    if (/[*?[\\]/.test(segment)) {
+      break;
+    }
+    literalSegments.push(segment);
+  }
+  return literalSegments.join("/") || undefined;
+}
+
+/**
+ * Whether a path is a directory or lies inside it
+ */
+function isInside(filePath: string, directory: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * Make a pattern from an ignore file above the workspace folder relative to the workspace root
+ * `workspacePrefix` is the workspace folder relative to the ignore file's directory; returns
+ * undefined for anchored patterns pointing elsewhere
+ */
+function narrowPattern(pattern: string, workspacePrefix: string): string | undefined {
+  if (!workspacePrefix) {
+    return pattern;
+  }
+  
+  const negation = pattern.startsWith("!") ? "!" : "";
+  const body = pattern.slice(negation.length);
+  const anchoredBody = body.replace(/^\//, "");
+  
+  if (!body.replace(/\/$/, "").includes("/") || body.startsWith("**/")) {
+    return pattern;
+  }
+  if (anchoredBody.startsWith(`${workspacePrefix}/`)) {
+    return `${negation}/${anchoredBody.slice(workspacePrefix.length + 1)}`;
   }
-}
\ No newline at end of file
+  return undefined;
+}
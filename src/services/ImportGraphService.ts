@@ -0,0 +1,707 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { stripComments } from "../utils/commentStripper";
+import { walkFiles } from "../utils/fileWalker";
+import {
+  getImportLanguage,
+  ImportSpecifier,
+  parseImports,
+} from "../utils/importParser";
+import { IgnorePatternService } from "./IgnorePatternService";
+import { WorkspaceManager } from "./WorkspaceManager";
+
+/**
+ * A file reached by walking the import graph
+ */
+export interface ImportDependency {
+  absolutePath: string;
+
+  /** Number of import hops from the nearest start file (1 = imported directly) */
+  depth: number;
+
+  /** File that imports it on the shortest path */
+  importedBy: string;
+}
+
+/**
+ * A file that imports a target file, directly or transitively
+ */
+export interface ImportDependent {
+  absolutePath: string;
+
+  /** Number of import hops to the nearest target file (1 = imports it directly) */
+  depth: number;
+
+  /** File it imports on the shortest path to a target */
+  imports: string;
+}
+
+/**
+ * `compilerOptions.paths` of the nearest tsconfig.json/jsconfig.json
+ */
+interface PathAliasConfig {
+  /** Directory alias targets (and bare specifiers, if baseUrl is set) are resolved from */
+  baseDir: string;
+  hasBaseUrl: boolean;
+  paths: Record<string, string[]>;
+}
+
+interface CachedImports {
+  mtimeMs: number;
+  dependencies: string[];
+}
+
+const JS_EXTENSIONS = [".ts", ".tsx", ".d.ts", ".js", ".jsx", ".mjs", ".cjs", ".mts", ".cts"];
+const JS_OUTPUT_EXTENSIONS: Record<string, string[]> = {
+  ".js": [".ts", ".tsx"],
+  ".jsx": [".tsx"],
+  ".mjs": [".mts"],
+  ".cjs": [".cts"],
+};
+const PYTHON_EXTENSIONS = [".py", ".pyi"];
+const TS_CONFIG_FILES = ["tsconfig.json", "jsconfig.json"];
+const SOURCE_FILE_GLOB = "**/*.{ts,tsx,js,jsx,mjs,cjs,mts,cts,py,pyi,go}";
+const RESOLUTION_CONFIG_GLOB = "**/{tsconfig.json,jsconfig.json,go.mod}";
+
+/**
+ * Service for resolving the imports of source files to workspace files
+ * - TS/JS: relative imports, requires and tsconfig/jsconfig `paths` aliases
+ * - Python: relative and absolute imports (from the package root, workspace root or `src/`)
+ * - Go: packages of the module declared in the nearest go.mod
+ * Imports that resolve outside the workspace (packages, stdlib) are ignored.
+ *
+ * A reverse index (file -> files importing it) is built on first use and then
+ * kept up to date by file watchers, so dependents can be found without re-parsing.
+ */
+export class ImportGraphService {
+  private importCache = new Map<string, CachedImports>();
+  private aliasConfigCache = new Map<string, Promise<PathAliasConfig | null>>();
+  private goModuleCache = new Map<string, Promise<{ root: string; module: string } | null>>();
+
+  // Reverse import index
+  private importers = new Map<string, Set<string>>();
+  private indexedDependencies = new Map<string, string[]>();
+  private indexBuild: Promise<void> | null = null;
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private workspaceManager: WorkspaceManager,
+    private ignorePatternService: IgnorePatternService
+  ) {
+    // Rebuild the index from scratch when workspace folders or ignore rules change
+    this.disposables.push(
+      this.workspaceManager.onDidChangeWorkspaces(() => this.invalidateIndex()),
+      this.ignorePatternService.onDidChangeIgnorePatterns(() => this.invalidateIndex())
+    );
+  }
+
+  /**
+   * Whether imports can be followed for a file
+   */
+  supportsFile(filePath: string): boolean {
+    return !!getImportLanguage(path.extname(filePath).slice(1));
+  }
+
+  /**
+   * Workspace files imported directly by a file (cached until the file changes)
+   */
+  async getDependencies(filePath: string): Promise<string[]> {
+    if (!this.supportsFile(filePath)) {
+      return [];
+    }
+
+    let stats: fs.Stats;
+    try {
+      stats = await fs.promises.stat(filePath);
+    } catch {
+      return [];
+    }
+
+    const cached = this.importCache.get(filePath);
+    if (cached && cached.mtimeMs === stats.mtimeMs) {
+      return cached.dependencies;
+    }
+
+    const extension = path.extname(filePath).slice(1);
+    const content = await fs.promises.readFile(filePath, "utf-8");
+    const resolved = new Set<string>();
+
+    for (const specifier of parseImports(content, extension)) {
+      for (const dependency of await this.resolveImport(filePath, specifier)) {
+        if (dependency !== filePath) {
+          resolved.add(dependency);
+        }
+      }
+    }
+
+    const dependencies = Array.from(resolved);
+    this.importCache.set(filePath, { mtimeMs: stats.mtimeMs, dependencies });
+    return dependencies;
+  }
+
+  /**
+   * Walk the import graph breadth-first from the start files
+   * Returns the files reached (excluding the start files) up to `maxDepth` hops away
+   */
+  async collectDependencies(
+    startPaths: string[],
+    maxDepth: number
+  ): Promise<ImportDependency[]> {
+    const visited = new Set(startPaths);
+    const found: ImportDependency[] = [];
+    let frontier = startPaths;
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const filePath of frontier) {
+        let dependencies: string[];
+        try {
+          dependencies = await this.getDependencies(filePath);
+        } catch (error) {
+          console.warn(`Failed to read imports of ${filePath}:`, error);
+          continue;
+        }
+
+        for (const dependency of dependencies) {
+          if (!visited.has(dependency)) {
+            visited.add(dependency);
+            found.push({ absolutePath: dependency, depth, importedBy: filePath });
+            next.push(dependency);
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    return found;
+  }
+
+  /**
+   * Find every indexed file that imports the target files, directly or transitively
+   * Builds the reverse index on first use
+   */
+  async collectDependents(
+    targetPaths: string[],
+    progress?: vscode.Progress<{ message?: string }>
+  ): Promise<ImportDependent[]> {
+    await this.ensureIndex(progress);
+
+    const visited = new Set(targetPaths);
+    const found: ImportDependent[] = [];
+    let frontier = targetPaths;
+
+    for (let depth = 1; frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const filePath of frontier) {
+        for (const importer of this.importers.get(filePath) ?? []) {
+          if (!visited.has(importer)) {
+            visited.add(importer);
+            found.push({ absolutePath: importer, depth, imports: filePath });
+            next.push(importer);
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    return found;
+  }
+
+  /**
+   * Drop cached imports and configuration (e.g. after tsconfig.json or go.mod changes)
+   */
+  clearCache(): void {
+    this.importCache.clear();
+    this.aliasConfigCache.clear();
+    this.goModuleCache.clear();
+  }
+
+  /**
+   * Build the reverse index once; concurrent callers share the same build
+   */
+  private ensureIndex(progress?: vscode.Progress<{ message?: string }>): Promise<void> {
+    if (!this.indexBuild) {
+      this.indexBuild = this.buildIndex(progress).catch((error) => {
+        this.indexBuild = null;
+        throw error;
+      });
+    }
+    return this.indexBuild;
+  }
+
+  private async buildIndex(progress?: vscode.Progress<{ message?: string }>): Promise<void> {
+    this.importers.clear();
+    this.indexedDependencies.clear();
+    this.setupWatchers();
+
+    const files: string[] = [];
+    for (const workspace of this.workspaceManager.getWorkspaces()) {
+      const workspaceFiles = await walkFiles(workspace.rootPath, (absolutePath, isDirectory) =>
+        this.ignorePatternService.isPathIgnored(absolutePath, workspace, isDirectory)
+      );
+      files.push(...workspaceFiles.filter((filePath) => this.supportsFile(filePath)));
+    }
+
+    for (let index = 0; index < files.length; index++) {
+      if (index % 200 === 0) {
+        progress?.report({ message: `${index.toLocaleString()}/${files.length.toLocaleString()} files` });
+      }
+      await this.indexFile(files[index]);
+    }
+
+    console.log(`Import index built for ${files.length} files`);
+  }
+
+  /**
+   * (Re)read a file's imports and update its edges in the reverse index
+   */
+  private async indexFile(filePath: string): Promise<void> {
+    let dependencies: string[] = [];
+    try {
+      dependencies = await this.getDependencies(filePath);
+    } catch (error) {
+      console.warn(`Failed to read imports of ${filePath}:`, error);
+    }
+
+    this.removeFromIndex(filePath);
+    this.indexedDependencies.set(filePath, dependencies);
+    for (const dependency of dependencies) {
+      let importers = this.importers.get(dependency);
+      if (!importers) {
+        importers = new Set();
+        this.importers.set(dependency, importers);
+      }
+      importers.add(filePath);
+    }
+  }
+
+  private removeFromIndex(filePath: string): void {
+    for (const dependency of this.indexedDependencies.get(filePath) ?? []) {
+      this.importers.get(dependency)?.delete(filePath);
+    }
+    this.indexedDependencies.delete(filePath);
+  }
+
+  /**
+   * Keep the index current: re-parse changed source files, and start over
+   * when module resolution itself changes (tsconfig.json, jsconfig.json, go.mod)
+   */
+  private setupWatchers(): void {
+    if (this.watchers.length > 0) {
+      return;
+    }
+
+    const sourceWatcher = vscode.workspace.createFileSystemWatcher(SOURCE_FILE_GLOB);
+    const configWatcher = vscode.workspace.createFileSystemWatcher(RESOLUTION_CONFIG_GLOB);
+
+    const handleSourceChange = (uri: vscode.Uri) => {
+      const workspace = this.workspaceManager.getWorkspaceForPath(uri.fsPath);
+      if (
+        this.indexBuild &&
+        workspace &&
+        !this.ignorePatternService.isPathIgnored(uri.fsPath, workspace)
+      ) {
+        void this.indexBuild.then(() => this.indexFile(uri.fsPath)).catch(() => undefined);
+      }
+    };
+
+    sourceWatcher.onDidCreate(handleSourceChange);
+    sourceWatcher.onDidChange(handleSourceChange);
+    sourceWatcher.onDidDelete((uri) => {
+      this.importCache.delete(uri.fsPath);
+      this.removeFromIndex(uri.fsPath);
+    });
+
+    configWatcher.onDidCreate(() => this.invalidateIndex());
+    configWatcher.onDidChange(() => this.invalidateIndex());
+    configWatcher.onDidDelete(() => this.invalidateIndex());
+
+    this.watchers.push(sourceWatcher, configWatcher);
+  }
+
+  private invalidateIndex(): void {
+    this.clearCache();
+    this.importers.clear();
+    this.indexedDependencies.clear();
+    this.indexBuild = null;
+  }
+
+  /**
+   * Dispose watchers and drop the index
+   */
+  dispose(): void {
+    [...this.watchers, ...this.disposables].forEach((disposable) => disposable.dispose());
+    this.watchers = [];
+    this.disposables = [];
+    this.invalidateIndex();
+  }
+
+  private async resolveImport(
+    fromFile: string,
+    specifier: ImportSpecifier
+  ): Promise<string[]> {
+    switch (getImportLanguage(path.extname(fromFile).slice(1))) {
+      case "js":
+        return this.resolveJsImport(fromFile, specifier.specifier);
+      case "python":
+        return this.resolvePythonImport(fromFile, specifier);
+      case "go":
+        return this.resolveGoImport(fromFile, specifier.specifier);
+      default:
+        return [];
+    }
+  }
+
+  // --- TS/JS ---
+
+  private async resolveJsImport(fromFile: string, specifier: string): Promise<string[]> {
+    const candidates: string[] = [];
+
+    if (specifier.startsWith(".") || path.isAbsolute(specifier)) {
+      candidates.push(path.resolve(path.dirname(fromFile), specifier));
+    } else {
+      const config = await this.getPathAliasConfig(path.dirname(fromFile));
+      if (config) {
+        candidates.push(...this.expandPathAlias(config, specifier));
+        if (config.hasBaseUrl) {
+          candidates.push(path.join(config.baseDir, specifier));
+        }
+      }
+    }
+
+    for (const candidate of candidates) {
+      const resolved = await this.resolveJsFile(candidate);
+      if (resolved) {
+        return [resolved];
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Apply `compilerOptions.paths`, preferring the longest matching prefix like tsc does
+   */
+  private expandPathAlias(config: PathAliasConfig, specifier: string): string[] {
+    let bestMatch: { targets: string[]; wildcard: string; prefixLength: number } | undefined;
+
+    for (const [pattern, targets] of Object.entries(config.paths)) {
+      const starIndex = pattern.indexOf("*");
+      if (starIndex === -1) {
+        if (pattern === specifier) {
+          return targets.map((target) => path.resolve(config.baseDir, target));
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, starIndex);
+      const suffix = pattern.slice(starIndex + 1);
+      if (
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix) &&
+        specifier.length >= prefix.length + suffix.length &&
+        (!bestMatch || prefix.length > bestMatch.prefixLength)
+      ) {
+        bestMatch = {
+          targets,
+          wildcard: specifier.slice(prefix.length, specifier.length - suffix.length),
+          prefixLength: prefix.length,
+        };
+      }
+    }
+
+    return bestMatch
+      ? bestMatch.targets.map((target) =>
+          path.resolve(config.baseDir, target.replace("*", bestMatch!.wildcard))
+        )
+      : [];
+  }
+
+  private async resolveJsFile(basePath: string): Promise<string | undefined> {
+    const extension = path.extname(basePath);
+    const candidates = [
+      basePath,
+      // `./foo.js` in TypeScript sources refers to `./foo.ts`
+      ...(JS_OUTPUT_EXTENSIONS[extension] ?? []).map(
+        (sourceExtension) => basePath.slice(0, -extension.length) + sourceExtension
+      ),
+      ...JS_EXTENSIONS.map((jsExtension) => basePath + jsExtension),
+      ...JS_EXTENSIONS.map((jsExtension) => path.join(basePath, "index" + jsExtension)),
+    ];
+
+    for (const candidate of candidates) {
+      if (await this.isWorkspaceFile(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find and parse the nearest tsconfig.json/jsconfig.json (cached per directory)
+   */
+  private getPathAliasConfig(directory: string): Promise<PathAliasConfig | null> {
+    let config = this.aliasConfigCache.get(directory);
+    if (!config) {
+      config = this.loadPathAliasConfig(directory);
+      this.aliasConfigCache.set(directory, config);
+    }
+    return config;
+  }
+
+  private async loadPathAliasConfig(directory: string): Promise<PathAliasConfig | null> {
+    for (const fileName of TS_CONFIG_FILES) {
+      const configPath = path.join(directory, fileName);
+      if (await this.isFile(configPath)) {
+        return this.readPathAliasConfig(configPath, new Set());
+      }
+    }
+
+    const workspace = this.workspaceManager.getWorkspaceForPath(directory);
+    const parent = path.dirname(directory);
+    if (!workspace || directory === workspace.rootPath || parent === directory) {
+      return null;
+    }
+    return this.getPathAliasConfig(parent);
+  }
+
+  /**
+   * Read `baseUrl` and `paths`, following relative `extends` chains
+   */
+  private async readPathAliasConfig(
+    configPath: string,
+    seen: Set<string>
+  ): Promise<PathAliasConfig | null> {
+    if (seen.has(configPath)) {
+      return null;
+    }
+    seen.add(configPath);
+
+    let json: any;
+    try {
+      json = parseJsonc(await fs.promises.readFile(configPath, "utf-8"));
+    } catch (error) {
+      console.warn(`Failed to parse ${configPath}:`, error);
+      return null;
+    }
+
+    const configDir = path.dirname(configPath);
+    let inherited: PathAliasConfig | null = null;
+    const extendsPaths: unknown[] = Array.isArray(json?.extends)
+      ? json.extends
+      : [json?.extends];
+    for (const extendsPath of extendsPaths) {
+      if (typeof extendsPath === "string" && extendsPath.startsWith(".")) {
+        const basePath = path.resolve(configDir, extendsPath);
+        inherited =
+          (await this.readPathAliasConfig(
+            basePath.endsWith(".json") ? basePath : basePath + ".json",
+            seen
+          )) ?? inherited;
+      }
+    }
+
+    const options = json?.compilerOptions ?? {};
+    const hasBaseUrl = typeof options.baseUrl === "string";
+    const paths =
+      options.paths && typeof options.paths === "object" ? options.paths : undefined;
+
+    if (!hasBaseUrl && !paths) {
+      return inherited;
+    }
+
+    return {
+      baseDir: hasBaseUrl
+        ? path.resolve(configDir, options.baseUrl)
+        : inherited?.hasBaseUrl || !paths
+          ? inherited!.baseDir
+          : configDir,
+      hasBaseUrl: hasBaseUrl || !!inherited?.hasBaseUrl,
+      paths: paths ?? inherited?.paths ?? {},
+    };
+  }
+
+  // --- Python ---
+
+  private async resolvePythonImport(
+    fromFile: string,
+    { specifier, names }: ImportSpecifier
+  ): Promise<string[]> {
+    const leadingDots = specifier.match(/^\.*/)![0].length;
+    const moduleParts = specifier.slice(leadingDots).split(".").filter(Boolean);
+
+    let roots: string[];
+    if (leadingDots > 0) {
+      // `from ..pkg import x`: one dot is the current package
+      let packageDir = path.dirname(fromFile);
+      for (let level = 1; level < leadingDots; level++) {
+        packageDir = path.dirname(packageDir);
+      }
+      roots = [packageDir];
+    } else {
+      const workspace = this.workspaceManager.getWorkspaceForPath(fromFile);
+      roots = [
+        await this.findPythonSourceRoot(path.dirname(fromFile)),
+        ...(workspace
+          ? [workspace.rootPath, path.join(workspace.rootPath, "src")]
+          : []),
+        path.dirname(fromFile),
+      ];
+    }
+
+    for (const root of roots) {
+      const moduleDir = path.join(root, ...moduleParts);
+      const resolved: string[] = [];
+
+      const module = await this.resolvePythonModule(moduleDir, moduleParts.length === 0);
+      if (module) {
+        resolved.push(module);
+      }
+
+      // `from pkg import submodule`
+      for (const name of names ?? []) {
+        const submodule = await this.resolvePythonModule(path.join(moduleDir, name), false);
+        if (submodule) {
+          resolved.push(submodule);
+        }
+      }
+
+      if (resolved.length > 0) {
+        return resolved;
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Directory containing the top-level package of a module (the parent of the
+   * highest ancestor directory with an `__init__.py`)
+   */
+  private async findPythonSourceRoot(directory: string): Promise<string> {
+    let root = directory;
+    while (
+      this.isInWorkspace(path.dirname(root)) &&
+      (await this.isFile(path.join(root, "__init__.py")))
+    ) {
+      root = path.dirname(root);
+    }
+    return root;
+  }
+
+  private async resolvePythonModule(
+    modulePath: string,
+    packageOnly: boolean
+  ): Promise<string | undefined> {
+    const candidates = [
+      ...(packageOnly ? [] : PYTHON_EXTENSIONS.map((extension) => modulePath + extension)),
+      ...PYTHON_EXTENSIONS.map((extension) => path.join(modulePath, "__init__" + extension)),
+    ];
+
+    for (const candidate of candidates) {
+      if (await this.isWorkspaceFile(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  // --- Go ---
+
+  private async resolveGoImport(fromFile: string, specifier: string): Promise<string[]> {
+    const goModule = await this.getGoModule(path.dirname(fromFile));
+    if (
+      !goModule ||
+      (specifier !== goModule.module && !specifier.startsWith(goModule.module + "/"))
+    ) {
+      return [];
+    }
+
+    // A Go import names a package: every non-test .go file in its directory
+    const packageDir = path.join(
+      goModule.root,
+      ...specifier.slice(goModule.module.length).split("/").filter(Boolean)
+    );
+
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(packageDir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const filePath = path.join(packageDir, entry.name);
+      if (
+        entry.isFile() &&
+        entry.name.endsWith(".go") &&
+        !entry.name.endsWith("_test.go") &&
+        this.isInWorkspace(filePath)
+      ) {
+        files.push(filePath);
+      }
+    }
+    return files.sort();
+  }
+
+  /**
+   * Find the nearest go.mod and its module path (cached per directory)
+   */
+  private getGoModule(directory: string): Promise<{ root: string; module: string } | null> {
+    let goModule = this.goModuleCache.get(directory);
+    if (!goModule) {
+      goModule = this.loadGoModule(directory);
+      this.goModuleCache.set(directory, goModule);
+    }
+    return goModule;
+  }
+
+  private async loadGoModule(directory: string): Promise<{ root: string; module: string } | null> {
+    try {
+      const content = await fs.promises.readFile(path.join(directory, "go.mod"), "utf-8");
+      const match = content.match(/^\s*module\s+"?([^\s"]+)"?/m);
+      if (match) {
+        return { root: directory, module: match[1] };
+      }
+    } catch {
+      // No go.mod here; keep looking upwards
+    }
+
+    const workspace = this.workspaceManager.getWorkspaceForPath(directory);
+    const parent = path.dirname(directory);
+    if (!workspace || directory === workspace.rootPath || parent === directory) {
+      return null;
+    }
+    return this.getGoModule(parent);
+  }
+
+  // --- Helpers ---
+
+  private isInWorkspace(filePath: string): boolean {
+    return !!this.workspaceManager.getWorkspaceForPath(filePath);
+  }
+
+  private async isWorkspaceFile(filePath: string): Promise<boolean> {
+    return this.isInWorkspace(filePath) && (await this.isFile(filePath));
+  }
+
+  private async isFile(filePath: string): Promise<boolean> {
+    try {
+      return (await fs.promises.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Parse JSON with comments and trailing commas (tsconfig.json style)
+ */
+function parseJsonc(text: string): any {
+  return JSON.parse(stripComments(text, "js").replace(/,(\s*[}\]])/g, "$1"));
+}
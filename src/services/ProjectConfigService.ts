@@ -0,0 +1,382 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as yaml from "js-yaml";
+import { WorkspaceManager } from "./WorkspaceManager";
+
+/** Config file names in order of precedence */
+export const PROJECT_CONFIG_FILE_NAMES = [
+  ".prompttower.json",
+  ".prompttower.yaml",
+  ".prompttower.yml",
+];
+
+const TREE_TYPES = [
+  "fullFilesAndDirectories",
+  "fullDirectoriesOnly",
+  "selectedFilesOnly",
+  "none",
+] as const;
+
+export type ProjectTreeType = (typeof TREE_TYPES)[number];
+
+/**
+ * A named selection defined in the project config
+ */
+export interface ProjectPreset {
+  /** Files and directories relative to the config file's folder */
+  paths: string[];
+  prefix?: string;
+  suffix?: string;
+  treeType?: ProjectTreeType;
+}
+
+/**
+ * Shared settings committed to the repository as `.prompttower.json` or `.prompttower.yaml`
+ * Everything is optional; set values take precedence over VS Code settings
+ */
+export interface ProjectConfig {
+  templates?: {
+    block?: string;
+    blockSeparator?: string;
+    trimBlockLines?: boolean;
+    /** null disables the wrapper */
+    wrapper?: string | null;
+  };
+  projectTree?: {
+    enabled?: boolean;
+    /** Default tree type for new contexts */
+    type?: ProjectTreeType;
+    showFileSize?: boolean;
+  };
+  tokenBudget?: {
+    limit?: number;
+  };
+  /** Glob pattern to priority under the token budget (merged over `promptTower.tokenBudget.filePriorities`) */
+  priorities?: Record<string, number>;
+  prompt?: {
+    prefix?: string;
+    suffix?: string;
+  };
+  presets?: Record<string, ProjectPreset>;
+}
+
+/**
+ * A loaded config file
+ */
+export interface LoadedProjectConfig {
+  config: ProjectConfig;
+
+  /** Absolute path of the file the config was read from */
+  filePath: string;
+
+  /** Workspace folder containing the file; preset paths are relative to it */
+  rootPath: string;
+
+  /** Name of that workspace folder */
+  workspaceName: string;
+
+  /** Invalid entries that were skipped */
+  problems: string[];
+}
+
+/**
+ * Service for the project-level config file in the primary workspace folder
+ * - Reloaded whenever the file is created, changed or deleted
+ * - Invalid entries are skipped and reported once per change
+ */
+export class ProjectConfigService implements vscode.Disposable {
+  private loaded?: LoadedProjectConfig;
+  private watcher?: vscode.FileSystemWatcher;
+  private watchedRoot?: string;
+  private disposables: vscode.Disposable[] = [];
+  private _onDidChange = new vscode.EventEmitter<LoadedProjectConfig | undefined>();
+
+  /** Fires after the config was reloaded (undefined when there is no config file) */
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(private workspaceManager: WorkspaceManager) {
+    this.load();
+    this.setupWatcher();
+    this.disposables.push(
+      this.workspaceManager.onDidChangeWorkspaces(() => {
+        this.setupWatcher();
+        this.reload();
+      })
+    );
+  }
+
+  /**
+   * The current project config, if a config file exists
+   */
+  getConfig(): ProjectConfig | undefined {
+    return this.loaded?.config;
+  }
+
+  /**
+   * The current config together with where it was loaded from
+   */
+  getLoaded(): LoadedProjectConfig | undefined {
+    return this.loaded;
+  }
+
+  /**
+   * Re-read the config file and notify listeners
+   */
+  reload(): void {
+    this.load();
+    this._onDidChange.fire(this.loaded);
+  }
+
+  /**
+   * Read and validate the first config file found in the primary workspace folder
+   */
+  private load(): void {
+    this.loaded = undefined;
+
+    const workspace = this.workspaceManager.getPrimaryWorkspace();
+    if (!workspace) {
+      return;
+    }
+
+    const filePath = PROJECT_CONFIG_FILE_NAMES.map((name) =>
+      path.join(workspace.rootPath, name)
+    ).find((candidate) => fs.existsSync(candidate));
+    if (!filePath) {
+      return;
+    }
+
+    const fileName = path.basename(filePath);
+    let raw: unknown;
+    try {
+      const content = fs.readFileSync(filePath, "utf-8");
+      raw = fileName.endsWith(".json") ? JSON.parse(content) : yaml.load(content);
+    } catch (error) {
+      console.error(`Error reading ${fileName}:`, error);
+      vscode.window.showErrorMessage(
+        `Prompt Tower: ${fileName} could not be parsed and is ignored: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return;
+    }
+
+    const problems: string[] = [];
+    const config = validateProjectConfig(raw ?? {}, problems);
+    this.loaded = {
+      config,
+      filePath,
+      rootPath: workspace.rootPath,
+      workspaceName: workspace.name,
+      problems,
+    };
+
+    if (problems.length > 0) {
+      console.warn(`Problems in ${fileName}:`, problems);
+      vscode.window
+        .showWarningMessage(
+          `Prompt Tower: ${problems.length} invalid setting(s) in ${fileName} were ignored: ${problems.join("; ")}`,
+          "Open File"
+        )
+        .then((choice) => {
+          if (choice === "Open File") {
+            vscode.window.showTextDocument(vscode.Uri.file(filePath));
+          }
+        });
+    }
+  }
+
+  /**
+   * Watch the config files in the primary workspace folder
+   */
+  private setupWatcher(): void {
+    const rootPath = this.workspaceManager.getPrimaryWorkspace()?.rootPath;
+    if (rootPath === this.watchedRoot) {
+      return;
+    }
+
+    this.watcher?.dispose();
+    this.watcher = undefined;
+    this.watchedRoot = rootPath;
+    if (!rootPath) {
+      return;
+    }
+
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(rootPath, ".prompttower.{json,yaml,yml}")
+    );
+    const handleChange = () => {
+      console.log("Project config changed, reloading");
+      this.reload();
+    };
+    this.watcher.onDidCreate(handleChange);
+    this.watcher.onDidChange(handleChange);
+    this.watcher.onDidDelete(handleChange);
+  }
+
+  dispose(): void {
+    this.watcher?.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this._onDidChange.dispose();
+  }
+}
+
+/**
+ * Keep the valid parts of a parsed config, describing everything that was dropped
+ */
+function validateProjectConfig(raw: unknown, problems: string[]): ProjectConfig {
+  if (!isObject(raw)) {
+    problems.push("the file must contain an object");
+    return {};
+  }
+
+  const config: ProjectConfig = {};
+
+  const templates = readObject(raw, "templates", problems);
+  if (templates) {
+    config.templates = {
+      block: readString(templates, "block", "templates", problems),
+      blockSeparator: readString(templates, "blockSeparator", "templates", problems),
+      trimBlockLines: readBoolean(templates, "trimBlockLines", "templates", problems),
+    };
+    if (templates.wrapper === null) {
+      config.templates.wrapper = null;
+    } else {
+      config.templates.wrapper = readString(templates, "wrapper", "templates", problems);
+    }
+  }
+
+  const projectTree = readObject(raw, "projectTree", problems);
+  if (projectTree) {
+    config.projectTree = {
+      enabled: readBoolean(projectTree, "enabled", "projectTree", problems),
+      type: readTreeType(projectTree, "type", "projectTree", problems),
+      showFileSize: readBoolean(projectTree, "showFileSize", "projectTree", problems),
+    };
+  }
+
+  const tokenBudget = readObject(raw, "tokenBudget", problems);
+  if (tokenBudget) {
+    const limit = tokenBudget.limit;
+    if (limit === undefined) {
+      config.tokenBudget = {};
+    } else if (typeof limit === "number" && Number.isInteger(limit) && limit >= 0) {
+      config.tokenBudget = { limit };
+    } else {
+      problems.push("tokenBudget.limit must be a non-negative integer");
+    }
+  }
+
+  const priorities = readObject(raw, "priorities", problems);
+  if (priorities) {
+    config.priorities = {};
+    for (const [pattern, priority] of Object.entries(priorities)) {
+      if (typeof priority === "number") {
+        config.priorities[pattern] = priority;
+      } else {
+        problems.push(`priorities["${pattern}"] must be a number`);
+      }
+    }
+  }
+
+  const prompt = readObject(raw, "prompt", problems);
+  if (prompt) {
+    config.prompt = {
+      prefix: readString(prompt, "prefix", "prompt", problems),
+      suffix: readString(prompt, "suffix", "prompt", problems),
+    };
+  }
+
+  const presets = readObject(raw, "presets", problems);
+  if (presets) {
+    config.presets = {};
+    for (const [name, preset] of Object.entries(presets)) {
+      const key = `presets["${name}"]`;
+
+      // A plain list is shorthand for { paths: [...] }
+      const value = Array.isArray(preset) ? { paths: preset } : preset;
+      if (!isObject(value) || !Array.isArray(value.paths)) {
+        problems.push(`${key} must be a list of paths or an object with "paths"`);
+        continue;
+      }
+
+      const paths = value.paths.filter((p): p is string => typeof p === "string");
+      if (paths.length !== value.paths.length) {
+        problems.push(`${key}.paths must only contain strings`);
+      }
+      config.presets[name] = {
+        paths,
+        prefix: readString(value, "prefix", key, problems),
+        suffix: readString(value, "suffix", key, problems),
+        treeType: readTreeType(value, "treeType", key, problems),
+      };
+    }
+  }
+
+  return config;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readObject(
+  parent: Record<string, unknown>,
+  key: string,
+  problems: string[]
+): Record<string, unknown> | undefined {
+  const value = parent[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isObject(value)) {
+    problems.push(`${key} must be an object`);
+    return undefined;
+  }
+  return value;
+}
+
+function readString(
+  parent: Record<string, unknown>,
+  key: string,
+  scope: string,
+  problems: string[]
+): string | undefined {
+  const value = parent[key];
+  if (value === undefined || typeof value === "string") {
+    return value;
+  }
+  problems.push(`${scope}.${key} must be a string`);
+  return undefined;
+}
+
+function readBoolean(
+  parent: Record<string, unknown>,
+  key: string,
+  scope: string,
+  problems: string[]
+): boolean | undefined {
+  const value = parent[key];
+  if (value === undefined || typeof value === "boolean") {
+    return value;
+  }
+  problems.push(`${scope}.${key} must be true or false`);
+  return undefined;
+}
+
+function readTreeType(
+  parent: Record<string, unknown>,
+  key: string,
+  scope: string,
+  problems: string[]
+): ProjectTreeType | undefined {
+  const value = parent[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (TREE_TYPES.includes(value as ProjectTreeType)) {
+    return value as ProjectTreeType;
+  }
+  problems.push(`${scope}.${key} must be one of ${TREE_TYPES.join(", ")}`);
+  return undefined;
+}
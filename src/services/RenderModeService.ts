@@ -0,0 +1,172 @@
+import * as vscode from "vscode";
+import { StrippedLine } from "../utils/commentStripper";
+import { generateOutlineLines, generateSymbolOutlineLines } from "../utils/outline";
+import { SymbolSelectionService } from "./SymbolSelectionService";
+
+/**
+ * How a file's content is rendered into the context
+ * - full: the content as is
+ * - outline: signatures only, with bodies collapsed to `{ … }`
+ */
+export type RenderMode = "full" | "outline";
+
+const FILE_MODES_KEY = "promptTower.fileRenderModes";
+const FILE_LINE_NUMBERS_KEY = "promptTower.fileLineNumbers";
+
+/**
+ * Service that decides how files are included: in full or as an outline,
+ * with or without line numbers
+ * - The defaults come from `promptTower.renderMode.default` and `promptTower.lineNumbers.enabled`
+ * - Files marked otherwise in the Files tree are remembered per workspace
+ */
+export class RenderModeService implements vscode.Disposable {
+  private fileModes: Map<string, RenderMode>;
+  private fileLineNumbers: Map<string, boolean>;
+  private configurationListener: vscode.Disposable;
+  private _onDidChange = new vscode.EventEmitter<void>();
+
+  /** Fires when the mode or line numbers of any file changed (file marks or the defaults) */
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private symbolSelectionService?: SymbolSelectionService
+  ) {
+    this.fileModes = new Map(
+      Object.entries(context.workspaceState.get<Record<string, RenderMode>>(FILE_MODES_KEY, {}))
+    );
+    this.fileLineNumbers = new Map(
+      Object.entries(context.workspaceState.get<Record<string, boolean>>(FILE_LINE_NUMBERS_KEY, {}))
+    );
+    this.configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration("promptTower.renderMode") ||
+        event.affectsConfiguration("promptTower.lineNumbers")
+      ) {
+        this._onDidChange.fire();
+      }
+    });
+  }
+
+  /**
+   * Mode of files that are not marked (`promptTower.renderMode.default`)
+   */
+  getDefaultMode(): RenderMode {
+    return vscode.workspace
+      .getConfiguration("promptTower")
+      .get<RenderMode>("renderMode.default", "full");
+  }
+
+  /**
+   * Mode a file is rendered in
+   */
+  getMode(absolutePath: string): RenderMode {
+    return this.fileModes.get(absolutePath) ?? this.getDefaultMode();
+  }
+
+  /**
+   * Mode a file was marked with, if it differs from the default
+   */
+  getFileMode(absolutePath: string): RenderMode | undefined {
+    const mode = this.fileModes.get(absolutePath);
+    return mode !== this.getDefaultMode() ? mode : undefined;
+  }
+
+  /**
+   * Mark files to be rendered in a mode; marks equal to the default are dropped
+   * so the files follow later changes of the default
+   */
+  async setMode(absolutePaths: string[], mode: RenderMode): Promise<void> {
+    const isDefault = mode === this.getDefaultMode();
+    for (const absolutePath of absolutePaths) {
+      if (isDefault) {
+        this.fileModes.delete(absolutePath);
+      } else {
+        this.fileModes.set(absolutePath, mode);
+      }
+    }
+    await this.context.workspaceState.update(
+      FILE_MODES_KEY,
+      Object.fromEntries(this.fileModes)
+    );
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Whether files that are not marked show line numbers (`promptTower.lineNumbers.enabled`)
+   */
+  getDefaultLineNumbers(): boolean {
+    return vscode.workspace
+      .getConfiguration("promptTower")
+      .get<boolean>("lineNumbers.enabled", false);
+  }
+
+  /**
+   * Whether a file's content is prefixed with its line numbers
+   */
+  getLineNumbers(absolutePath: string): boolean {
+    return this.fileLineNumbers.get(absolutePath) ?? this.getDefaultLineNumbers();
+  }
+
+  /**
+   * Line numbers a file was marked with, if they differ from the default
+   */
+  getFileLineNumbers(absolutePath: string): boolean | undefined {
+    const enabled = this.fileLineNumbers.get(absolutePath);
+    return enabled !== this.getDefaultLineNumbers() ? enabled : undefined;
+  }
+
+  /**
+   * Show or hide the line numbers of files; marks equal to the default are dropped
+   */
+  async setLineNumbers(absolutePaths: string[], enabled: boolean): Promise<void> {
+    const isDefault = enabled === this.getDefaultLineNumbers();
+    for (const absolutePath of absolutePaths) {
+      if (isDefault) {
+        this.fileLineNumbers.delete(absolutePath);
+      } else {
+        this.fileLineNumbers.set(absolutePath, enabled);
+      }
+    }
+    await this.context.workspaceState.update(
+      FILE_LINE_NUMBERS_KEY,
+      Object.fromEntries(this.fileLineNumbers)
+    );
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Outline of a file's content: built in for common languages, otherwise from
+   * its document symbols; null when neither is available
+   */
+  async getOutline(
+    absolutePath: string,
+    content: string,
+    extension: string | undefined
+  ): Promise<string | null> {
+    const lines = await this.getOutlineLines(absolutePath, content, extension);
+    return lines ? lines.map((line) => line.text).join("\n") : null;
+  }
+
+  /**
+   * Outline lines with their original line numbers, or null (see `getOutline`)
+   */
+  async getOutlineLines(
+    absolutePath: string,
+    content: string,
+    extension: string | undefined
+  ): Promise<StrippedLine[] | null> {
+    const lines = generateOutlineLines(content, extension);
+    if (lines !== null || !this.symbolSelectionService) {
+      return lines;
+    }
+
+    const symbols = await this.symbolSelectionService.getSymbols(absolutePath);
+    return symbols.length > 0 ? generateSymbolOutlineLines(content, symbols) : null;
+  }
+
+  dispose(): void {
+    this.configurationListener.dispose();
+    this._onDidChange.dispose();
+  }
+}
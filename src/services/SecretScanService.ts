@@ -0,0 +1,150 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import { FileNode, FileNodeUtils } from "../models/FileNode";
+import {
+  redactSecrets,
+  scanForSecrets,
+  SecretFinding,
+} from "../utils/secretScanner";
+
+/**
+ * What to do when the context contains secrets
+ * - confirm: ask before the context leaves the editor, offering to redact
+ * - redact: replace secrets with placeholders without asking
+ * - off: do not scan
+ */
+export type SecretScanMode = "confirm" | "redact" | "off";
+
+/**
+ * A secret together with where it came from
+ */
+export interface LocatedSecretFinding extends SecretFinding {
+  /** `relative/path.ts:12` for selected files, otherwise the line in the generated context */
+  location: string;
+}
+
+/** Findings listed in the confirmation dialog before the rest are summarized */
+const MAX_LISTED_FINDINGS = 15;
+
+/**
+ * Service that scans generated context for credentials before it is copied or pushed
+ */
+export class SecretScanService {
+  /**
+   * Configured handling of secrets
+   */
+  getMode(): SecretScanMode {
+    return vscode.workspace
+      .getConfiguration("promptTower")
+      .get<SecretScanMode>("secretScanning.mode", "confirm");
+  }
+
+  /**
+   * Scan the context and locate each finding in the selected files
+   * `json` is set for contexts rendered with the JSON preset
+   */
+  async scan(
+    contextString: string,
+    fileNodes: FileNode[],
+    json = false
+  ): Promise<LocatedSecretFinding[]> {
+    const findings = scanForSecrets(contextString, {
+      highEntropy: vscode.workspace
+        .getConfiguration("promptTower")
+        .get<boolean>("secretScanning.highEntropy", true),
+      json,
+    });
+
+    return findings.length > 0 ? this.locate(findings, fileNodes) : [];
+  }
+
+  /**
+   * Check context before it leaves the editor
+   * Returns the text to send (redacted if requested), or undefined if the user cancelled
+   */
+  async review(
+    contextString: string,
+    fileNodes: FileNode[],
+    destination: string,
+    json = false
+  ): Promise<string | undefined> {
+    const mode = this.getMode();
+    if (mode === "off") {
+      return contextString;
+    }
+
+    const findings = await this.scan(contextString, fileNodes, json);
+    if (findings.length === 0) {
+      return contextString;
+    }
+
+    if (mode === "redact") {
+      vscode.window.showInformationMessage(
+        `Redacted ${findings.length} possible secret(s) before sending to ${destination}.`
+      );
+      return redactSecrets(contextString, findings);
+    }
+
+    const listed = findings
+      .slice(0, MAX_LISTED_FINDINGS)
+      .map((finding) => `• ${finding.location} — ${finding.description}`);
+    if (findings.length > MAX_LISTED_FINDINGS) {
+      listed.push(`…and ${findings.length - MAX_LISTED_FINDINGS} more`);
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `The context contains ${findings.length} possible secret(s). Redact them before sending to ${destination}?`,
+      { modal: true, detail: listed.join("\n") },
+      "Redact Secrets",
+      "Send Unredacted"
+    );
+
+    if (choice === "Redact Secrets") {
+      return redactSecrets(contextString, findings);
+    }
+    if (choice === "Send Unredacted") {
+      return contextString;
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the file and line each secret came from; secrets outside selected files
+   * (prefix, suffix, GitHub issues, diffs) are reported by their line in the context
+   */
+  private async locate(
+    findings: SecretFinding[],
+    fileNodes: FileNode[]
+  ): Promise<LocatedSecretFinding[]> {
+    const located = new Map<SecretFinding, string>();
+
+    for (const node of FileNodeUtils.getSelectedFiles(fileNodes)) {
+      if (located.size === findings.length) {
+        break;
+      }
+
+      let content: string;
+      try {
+        content = await fs.promises.readFile(node.absolutePath, "utf-8");
+      } catch {
+        continue;
+      }
+
+      for (const finding of findings) {
+        if (located.has(finding)) {
+          continue;
+        }
+        const index = content.indexOf(finding.value.split("\n")[0]);
+        if (index !== -1) {
+          const line = content.slice(0, index).split("\n").length;
+          located.set(finding, `${node.relativePath}:${line}`);
+        }
+      }
+    }
+
+    return findings.map((finding) => ({
+      ...finding,
+      location: located.get(finding) ?? `context line ${finding.line}`,
+    }));
+  }
+}
@@ -0,0 +1,501 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { Workspace } from "../models/Workspace";
+import { WorkspaceManager } from "./WorkspaceManager";
+import { ProjectConfigService } from "./ProjectConfigService";
+
+/**
+ * A checked path, stored relative to its workspace folder so sets can be committed
+ */
+export interface SelectionSetPath {
+  /** Workspace folder name */
+  workspace: string;
+
+  /** Path relative to the workspace folder, with forward slashes ("" for the folder itself) */
+  path: string;
+}
+
+/**
+ * A named, reusable selection
+ */
+export interface SelectionSet {
+  name: string;
+  paths: SelectionSetPath[];
+  githubIssues: number[];
+  githubPRs: number[];
+  prefix: string;
+  suffix: string;
+  treeType?: string;
+  savedAt: string;
+}
+
+/** "project" sets are the read-only presets of the project config file */
+export type SelectionSetStorage = "workspaceState" | "file" | "project";
+
+/**
+ * A selection set together with where it is stored
+ */
+export interface StoredSelectionSet {
+  set: SelectionSet;
+  storage: SelectionSetStorage;
+
+  /** File name in the selections directory (file storage only) */
+  fileName?: string;
+}
+
+/**
+ * Differences between two selection sets (from `base` to `other`)
+ */
+export interface SelectionSetDiff {
+  addedPaths: SelectionSetPath[];
+  removedPaths: SelectionSetPath[];
+  addedIssues: number[];
+  removedIssues: number[];
+  addedPRs: number[];
+  removedPRs: number[];
+  prefixChanged: boolean;
+  suffixChanged: boolean;
+  treeTypeChanged: boolean;
+}
+
+/**
+ * QuickPick item with selection set metadata
+ */
+export interface SelectionSetQuickPickItem extends vscode.QuickPickItem {
+  stored?: StoredSelectionSet;
+}
+
+const STORAGE_KEY = "promptTower.selectionSets";
+const SELECTIONS_DIRECTORY = path.join(".prompttower", "selections");
+
+/**
+ * Service for saving and restoring named selection sets
+ * - Stored in workspace state, or as `.prompttower/selections/*.json` files that can be committed
+ * - Listing merges both storages and the project config presets; new sets go to
+ *   `promptTower.selectionSets.storage`
+ */
+export class SelectionSetService {
+  constructor(
+    private context: vscode.ExtensionContext,
+    private workspaceManager: WorkspaceManager,
+    private projectConfigService?: ProjectConfigService
+  ) {}
+
+  /**
+   * Storage used for newly saved sets
+   */
+  getDefaultStorage(): SelectionSetStorage {
+    return vscode.workspace
+      .getConfiguration("promptTower")
+      .get<SelectionSetStorage>("selectionSets.storage", "workspaceState");
+  }
+
+  /**
+   * List all selection sets from every storage, sorted by name
+   */
+  async list(): Promise<StoredSelectionSet[]> {
+    const stateSets = Object.values(this.getStateSets()).map((set) => ({
+      set,
+      storage: "workspaceState" as const,
+    }));
+    const fileSets = await this.readFileSets();
+
+    return [...stateSets, ...fileSets, ...this.getProjectSets()].sort((a, b) =>
+      a.set.name.localeCompare(b.set.name)
+    );
+  }
+
+  /**
+   * Find a set by name in the given storage
+   */
+  async find(
+    name: string,
+    storage: SelectionSetStorage
+  ): Promise<StoredSelectionSet | undefined> {
+    return (await this.list()).find(
+      (stored) => stored.set.name === name && stored.storage === storage
+    );
+  }
+
+  /**
+   * Save a set, replacing any set with the same name in that storage
+   */
+  async save(
+    set: SelectionSet,
+    storage: SelectionSetStorage = this.getDefaultStorage()
+  ): Promise<void> {
+    this.assertWritable(storage);
+    if (storage === "workspaceState") {
+      const sets = this.getStateSets();
+      sets[set.name] = set;
+      await this.context.workspaceState.update(STORAGE_KEY, sets);
+      return;
+    }
+
+    const directory = this.getSelectionsDirectory();
+    if (!directory) {
+      throw new Error("No workspace folder to store selection sets in.");
+    }
+
+    // Overwrite the existing file for this name, even if it was named by hand;
+    // never the file of another set whose name has the same slug
+    const existing = await this.find(set.name, "file");
+    await this.writeSetFile(
+      directory,
+      set,
+      existing?.fileName ?? (await this.getFreeFileName(directory, set.name))
+    );
+  }
+
+  /**
+   * Rename a stored set (within its storage)
+   * The renamed set is written before the old one is removed, so a failed write keeps the set
+   */
+  async rename(stored: StoredSelectionSet, newName: string): Promise<void> {
+    this.assertWritable(stored.storage);
+    const renamed = { ...stored.set, name: newName };
+    if (stored.storage === "workspaceState") {
+      const sets = this.getStateSets();
+      delete sets[stored.set.name];
+      sets[newName] = renamed;
+      await this.context.workspaceState.update(STORAGE_KEY, sets);
+      return;
+    }
+
+    const directory = this.getSelectionsDirectory();
+    if (!directory) {
+      throw new Error("No workspace folder to store selection sets in.");
+    }
+
+    const fileName = await this.getFreeFileName(directory, newName, stored.fileName);
+    await this.writeSetFile(directory, renamed, fileName);
+    if (stored.fileName && stored.fileName !== fileName) {
+      await vscode.workspace.fs.delete(vscode.Uri.joinPath(directory, stored.fileName), {
+        useTrash: false,
+      });
+    }
+  }
+
+  /**
+   * Delete a stored set
+   */
+  async delete(stored: StoredSelectionSet): Promise<void> {
+    this.assertWritable(stored.storage);
+    if (stored.storage === "workspaceState") {
+      const sets = this.getStateSets();
+      delete sets[stored.set.name];
+      await this.context.workspaceState.update(STORAGE_KEY, sets);
+      return;
+    }
+
+    const directory = this.getSelectionsDirectory();
+    if (directory) {
+      await vscode.workspace.fs.delete(
+        vscode.Uri.joinPath(directory, stored.fileName ?? `${toSlug(stored.set.name)}.json`),
+        { useTrash: false }
+      );
+    }
+  }
+
+  /**
+   * Convert absolute checked paths to workspace-relative set paths
+   */
+  toSetPaths(absolutePaths: string[]): SelectionSetPath[] {
+    const setPaths: SelectionSetPath[] = [];
+    for (const absolutePath of absolutePaths) {
+      const workspace = this.workspaceManager.getWorkspaceForPath(absolutePath);
+      if (workspace) {
+        setPaths.push({
+          workspace: workspace.name,
+          path: path.relative(workspace.rootPath, absolutePath).replace(/\\/g, "/"),
+        });
+      }
+    }
+    return setPaths;
+  }
+
+  /**
+   * Resolve set paths to absolute paths in the open workspaces
+   * Returns the paths whose workspace folder is not open separately
+   */
+  resolvePaths(setPaths: SelectionSetPath[]): {
+    absolutePaths: string[];
+    missing: SelectionSetPath[];
+  } {
+    const workspaces = new Map<string, Workspace>(
+      this.workspaceManager
+        .getWorkspaces()
+        .map((workspace) => [workspace.name, workspace])
+    );
+    const absolutePaths: string[] = [];
+    const missing: SelectionSetPath[] = [];
+
+    for (const setPath of setPaths) {
+      const workspace = workspaces.get(setPath.workspace);
+      if (workspace) {
+        absolutePaths.push(
+          setPath.path ? path.join(workspace.rootPath, setPath.path) : workspace.rootPath
+        );
+      } else {
+        missing.push(setPath);
+      }
+    }
+
+    return { absolutePaths, missing };
+  }
+
+  /**
+   * Compare two selection sets
+   */
+  static diff(base: SelectionSet, other: SelectionSet): SelectionSetDiff {
+    const pathKey = (setPath: SelectionSetPath) =>
+      `${setPath.workspace}/${setPath.path}`;
+    const basePaths = new Set(base.paths.map(pathKey));
+    const otherPaths = new Set(other.paths.map(pathKey));
+
+    return {
+      addedPaths: other.paths.filter((p) => !basePaths.has(pathKey(p))),
+      removedPaths: base.paths.filter((p) => !otherPaths.has(pathKey(p))),
+      addedIssues: other.githubIssues.filter((n) => !base.githubIssues.includes(n)),
+      removedIssues: base.githubIssues.filter((n) => !other.githubIssues.includes(n)),
+      addedPRs: other.githubPRs.filter((n) => !base.githubPRs.includes(n)),
+      removedPRs: base.githubPRs.filter((n) => !other.githubPRs.includes(n)),
+      prefixChanged: base.prefix !== other.prefix,
+      suffixChanged: base.suffix !== other.suffix,
+      treeTypeChanged: (base.treeType ?? "") !== (other.treeType ?? ""),
+    };
+  }
+
+  /**
+   * Get sets for QuickPick display, grouped by storage
+   * Read-only project presets are left out when `writableOnly` is set
+   */
+  async getQuickPickItems(writableOnly = false): Promise<SelectionSetQuickPickItem[]> {
+    const items: SelectionSetQuickPickItem[] = [];
+    const stored = await this.list();
+    const storages: SelectionSetStorage[] = writableOnly
+      ? ["workspaceState", "file"]
+      : ["workspaceState", "file", "project"];
+    const labels: Record<SelectionSetStorage, string> = {
+      workspaceState: "Workspace",
+      file: SELECTIONS_DIRECTORY,
+      project: path.basename(this.projectConfigService?.getLoaded()?.filePath ?? ""),
+    };
+
+    for (const storage of storages) {
+      const sets = stored.filter((entry) => entry.storage === storage);
+      if (sets.length === 0) {
+        continue;
+      }
+
+      items.push({
+        label: labels[storage],
+        kind: vscode.QuickPickItemKind.Separator,
+      });
+      for (const entry of sets) {
+        items.push({
+          label: entry.set.name,
+          description: this.describe(entry.set),
+          stored: entry,
+        });
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Short summary of a set's contents
+   */
+  describe(set: SelectionSet): string {
+    const parts = [`${set.paths.length} path${set.paths.length === 1 ? "" : "s"}`];
+    if (set.githubIssues.length > 0) {
+      parts.push(`${set.githubIssues.length} issue(s)`);
+    }
+    if (set.githubPRs.length > 0) {
+      parts.push(`${set.githubPRs.length} PR(s)`);
+    }
+    return parts.join(" · ");
+  }
+
+  private assertWritable(storage: SelectionSetStorage): void {
+    if (storage === "project") {
+      throw new Error(
+        "Presets from the project config file are read-only. Edit the file instead."
+      );
+    }
+  }
+
+  /**
+   * Presets of the project config file as selection sets
+   */
+  private getProjectSets(): StoredSelectionSet[] {
+    const loaded = this.projectConfigService?.getLoaded();
+    if (!loaded?.config.presets) {
+      return [];
+    }
+
+    const prompt = loaded.config.prompt;
+    return Object.entries(loaded.config.presets).map(([name, preset]) => ({
+      set: {
+        name,
+        paths: preset.paths.map((presetPath) => ({
+          workspace: loaded.workspaceName,
+          path: presetPath
+            .replace(/\\/g, "/")
+            .replace(/^(\.\/)+/, "")
+            .replace(/\/+$/, "")
+            .replace(/^\.$/, ""),
+        })),
+        githubIssues: [],
+        githubPRs: [],
+        prefix: preset.prefix ?? prompt?.prefix ?? "",
+        suffix: preset.suffix ?? prompt?.suffix ?? "",
+        treeType: preset.treeType,
+        savedAt: "",
+      },
+      storage: "project" as const,
+    }));
+  }
+
+  private getStateSets(): Record<string, SelectionSet> {
+    return {
+      ...this.context.workspaceState.get<Record<string, SelectionSet>>(
+        STORAGE_KEY,
+        {}
+      ),
+    };
+  }
+
+  private async readFileSets(): Promise<StoredSelectionSet[]> {
+    const directory = this.getSelectionsDirectory();
+    if (!directory) {
+      return [];
+    }
+
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(directory);
+    } catch {
+      return []; // No selections directory yet
+    }
+
+    const sets: StoredSelectionSet[] = [];
+    for (const [fileName, fileType] of entries) {
+      if (fileType !== vscode.FileType.File || !fileName.endsWith(".json")) {
+        continue;
+      }
+
+      try {
+        const content = await vscode.workspace.fs.readFile(
+          vscode.Uri.joinPath(directory, fileName)
+        );
+        const set = JSON.parse(Buffer.from(content).toString("utf8"));
+        sets.push({
+          set: this.normalize(set, path.basename(fileName, ".json")),
+          storage: "file",
+          fileName,
+        });
+      } catch (error) {
+        console.warn(`Skipping invalid selection set ${fileName}:`, error);
+      }
+    }
+
+    return sets;
+  }
+
+  /**
+   * Fill in missing fields of a set read from disk (files may be hand-edited)
+   */
+  private normalize(raw: unknown, fallbackName: string): SelectionSet {
+    const data = isRecord(raw) ? raw : {};
+    const text = (value: unknown): string | undefined =>
+      typeof value === "string" ? value : undefined;
+    const numbers = (value: unknown): number[] =>
+      Array.isArray(value)
+        ? value.filter((n): n is number => typeof n === "number")
+        : [];
+
+    return {
+      name: text(data.name) || fallbackName,
+      paths: Array.isArray(data.paths)
+        ? data.paths.filter(
+            (p): p is SelectionSetPath =>
+              isRecord(p) && typeof p.workspace === "string" && typeof p.path === "string"
+          )
+        : [],
+      githubIssues: numbers(data.githubIssues),
+      githubPRs: numbers(data.githubPRs),
+      prefix: text(data.prefix) ?? "",
+      suffix: text(data.suffix) ?? "",
+      treeType: text(data.treeType),
+      savedAt: text(data.savedAt) ?? "",
+    };
+  }
+
+  private getSelectionsDirectory(): vscode.Uri | undefined {
+    const primaryWorkspace = this.workspaceManager.getPrimaryWorkspace();
+    return primaryWorkspace
+      ? vscode.Uri.file(path.join(primaryWorkspace.rootPath, SELECTIONS_DIRECTORY))
+      : undefined;
+  }
+
+  private async writeSetFile(
+    directory: vscode.Uri,
+    set: SelectionSet,
+    fileName: string
+  ): Promise<void> {
+    await vscode.workspace.fs.createDirectory(directory);
+    await vscode.workspace.fs.writeFile(
+      vscode.Uri.joinPath(directory, fileName),
+      Buffer.from(JSON.stringify(set, null, 2) + "\n", "utf8")
+    );
+  }
+
+  /**
+   * File name for a new set: its slug, with `-2`, `-3`... when another file already has it
+   * Names are compared case-insensitively for case-insensitive file systems; `reusable`
+   * (the file of the set being renamed) counts as free
+   */
+  private async getFreeFileName(
+    directory: vscode.Uri,
+    name: string,
+    reusable?: string
+  ): Promise<string> {
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(directory);
+    } catch {
+      // No selections directory yet
+    }
+    const taken = new Set(
+      entries
+        .map(([fileName]) => fileName.toLowerCase())
+        .filter((fileName) => fileName !== reusable?.toLowerCase())
+    );
+
+    const slug = toSlug(name);
+    let fileName = `${slug}.json`;
+    for (let suffix = 2; taken.has(fileName.toLowerCase()); suffix++) {
+      fileName = `${slug}-${suffix}.json`;
+    }
+    return fileName;
+  }
+}
+
+/**
+ * File name stem for a set name: lowercase letters and digits of any script, joined by dashes
+ */
+function toSlug(name: string): string {
+  return (
+    name
+      .normalize("NFC")
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "selection"
+  );
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,145 @@
+import * as vscode from "vscode";
+import { FileSymbol } from "../models/FileNode";
+import { LineRange, mergeLineRanges } from "../utils/lineRanges";
+
+/** Symbols whose members can be selected one by one */
+const CONTAINER_KINDS = new Set([
+  vscode.SymbolKind.Module,
+  vscode.SymbolKind.Namespace,
+  vscode.SymbolKind.Package,
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Struct,
+]);
+
+/**
+ * Service that lists the symbols of files and remembers which of them are selected
+ * - Symbols come from `vscode.executeDocumentSymbolProvider`, so any language with a symbol provider works
+ * - Selections are stored by symbol key and resolved to line ranges again when the context is generated
+ */
+export class SymbolSelectionService {
+  /** Selected symbol keys by file path, for files that are not selected as a whole */
+  private selections = new Map<string, Set<string>>();
+
+  /**
+   * Whether files can be expanded into their symbols (`promptTower.symbolSelection.enabled`)
+   */
+  isEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration("promptTower")
+      .get<boolean>("symbolSelection.enabled", true);
+  }
+
+  /**
+   * Symbols of a file as a tree; empty when the language has no symbol provider
+   */
+  async getSymbols(absolutePath: string): Promise<FileSymbol[]> {
+    try {
+      const symbols = await vscode.commands.executeCommand<
+        Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined
+      >("vscode.executeDocumentSymbolProvider", vscode.Uri.file(absolutePath));
+      return this.toFileSymbols(symbols ?? [], "");
+    } catch (error) {
+      console.warn(`Error getting symbols of ${absolutePath}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Selected symbol keys of a file
+   */
+  getSelection(absolutePath: string): ReadonlySet<string> | undefined {
+    return this.selections.get(absolutePath);
+  }
+
+  /**
+   * Files that have selected symbols
+   */
+  getSelectedPaths(): string[] {
+    return Array.from(this.selections.keys());
+  }
+
+  /**
+   * Replace the selected symbols of a file; an empty list clears them
+   */
+  setSelection(absolutePath: string, keys: string[]): void {
+    if (keys.length > 0) {
+      this.selections.set(absolutePath, new Set(keys));
+    } else {
+      this.selections.delete(absolutePath);
+    }
+  }
+
+  /**
+   * Forget the selected symbols of the given files, or of all files
+   */
+  clearSelection(absolutePaths?: string[]): void {
+    if (!absolutePaths) {
+      this.selections.clear();
+      return;
+    }
+    absolutePaths.forEach((absolutePath) => this.selections.delete(absolutePath));
+  }
+
+  /**
+   * Line ranges of the selected symbols as the file is now
+   * Empty when none of the selected symbols exist anymore
+   */
+  async getSelectedRanges(absolutePath: string): Promise<LineRange[]> {
+    const keys = this.selections.get(absolutePath);
+    if (!keys) {
+      return [];
+    }
+
+    const ranges: LineRange[] = [];
+    const collect = (symbols: FileSymbol[]) => {
+      for (const symbol of symbols) {
+        if (keys.has(symbol.key)) {
+          ranges.push({ startLine: symbol.startLine, endLine: symbol.endLine });
+        } else {
+          collect(symbol.children);
+        }
+      }
+    };
+    collect(await this.getSymbols(absolutePath));
+
+    return mergeLineRanges(ranges);
+  }
+
+  /**
+   * Convert provider results; `SymbolInformation` lists are flat and stay flat
+   */
+  private toFileSymbols(
+    symbols: Array<vscode.DocumentSymbol | vscode.SymbolInformation>,
+    parentKey: string
+  ): FileSymbol[] {
+    const keyCounts = new Map<string, number>();
+
+    return symbols
+      .map((symbol) => {
+        const range = "location" in symbol ? symbol.location.range : symbol.range;
+        const container =
+          "containerName" in symbol && symbol.containerName ? `${symbol.containerName}/` : "";
+
+        // Overloads and redeclarations share a name; number the repeats
+        let key = `${parentKey}${container}${symbol.name}`;
+        const count = (keyCounts.get(key) ?? 0) + 1;
+        keyCounts.set(key, count);
+        if (count > 1) {
+          key += `#${count}`;
+        }
+
+        return {
+          key,
+          name: symbol.name,
+          kind: symbol.kind,
+          startLine: range.start.line + 1,
+          endLine: range.end.line + 1,
+          children:
+            "children" in symbol && CONTAINER_KINDS.has(symbol.kind)
+              ? this.toFileSymbols(symbol.children, `${key}/`)
+              : [],
+        };
+      })
+      .sort((a, b) => a.startLine - b.startLine);
+  }
+}
@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+
+/**
+ * A cached token count, valid while the file's mtime and size are unchanged
+ */
+interface TokenCacheEntry {
+  mtimeMs: number;
+  size: number;
+  tokens: number;
+}
+
+const STORAGE_KEY = "promptTower.tokenCache";
+const MAX_ENTRIES = 50000;
+
+/**
+ * Persistent per-file token count cache
+ * - Keyed by tokenizer + absolute path, validated by mtime and size
+ * - Stored in workspace state so hits survive restarts
+ * - Least recently used entries are evicted beyond MAX_ENTRIES
+ */
+export class TokenCacheService {
+  private entries: Map<string, TokenCacheEntry>;
+  private isDirty = false;
+
+  constructor(private storage: vscode.Memento) {
+    this.entries = new Map(
+      Object.entries(storage.get<Record<string, TokenCacheEntry>>(STORAGE_KEY, {}))
+    );
+  }
+
+  /**
+   * Get the cached token count for a file, if its mtime and size still match
+   */
+  get(
+    filePath: string,
+    stats: { mtimeMs: number; size: number },
+    tokenizerId: string
+  ): number | undefined {
+    const key = this.getKey(filePath, tokenizerId);
+    const entry = this.entries.get(key);
+    if (!entry || entry.mtimeMs !== stats.mtimeMs || entry.size !== stats.size) {
+      return undefined;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.tokens;
+  }
+
+  /**
+   * Store the token count for a file
+   */
+  set(
+    filePath: string,
+    stats: { mtimeMs: number; size: number },
+    tokenizerId: string,
+    tokens: number
+  ): void {
+    const key = this.getKey(filePath, tokenizerId);
+    this.entries.delete(key);
+    this.entries.set(key, { mtimeMs: stats.mtimeMs, size: stats.size, tokens });
+    this.isDirty = true;
+
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Persist pending changes to workspace state
+   */
+  async save(): Promise<void> {
+    if (!this.isDirty) {
+      return;
+    }
+
+    this.isDirty = false;
+    try {
+      await this.storage.update(STORAGE_KEY, Object.fromEntries(this.entries));
+    } catch (error) {
+      console.error("Failed to save token cache:", error);
+    }
+  }
+
+  /**
+   * Remove all cached counts
+   */
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.isDirty = true;
+    await this.save();
+  }
+
+  private getKey(filePath: string, tokenizerId: string): string {
+    return `${tokenizerId}:${filePath}`;
+  }
+}
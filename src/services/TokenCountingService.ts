@@ -1,8 +1,23 @@
 import * as fs from "fs";
 import * as vscode from "vscode";
-import { encode } from "gpt-tokenizer";
 import { FileNode, FileNodeUtils } from "../models/FileNode";
 import { TokenUpdatePayload } from "../models/Events";
+import { Tokenizer, getTokenizer } from "../utils/tokenizers";
+import { TokenCacheService } from "./TokenCacheService";
+import { FileSniffService } from "./FileSniffService";
+import { FileEncodingService } from "./FileEncodingService";
+import { SymbolSelectionService } from "./SymbolSelectionService";
+import { RenderModeService } from "./RenderModeService";
+import { decodeText } from "../utils/encoding";
+import { extractLineRanges } from "../utils/lineRanges";
+import {
+  TokenizationCancelledError,
+  TokenizerWorkerError,
+  TokenizerWorkerPool,
+} from "./TokenizerWorkerPool";
+
+/** Minimum time between progress updates sent to listeners */
+const PROGRESS_INTERVAL_MS = 100;
 
 /**
  * Service for counting tokens in files with async/cancellation support
@@ -12,19 +27,85 @@ export class TokenCountingService {
   readonly onDidChangeTokens = this._onDidChangeTokens.event;
   
   private totalFileTokens: number = 0;
+  private fileTokenCounts = new Map<string, number>();
   private githubIssueTokens: number = 0;
+  private snippetTokens: number = 0;
+  private snippetTexts: string[] = [];
   private isCountingTokens: boolean = false;
   private isCountingGitHubIssues: boolean = false;
   private currentCalculationVersion = 0;
   private debounceTimeout: NodeJS.Timeout | null = null;
+  private progress?: { processed: number; total: number };
+  private lastProgressNotification = 0;
+  private tokenizer: Tokenizer = TokenCountingService.getConfiguredTokenizer();
+  private configurationListener: vscode.Disposable;
+  private fileSniffService?: FileSniffService;
+  private fileEncodingService?: FileEncodingService;
+  private symbolSelectionService?: SymbolSelectionService;
+  private renderModeService?: RenderModeService;
+  
+  constructor(
+    private tokenCache?: TokenCacheService,
+    private workerPool?: TokenizerWorkerPool
+  ) {
+    // Counts are recalculated by the tree provider, which refreshes on any promptTower setting change
+    this.configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration("promptTower.tokenizer")) {
+        this.tokenizer = TokenCountingService.getConfiguredTokenizer();
+        this.setSnippetTexts(this.snippetTexts);
+      }
+    });
+  }
+  
+  /**
+   * Get the tokenizer selected in the promptTower.tokenizer setting
+   */
+  static getConfiguredTokenizer(): Tokenizer {
+    return getTokenizer(
+      vscode.workspace.getConfiguration("promptTower").get<string>("tokenizer")
+    );
+  }
+  
+  /**
+   * Set the service whose placeholders stand in for binary, minified and generated files
+   */
+  setFileSniffService(service: FileSniffService): void {
+    this.fileSniffService = service;
+  }
+  
+  /**
+   * Set the service that resolves the configured encoding of files
+   */
+  setFileEncodingService(service: FileEncodingService): void {
+    this.fileEncodingService = service;
+  }
+  
+  /**
+   * Set the service that resolves checked symbols to line ranges
+   */
+  setSymbolSelectionService(service: SymbolSelectionService): void {
+    this.symbolSelectionService = service;
+  }
   
-  constructor() {}
+  /**
+   * Set the service that decides which files are rendered as outlines
+   */
+  setRenderModeService(service: RenderModeService): void {
+    this.renderModeService = service;
+  }
+  
+  /**
+   * Get the tokenizer used for counting
+   */
+  getTokenizer(): Tokenizer {
+    return this.tokenizer;
+  }
   
   /**
    * Get current token count
    */
   getCurrentTokenCount(): number {
-    return this.totalFileTokens + this.githubIssueTokens;
+    return this.totalFileTokens + this.githubIssueTokens + this.snippetTokens;
   }
   
   /**
@@ -34,6 +115,13 @@ export class TokenCountingService {
     return this.totalFileTokens;
   }
   
+  /**
+   * Get the token count of a file from the latest calculation (checked files only)
+   */
+  getTokensForFile(absolutePath: string): number | undefined {
+    return this.fileTokenCounts.get(absolutePath);
+  }
+  
   /**
    * Get GitHub issue token count only
    */
@@ -57,6 +145,15 @@ export class TokenCountingService {
     this.notifyTokenUpdate();
   }
   
+  /**
+   * Update the snippets included in the context; they are counted right away
+   */
+  setSnippetTexts(texts: string[]): void {
+    this.snippetTexts = texts;
+    this.snippetTokens = texts.reduce((total, text) => total + this.tokenizer.countTokens(text), 0);
+    this.notifyTokenUpdate();
+  }
+  
   /**
    * Count tokens for an array of file nodes (debounced)
    */
@@ -68,6 +165,7 @@ export class TokenCountingService {
     
     // Invalidate any ongoing calculation
     this.currentCalculationVersion++;
+    this.workerPool?.cancelPending();
     
     // Set new timeout
     this.debounceTimeout = setTimeout(() => {
@@ -81,8 +179,8 @@ export class TokenCountingService {
   async updateTokenCount(fileNodes: FileNode[]): Promise<void> {
     const calculationVersion = this.currentCalculationVersion;
     
-    // Get checked files from all workspaces
-    const checkedFiles = FileNodeUtils.getCheckedFiles(fileNodes);
+    // Get checked files (and files with checked symbols) from all workspaces
+    const checkedFiles = FileNodeUtils.getSelectedFiles(fileNodes);
     
     // Handle no files selected
     if (checkedFiles.length === 0) {
@@ -91,6 +189,7 @@ export class TokenCountingService {
       }
       
       this.totalFileTokens = 0;
+      this.fileTokenCounts.clear();
       this.isCountingTokens = false;
       this.notifyTokenUpdate();
       console.log(`Token count reset to 0 (Version ${calculationVersion} - no files selected).`);
@@ -98,47 +197,107 @@ export class TokenCountingService {
     }
     
     // Start counting
-    console.log(`Token counting started (Version ${calculationVersion}) for ${checkedFiles.length} files.`);
+    const tokenizer = this.tokenizer;
+    console.log(`Token counting started (Version ${calculationVersion}, ${tokenizer.id}) for ${checkedFiles.length} files.`);
     this.isCountingTokens = true;
     this.notifyTokenUpdate();
     
     let runningTokenCount = 0;
     let filesProcessed = 0;
+    let cacheHits = 0;
+    let nextFileIndex = 0;
+    const fileTokenCounts = new Map<string, number>();
+    const isCancelled = () => calculationVersion !== this.currentCalculationVersion;
+    const useWorkers = this.workerPool?.isAvailable() ?? false;
     
-    try {
-      for (const fileNode of checkedFiles) {
-        // Cancellation check
-        if (calculationVersion !== this.currentCalculationVersion) {
-          console.log(`Token counting cancelled (Version ${calculationVersion}). Newer version exists.`);
-          return;
-        }
+    this.progress = { processed: 0, total: checkedFiles.length };
+    
+    // Each lane takes the next file until none are left; several lanes keep the worker pool busy
+    const countNextFiles = async (): Promise<void> => {
+      while (nextFileIndex < checkedFiles.length && !isCancelled()) {
+        const fileNode = checkedFiles[nextFileIndex++];
         
         try {
-          // Double-check file existence
-          if (!fs.existsSync(fileNode.absolutePath)) {
-            console.warn(`Skipping token count for non-existent file: ${fileNode.absolutePath}`);
-            continue;
-          }
+          // Stat doubles as an existence check (ENOENT is handled below)
+          const stats = await fs.promises.stat(fileNode.absolutePath);
+          
+          // Files left out of the context only count as their placeholder
+          const placeholder = await this.fileSniffService?.getPlaceholder(
+            fileNode.absolutePath,
+            stats
+          );
           
-          const content = await fs.promises.readFile(fileNode.absolutePath, "utf-8");
-          const tokens = encode(content);
-          runningTokenCount += tokens.length;
-          filesProcessed++;
+          // Files with checked symbols only count those symbols
+          const symbolRanges =
+            placeholder === undefined && !fileNode.isChecked && this.symbolSelectionService
+              ? await this.symbolSelectionService.getSelectedRanges(fileNode.absolutePath)
+              : [];
           
-          // Yield for responsiveness every 50 files
-          if (filesProcessed % 50 === 0) {
-            await new Promise((resolve) => setImmediate(resolve));
+          // Files rendered as outlines count their outline
+          const outlined =
+            placeholder === undefined &&
+            fileNode.isChecked &&
+            this.renderModeService?.getMode(fileNode.absolutePath) === "outline";
+          
+          let tokens: number | undefined;
+          if (placeholder !== undefined) {
+            tokens = tokenizer.countTokens(placeholder);
+          } else if (symbolRanges.length > 0 || outlined) {
+            const encoding = this.fileEncodingService?.getConfiguredEncoding(fileNode.absolutePath);
+            let { text } = decodeText(await fs.promises.readFile(fileNode.absolutePath), encoding);
+            if (symbolRanges.length > 0) {
+              text = extractLineRanges(text, symbolRanges);
+            } else {
+              text =
+                (await this.renderModeService!.getOutline(
+                  fileNode.absolutePath,
+                  text,
+                  fileNode.extension
+                )) ?? text;
+            }
+            tokens = tokenizer.countTokens(text);
+          } else {
+            // Counts depend on how the file is decoded
+            const encoding = this.fileEncodingService?.getConfiguredEncoding(fileNode.absolutePath);
+            const cacheKey = encoding ? `${tokenizer.id}:${encoding}` : tokenizer.id;
             
-            // Check for cancellation after yielding
-            if (calculationVersion !== this.currentCalculationVersion) {
-              console.log(`Token counting cancelled during yield (Version ${calculationVersion}).`);
-              return;
+            tokens = this.tokenCache?.get(fileNode.absolutePath, stats, cacheKey);
+            if (tokens === undefined) {
+              tokens = await this.countFileTokens(
+                fileNode.absolutePath,
+                tokenizer,
+                useWorkers,
+                encoding
+              );
+              this.tokenCache?.set(fileNode.absolutePath, stats, cacheKey, tokens);
+            } else {
+              cacheHits++;
             }
           }
+          
+          fileTokenCounts.set(fileNode.absolutePath, tokens);
+          runningTokenCount += tokens;
         } catch (err: any) {
-          this.handleTokenCountingError(err, fileNode.absolutePath);
+          if (!(err instanceof TokenizationCancelledError) && !isCancelled()) {
+            this.handleTokenCountingError(err, fileNode.absolutePath);
+          }
+        }
+        
+        filesProcessed++;
+        if (!isCancelled()) {
+          this.reportProgress(filesProcessed, checkedFiles.length);
+        }
+        
+        // Yield for responsiveness every 50 files when counting on the main thread
+        if (!useWorkers && filesProcessed % 50 === 0) {
+          await new Promise((resolve) => setImmediate(resolve));
         }
       }
+    };
+    
+    try {
+      const lanes = useWorkers ? this.workerPool!.size * 2 : 1;
+      await Promise.all(Array.from({ length: lanes }, () => countNextFiles()));
       
       // Final cancellation check
       if (calculationVersion !== this.currentCalculationVersion) {
@@ -148,8 +307,12 @@ export class TokenCountingService {
       
       // Update final state
       this.totalFileTokens = runningTokenCount;
+      this.fileTokenCounts = fileTokenCounts;
       this.isCountingTokens = false;
-      console.log(`Token counting finished (Version ${calculationVersion}). Total tokens: ${this.totalFileTokens}`);
+      this.progress = undefined;
+      console.log(`Token counting finished (Version ${calculationVersion}). Total tokens: ${this.totalFileTokens} (${cacheHits}/${filesProcessed} cached)`);
+      
+      await this.tokenCache?.save();
       
     } catch (error) {
       console.error("Unexpected error during token counting process:", error);
@@ -162,11 +325,49 @@ export class TokenCountingService {
       // Notify UI only if this calculation is still the latest
       if (calculationVersion === this.currentCalculationVersion) {
         this.isCountingTokens = false;
+        this.progress = undefined;
         this.notifyTokenUpdate();
       }
     }
   }
   
+  /**
+   * Count tokens for a file, in a worker thread when available
+   */
+  private async countFileTokens(
+    filePath: string,
+    tokenizer: Tokenizer,
+    useWorkers: boolean,
+    encoding?: string
+  ): Promise<number> {
+    if (useWorkers && this.workerPool?.isAvailable()) {
+      try {
+        return await this.workerPool.countFileTokens(filePath, tokenizer.id, encoding);
+      } catch (error) {
+        // Fall back to the main thread if the worker itself failed
+        if (!(error instanceof TokenizerWorkerError)) {
+          throw error;
+        }
+      }
+    }
+    
+    const { text } = decodeText(await fs.promises.readFile(filePath), encoding);
+    return tokenizer.countTokens(text);
+  }
+  
+  /**
+   * Notify listeners of counting progress, at most every PROGRESS_INTERVAL_MS
+   */
+  private reportProgress(processed: number, total: number): void {
+    this.progress = { processed, total };
+    
+    const now = Date.now();
+    if (now - this.lastProgressNotification >= PROGRESS_INTERVAL_MS) {
+      this.lastProgressNotification = now;
+      this.notifyTokenUpdate();
+    }
+  }
+  
   /**
    * Count tokens for a specific set of file paths (synchronous for small sets)
    */
@@ -179,9 +380,16 @@ export class TokenCountingService {
           continue;
         }
         
-        const content = await fs.promises.readFile(filePath, "utf-8");
-        const tokens = encode(content);
-        totalTokens += tokens.length;
+        const stats = await fs.promises.stat(filePath);
+        const encoding = this.fileEncodingService?.getConfiguredEncoding(filePath);
+        const cacheKey = encoding ? `${this.tokenizer.id}:${encoding}` : this.tokenizer.id;
+        
+        let tokens = this.tokenCache?.get(filePath, stats, cacheKey);
+        if (tokens === undefined) {
+          tokens = await this.countFileTokens(filePath, this.tokenizer, false, encoding);
+          this.tokenCache?.set(filePath, stats, cacheKey, tokens);
+        }
+        totalTokens += tokens;
       } catch (error) {
         console.warn(`Error counting tokens for file ${filePath}:`, error);
       }
@@ -195,8 +403,7 @@ export class TokenCountingService {
    */
   countTokensForText(text: string): number {
     try {
-      const tokens = encode(text);
-      return tokens.length;
+      return this.tokenizer.countTokens(text);
     } catch (error) {
       console.error("Error counting tokens for text:", error);
       return 0;
@@ -208,7 +415,10 @@ export class TokenCountingService {
    */
   resetTokenCount(): void {
     this.currentCalculationVersion++;
+    this.workerPool?.cancelPending();
+    this.progress = undefined;
     this.totalFileTokens = 0;
+    this.fileTokenCounts.clear();
     this.githubIssueTokens = 0;
     this.isCountingTokens = false;
     this.isCountingGitHubIssues = false;
@@ -234,10 +444,13 @@ export class TokenCountingService {
    */
   private notifyTokenUpdate(): void {
     const payload: TokenUpdatePayload = {
-      count: this.totalFileTokens + this.githubIssueTokens,
+      count: this.totalFileTokens + this.githubIssueTokens + this.snippetTokens,
       isCounting: this.isCountingTokens || this.isCountingGitHubIssues,
       fileTokens: this.totalFileTokens,
-      issueTokens: this.githubIssueTokens
+      issueTokens: this.githubIssueTokens,
+      snippetTokens: this.snippetTokens,
+      tokenizer: this.tokenizer.id,
+      progress: this.isCountingTokens ? this.progress : undefined
     };
     
     this._onDidChangeTokens.fire(payload);
@@ -253,6 +466,8 @@ export class TokenCountingService {
     }
     
     this.currentCalculationVersion++;
+    this.workerPool?.dispose();
+    this.configurationListener.dispose();
     this._onDidChangeTokens.dispose();
   }
 }
\ No newline at end of file
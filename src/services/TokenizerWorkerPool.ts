@@ -0,0 +1,221 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import type {
+  TokenizeRequest,
+  TokenizeResponse,
+} from "../workers/tokenizeWorker";
+
+/**
+ * Raised for queued requests dropped by cancelPending()
+ */
+export class TokenizationCancelledError extends Error {
+  constructor() {
+    super("Tokenization cancelled");
+    this.name = "TokenizationCancelledError";
+  }
+}
+
+/**
+ * Raised when a request could not be handled by a worker (as opposed to a file error)
+ */
+export class TokenizerWorkerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenizerWorkerError";
+  }
+}
+
+interface PendingTask {
+  request: TokenizeRequest;
+  resolve: (tokens: number) => void;
+  reject: (error: Error) => void;
+}
+
+/** Terminate workers after this long without work to release their memory */
+const IDLE_TIMEOUT_MS = 30000;
+
+/**
+ * Pool of worker threads that read and tokenize files off the extension host thread
+ * - Workers are spawned lazily up to `size` and terminated when idle
+ * - If a worker fails, the pool disables itself and callers fall back to the main thread
+ */
+export class TokenizerWorkerPool {
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private activeTasks = new Map<Worker, PendingTask>();
+  private queue: PendingTask[] = [];
+  private nextRequestId = 0;
+  private isDisabled = false;
+  private idleTimeout: NodeJS.Timeout | null = null;
+
+  constructor(
+    private workerScript: string = path.join(__dirname, "tokenizeWorker.js"),
+    readonly size: number = Math.max(1, Math.min(4, os.cpus().length - 1))
+  ) {}
+
+  /**
+   * Whether files can be tokenized in worker threads
+   */
+  isAvailable(): boolean {
+    return !this.isDisabled && fs.existsSync(this.workerScript);
+  }
+
+  /**
+   * Read a file and count its tokens in a worker thread
+   * `encoding` is the encoding configured for the file; it is detected when omitted
+   */
+  countFileTokens(filePath: string, tokenizerId: string, encoding?: string): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      this.queue.push({
+        request: { id: this.nextRequestId++, filePath, tokenizerId, encoding },
+        resolve,
+        reject,
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Reject all requests that have not been sent to a worker yet
+   */
+  cancelPending(): void {
+    const pending = this.queue;
+    this.queue = [];
+    for (const task of pending) {
+      task.reject(new TokenizationCancelledError());
+    }
+    this.scheduleIdleShutdown();
+  }
+
+  /**
+   * Send queued requests to idle workers, spawning workers as needed
+   */
+  private dispatch(): void {
+    if (this.idleTimeout) {
+      clearTimeout(this.idleTimeout);
+      this.idleTimeout = null;
+    }
+
+    while (this.queue.length > 0) {
+      const worker = this.idleWorkers.pop() ?? this.spawnWorker();
+      if (!worker) {
+        break;
+      }
+
+      const task = this.queue.shift()!;
+      this.activeTasks.set(worker, task);
+      worker.postMessage(task.request);
+    }
+
+    this.scheduleIdleShutdown();
+  }
+
+  private spawnWorker(): Worker | undefined {
+    if (this.isDisabled || this.workers.length >= this.size) {
+      return undefined;
+    }
+
+    let worker: Worker;
+    try {
+      worker = new Worker(this.workerScript);
+    } catch (error) {
+      this.disable(error);
+      return undefined;
+    }
+
+    worker.on("message", (response: TokenizeResponse) => {
+      const task = this.activeTasks.get(worker);
+      this.activeTasks.delete(worker);
+      this.idleWorkers.push(worker);
+
+      if (task) {
+        if ("tokens" in response) {
+          task.resolve(response.tokens);
+        } else if (response.code === "EUNKNOWNTOKENIZER") {
+          task.reject(new TokenizerWorkerError(response.error));
+        } else {
+          task.reject(Object.assign(new Error(response.error), { code: response.code }));
+        }
+      }
+
+      this.dispatch();
+    });
+
+    worker.on("error", (error) => {
+      this.disable(error);
+    });
+
+    worker.on("exit", () => {
+      this.removeWorker(worker, new TokenizerWorkerError("Tokenizer worker exited"));
+    });
+
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private removeWorker(worker: Worker, error: Error): void {
+    this.workers = this.workers.filter((candidate) => candidate !== worker);
+    this.idleWorkers = this.idleWorkers.filter((candidate) => candidate !== worker);
+
+    const task = this.activeTasks.get(worker);
+    this.activeTasks.delete(worker);
+    task?.reject(error);
+  }
+
+  /**
+   * Stop using workers after a failure; pending requests are rejected so callers can fall back
+   */
+  private disable(error: unknown): void {
+    console.error("Tokenizer worker failed, counting tokens on the main thread:", error);
+    this.isDisabled = true;
+
+    const message = error instanceof Error ? error.message : String(error);
+    for (const task of this.queue) {
+      task.reject(new TokenizerWorkerError(message));
+    }
+    this.queue = [];
+    this.terminateAll(new TokenizerWorkerError(message));
+  }
+
+  private scheduleIdleShutdown(): void {
+    if (
+      this.idleTimeout ||
+      this.workers.length === 0 ||
+      this.activeTasks.size > 0 ||
+      this.queue.length > 0
+    ) {
+      return;
+    }
+
+    this.idleTimeout = setTimeout(() => {
+      this.idleTimeout = null;
+      if (this.activeTasks.size === 0 && this.queue.length === 0) {
+        this.terminateAll(new TokenizerWorkerError("Tokenizer workers shut down"));
+      }
+    }, IDLE_TIMEOUT_MS);
+  }
+
+  private terminateAll(error: Error): void {
+    const workers = this.workers;
+    for (const worker of workers) {
+      this.removeWorker(worker, error);
+      worker.removeAllListeners();
+      void worker.terminate();
+    }
+  }
+
+  /**
+   * Terminate all workers and reject outstanding requests
+   */
+  dispose(): void {
+    this.cancelPending();
+    this.terminateAll(new TokenizationCancelledError());
+
+    if (this.idleTimeout) {
+      clearTimeout(this.idleTimeout);
+      this.idleTimeout = null;
+    }
+  }
+}
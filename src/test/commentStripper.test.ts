@@ -0,0 +1,145 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  maskLiterals,
+  stripComments,
+  stripCommentsToLines,
+  supportsCommentStripping,
+} from "../utils/commentStripper";
+
+describe("stripComments", () => {
+  it("removes line and block comments and drops comment-only lines", () => {
+    const source = "// header\nconst a = 1; // trailing\n/* block\n   spanning */\nconst b = 2;";
+    assert.equal(stripComments(source, "ts"), "const a = 1;\nconst b = 2;");
+  });
+
+  it("keeps comment markers inside string and template literals", () => {
+    const source = [
+      'const url = "http://example.com"; // c',
+      "const glob = '/* not a comment */';",
+      "const tpl = `// ${value /* inner */} still text`;",
+    ].join("\n");
+    assert.equal(
+      stripComments(source, "ts"),
+      [
+        'const url = "http://example.com";',
+        "const glob = '/* not a comment */';",
+        "const tpl = `// ${value } still text`;",
+      ].join("\n")
+    );
+  });
+
+  it("keeps regex literals that contain slashes", () => {
+    assert.equal(stripComments("const re = /\\/\\//g; // c", "js"), "const re = /\\/\\//g;");
+    assert.equal(stripComments("return /[/]*/.test(s); // c", "js"), "return /[/]*/.test(s);");
+    assert.equal(stripComments("const f = x => /a\\/\\/b/.test(x); // c", "ts"), "const f = x => /a\\/\\/b/.test(x);");
+    assert.equal(
+      stripComments("if (a) { b(); }\n/ab//.test(s); // c", "ts"),
+      "if (a) { b(); }\n/ab//.test(s);"
+    );
+  });
+
+  it("treats a slash after an operand as division", () => {
+    assert.equal(stripComments("let x = a / b; // c", "ts"), "let x = a / b;");
+    assert.equal(stripComments("let x = a++ / 2 // c", "ts"), "let x = a++ / 2");
+    assert.equal(stripComments("let y = i-- / 4; // c", "js"), "let y = i-- / 4;");
+    assert.equal(stripComments("const o = { a: 1 } / 2; // c", "ts"), "const o = { a: 1 } / 2;");
+    assert.equal(stripComments("const t = f(x) / 2; // c", "ts"), "const t = f(x) / 2;");
+  });
+
+  it("leaves files in unsupported languages unchanged", () => {
+    assert.equal(supportsCommentStripping("md"), false);
+    assert.equal(stripComments("# heading // not a comment", "md"), "# heading // not a comment");
+  });
+
+  it("handles the string syntax of other C-family languages", () => {
+    assert.equal(stripComments('s := `raw // text` // c', "go"), "s := `raw // text`");
+    assert.equal(stripComments('let s = r#"a // b"#; // c', "rs"), 'let s = r#"a // b"#;');
+    assert.equal(stripComments("/* outer /* nested */ still */ fn f() {}", "rs"), " fn f() {}");
+    assert.equal(stripComments('auto s = R"(a // b)"; // c', "cpp"), 'auto s = R"(a // b)";');
+    assert.equal(stripComments('var s = @"C:\\dir\\"" // c";', "cs"), 'var s = @"C:\\dir\\"" // c";');
+    assert.equal(stripComments("a { background: url(http://x/y.png); } // c", "scss"), "a { background: url(http://x/y.png); }");
+  });
+
+  it("strips hash comments but not inside strings", () => {
+    assert.equal(
+      stripComments('x = "# not a comment"  # comment\n# full line\ny = 1', "py"),
+      'x = "# not a comment"\ny = 1'
+    );
+    assert.equal(stripComments('s = """\n# inside\n"""', "py"), 's = """\n# inside\n"""');
+    assert.equal(stripComments("echo a#b # comment", "sh"), "echo a#b");
+  });
+
+  it("strips YAML and HTML comments", () => {
+    assert.equal(stripComments("key: 'a # b' # c\n# full\nother: 1", "yaml"), "key: 'a # b'\nother: 1");
+    assert.equal(stripComments("<p>a</p><!-- c -->\n<!--\nmulti\n-->\n<b/>", "html"), "<p>a</p>\n<b/>");
+  });
+});
+
+describe("stripComments options", () => {
+  const header = "// Copyright 2024 Example Corp\n// SPDX-License-Identifier: MIT\n";
+
+  it("keeps a leading license header", () => {
+    const source = `${header}// note\nconst a = 1; // c`;
+    assert.equal(
+      stripComments(source, "ts", { keepLicenseHeader: true }),
+      `${header}// note\nconst a = 1;`
+    );
+  });
+
+  it("ends the license header at a blank line", () => {
+    const source = `${header}\n// TODO: not part of the license\nconst a = 1;`;
+    assert.equal(
+      stripComments(source, "ts", { keepLicenseHeader: true }),
+      `${header}\nconst a = 1;`
+    );
+  });
+
+  it("allows a shebang line and blank lines before the header", () => {
+    const source = "#!/usr/bin/env node\n\n/* Copyright X */\n\n// other\ncode();";
+    assert.equal(
+      stripComments(source, "js", { keepLicenseHeader: true }),
+      "#!/usr/bin/env node\n\n/* Copyright X */\n\ncode();"
+    );
+  });
+
+  it("removes a leading comment that is not a license", () => {
+    assert.equal(
+      stripComments("// Utilities\nconst a = 1;", "ts", { keepLicenseHeader: true }),
+      "const a = 1;"
+    );
+  });
+
+  it("keeps documentation comments when asked", () => {
+    const source = "/** Adds numbers */\nfunction add() {} // c\n/* plain */\n/// rust doc\n//// not doc";
+    assert.equal(
+      stripComments(source, "ts", { keepDocComments: true }),
+      "/** Adds numbers */\nfunction add() {}\n/// rust doc"
+    );
+  });
+});
+
+describe("stripCommentsToLines", () => {
+  it("reports the original line number of every surviving line", () => {
+    const lines = stripCommentsToLines("// a\nconst x = 1;\n/* b\n c */\n\nconst y = 2;", "ts");
+    assert.deepEqual(lines, [
+      { lineNumber: 2, text: "const x = 1;" },
+      { lineNumber: 5, text: "" },
+      { lineNumber: 6, text: "const y = 2;" },
+    ]);
+  });
+});
+
+describe("maskLiterals", () => {
+  it("blanks literals across lines, keeping newlines and columns", () => {
+    const source = 'const a = "{";\nconst t = `\n{\n`;\nconst r = /}/;';
+    const masked = maskLiterals(source, "ts");
+    assert.equal(masked.length, source.length);
+    assert.equal(masked.split("\n").length, source.split("\n").length);
+    assert.ok(!/[{}]/.test(masked));
+  });
+
+  it("leaves interpolated code unmasked", () => {
+    assert.equal(maskLiterals("`a${ {b:1}.b }c`", "ts"), "     {b:1}.b    ");
+  });
+});
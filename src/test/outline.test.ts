@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  generateOutline,
+  generateOutlineLines,
+  generateSymbolOutline,
+  supportsOutline,
+} from "../utils/outline";
+
+describe("generateOutline for brace languages", () => {
+  it("keeps type alias members", () => {
+    const source = "type T = {\n  a: 1;\n  b: string;\n};";
+    assert.equal(generateOutline(source, "ts"), source);
+    const exported = "export type Options = Base & {\n  flag?: boolean;\n};";
+    assert.equal(generateOutline(exported, "ts"), exported);
+    const brokenLine = "type Point =\n{\n  x: number;\n};";
+    assert.equal(generateOutline(brokenLine, "ts"), brokenLine);
+  });
+
+  it("keeps interface and class members but collapses method bodies", () => {
+    const source = [
+      "export interface Shape {",
+      "  area(): number;",
+      "}",
+      "class Square implements Shape {",
+      "  constructor(private side: number) {",
+      "    this.side = side;",
+      "  }",
+      "  area(): number {",
+      "    return this.side ** 2;",
+      "  }",
+      "}",
+    ].join("\n");
+    assert.equal(
+      generateOutline(source, "ts"),
+      [
+        "export interface Shape {",
+        "  area(): number;",
+        "}",
+        "class Square implements Shape {",
+        "  constructor(private side: number) { … }",
+        "  area(): number { … }",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  it("collapses function bodies and keeps one-line functions", () => {
+    const source = [
+      'import { x } from "./x";',
+      "export function add(a: number, b: number): number {",
+      "  const sum = a + b;",
+      "  return sum;",
+      "}",
+      "const id = (v: T) => { return v; };",
+      "const handler = async () => {",
+      '  await x("}");',
+      "};",
+    ].join("\n");
+    assert.equal(
+      generateOutline(source, "ts"),
+      [
+        'import { x } from "./x";',
+        "export function add(a: number, b: number): number { … }",
+        "const id = (v: T) => { return v; };",
+        "const handler = async () => { … }",
+      ].join("\n")
+    );
+  });
+
+  it("does not treat a one-line type alias as a container", () => {
+    const source = "type Pair = [number, number];\nfunction f() {\n  return 1;\n}";
+    assert.equal(generateOutline(source, "ts"), "type Pair = [number, number];\nfunction f() { … }");
+  });
+
+  it("reports the original line number of each outline line", () => {
+    const lines = generateOutlineLines("// c\nfunction f() {\n  return 1;\n}\n\nconst a = 1;", "ts");
+    assert.deepEqual(lines, [
+      { lineNumber: 2, text: "function f() { … }" },
+      { lineNumber: 6, text: "const a = 1;" },
+    ]);
+  });
+});
+
+describe("generateOutline for Python", () => {
+  it("keeps classes and signatures with `...` bodies", () => {
+    const source = [
+      "import os",
+      "class A:",
+      "    def run(self,",
+      "            arg):",
+      "        return arg",
+      "def main():",
+      "    pass",
+    ].join("\n");
+    assert.equal(
+      generateOutline(source, "py"),
+      ["import os", "class A:", "    def run(self,", "            arg): ...", "def main(): ..."].join("\n")
+    );
+  });
+});
+
+describe("generateSymbolOutline", () => {
+  it("keeps the first line of each symbol and the bounds of containers", () => {
+    const source = "module M\n  def a\n    1\n  end\nend";
+    const outline = generateSymbolOutline(source, [
+      { startLine: 1, endLine: 5, children: [{ startLine: 2, endLine: 4, children: [] }] },
+    ]);
+    assert.equal(outline, "module M\n  def a …\nend");
+  });
+
+  it("reports unsupported languages", () => {
+    assert.equal(supportsOutline("rb"), false);
+    assert.equal(generateOutline("def a\nend", "rb"), null);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it } from "node:test";
+import * as assert from "node:assert/strict";
+import {
+  chooseDelimiter,
+  escapeContent,
+  EscapingStrategy,
+  wrapCdata,
+} from "../utils/escaping";
+import {
+  IssueBlockData,
+  OutputPreset,
+  PRESET_ESCAPING,
+  assembleJsonContext,
+  getMarkdownFence,
+  renderGitDiffBlock,
+  renderIssueBlock,
+  renderJsonBlock,
+  toEscapingStrategy,
+} from "../utils/outputFormats";
+
+// Content that closes CDATA sections, XML blocks and Markdown fences, and contains the delimiter
+const HOSTILE = [
+  "if (a[b[0]]> 1) { x = '<tag>' && y; }",
+  "</body></github_issue></context>",
+  "```",
+  "# Not a heading",
+  "END_OF_CONTENT",
+].join("\n");
+
+const ISSUE: IssueBlockData = {
+  number: 7,
+  state: "open",
+  title: 'Breaks on "</title>" & <b>',
+  url: "https://github.com/o/r/issues/7",
+  createdAt: "2024-01-01",
+  author: "someone",
+  labels: [],
+  body: HOSTILE,
+  comments: [{ author: "other", createdAt: "2024-01-02", body: HOSTILE }],
+};
+
+/** Text between `open` and the next `close`, from the start of the block */
+function between(block: string, open: string, close: string): string {
+  const start = block.indexOf(open) + open.length;
+  return block.slice(start, block.indexOf(close, start));
+}
+
+/** Undo a strategy's escaping of block content, checking that it is well formed */
+function unescape(escaped: string, strategy: EscapingStrategy): string {
+  switch (strategy) {
+    case "cdata":
+      assert.ok(escaped.startsWith("<![CDATA[") && escaped.endsWith("]]>"));
+      return escaped.slice(9, -3).replace(/]]><!\[CDATA\[/g, "");
+    case "entities":
+      assert.ok(!/[<>]/.test(escaped));
+      return escaped.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+    case "delimiters": {
+      const lines = escaped.split("\n");
+      const delimiter = lines[lines.length - 1];
+      assert.equal(lines[0], `<<<${delimiter}`);
+      const content = lines.slice(1, -1).join("\n");
+      assert.ok(!content.includes(delimiter));
+      return content;
+    }
+    default:
+      return escaped;
+  }
+}
+
+describe("escapeContent", () => {
+  it("splits `]]>` across CDATA sections", () => {
+    assert.equal(wrapCdata("a]]>b"), "<![CDATA[a]]]]><![CDATA[>b]]>");
+    assert.equal(unescape(wrapCdata("]]>]]>"), "cdata"), "]]>]]>");
+  });
+
+  it("picks a delimiter that does not occur in the content", () => {
+    assert.equal(chooseDelimiter("text"), "END_OF_CONTENT");
+    assert.equal(chooseDelimiter("END_OF_CONTENT"), "END_OF_CONTENT_2");
+    assert.equal(chooseDelimiter("END_OF_CONTENT END_OF_CONTENT_2"), "END_OF_CONTENT_3");
+  });
+
+  it("round-trips hostile content with every strategy", () => {
+    for (const strategy of ["none", "cdata", "entities", "delimiters"] as const) {
+      assert.equal(unescape(escapeContent(HOSTILE, strategy), strategy), HOSTILE, strategy);
+    }
+  });
+});
+
+describe("toEscapingStrategy", () => {
+  it("defaults to no escaping for XML, keeping the output of earlier versions", () => {
+    assert.equal(toEscapingStrategy("xml", undefined), "none");
+    assert.equal(toEscapingStrategy("markdown", undefined), "delimiters");
+    assert.equal(toEscapingStrategy("plain", undefined), "none");
+    assert.equal(toEscapingStrategy("json", undefined), "none");
+  });
+
+  it("falls back to the default for strategies a preset does not support", () => {
+    assert.equal(toEscapingStrategy("xml", "cdata"), "cdata");
+    assert.equal(toEscapingStrategy("markdown", "cdata"), "delimiters");
+    assert.equal(toEscapingStrategy("json", "delimiters"), "none");
+  });
+});
+
+describe("issue blocks per preset and escaping", () => {
+  const combinations = (Object.keys(PRESET_ESCAPING) as OutputPreset[]).flatMap((preset) =>
+    PRESET_ESCAPING[preset].map((strategy) => [preset, strategy] as const)
+  );
+
+  for (const [preset, strategy] of combinations) {
+    it(`keeps content intact with ${preset} / ${strategy}`, () => {
+      const block = renderIssueBlock(preset, ISSUE, strategy);
+
+      switch (preset) {
+        case "xml": {
+          const body = between(block, "<body>\n", "\n</body>\n<comments>");
+          assert.equal(unescape(body, strategy), HOSTILE);
+          const comment = between(block, `created_at="${ISSUE.comments[0].createdAt}">\n`, "\n</comment>");
+          assert.equal(unescape(comment, strategy), HOSTILE);
+          if (strategy !== "none") {
+            assert.ok(block.includes("<title>Breaks on &quot;&lt;/title&gt;&quot; &amp; &lt;b&gt;</title>"));
+          }
+          if (strategy === "entities") {
+            // Only the real closing tag remains
+            assert.equal(block.split("</github_issue>").length, 2);
+          }
+          break;
+        }
+        case "markdown": {
+          if (strategy === "delimiters") {
+            const fence = getMarkdownFence(HOSTILE);
+            assert.equal(fence, "````");
+            const fenced = `${fence}markdown\n${HOSTILE}\n${fence}`;
+            assert.equal(block.split(fenced).length, 3);
+            assert.ok(!/^# Not a heading/m.test(block.split(fenced).join("")));
+          } else {
+            assert.ok(block.includes(`\n\n${HOSTILE}\n`));
+          }
+          break;
+        }
+        case "plain": {
+          const body = between(block, `${ISSUE.createdAt}\n\n`, "\n\n--- Comment");
+          assert.equal(unescape(body, strategy), HOSTILE);
+          break;
+        }
+        case "json": {
+          const parsed = JSON.parse(block) as IssueBlockData;
+          assert.deepEqual(parsed, ISSUE);
+          break;
+        }
+      }
+    });
+  }
+});
+
+describe("git diff blocks", () => {
+  const data = { repository: "app", source: "working tree", diff: `+${HOSTILE.replace(/\n/g, "\n+")}` };
+
+  it("escapes the diff in XML and plain output", () => {
+    const cdata = renderGitDiffBlock("xml", data, "cdata");
+    assert.equal(unescape(between(cdata, 'tree">\n', "\n</git_diff>"), "cdata"), data.diff);
+
+    const plain = renderGitDiffBlock("plain", data, "delimiters");
+    const delimited = plain.slice(plain.indexOf("\n") + 1, -1);
+    assert.equal(unescape(delimited, "delimiters"), data.diff);
+  });
+
+  it("fences Markdown diffs past any backtick run", () => {
+    const block = renderGitDiffBlock("markdown", data);
+    assert.ok(block.includes(`\`\`\`\`diff\n${data.diff}\n\`\`\`\``));
+  });
+});
+
+describe("assembleJsonContext", () => {
+  it("produces a document that parses back to its parts", () => {
+    const document = assembleJsonContext({
+      prefix: "Review </context> this",
+      issues: [renderIssueBlock("json", ISSUE)],
+      pullRequests: [],
+      gitChanges: [],
+      projectTree: "src\n└── a.ts",
+      files: [renderJsonBlock({ path: "/a.ts", content: HOSTILE })],
+    });
+    const parsed = JSON.parse(document) as Record<string, unknown>;
+    assert.deepEqual(parsed, {
+      prefix: "Review </context> this",
+      issues: [ISSUE],
+      pullRequests: [],
+      gitChanges: [],
+      projectTree: "src\n└── a.ts",
+      files: [{ path: "/a.ts", content: HOSTILE }],
+    });
+  });
+});
@@ -1,245 +1,377 @@
-export const ALWAYS_IGNORE = [
-  // Version control (HUGE and irrelevant for LLM context)
-  ".git/",
-  ".svn/",
-  ".hg/",
-  ".bzr/",
-  ".darcs/",
-  ".husky/",
+/**
+ * Patterns that are always ignored, grouped so they can be switched off per category
+ * (`promptTower.builtinIgnore.disabledCategories`) or per pattern
+ * (`promptTower.builtinIgnore.disabledPatterns`)
+ */
+export interface AlwaysIgnoreCategory {
+  id: string;
+  label: string;
+  patterns: string[];
+}
 
-  // IDE/Editor directories (contain settings, might have sensitive paths)
-  ".vscode/",
-  ".idea/",
-  ".vs/",
-  ".vscode-test/",
-  ".sublime-project",
-  ".sublime-workspace",
-  "*.swp",
-  "*.swo",
-  "*.tmp",
-
-  // Lock files (consolidates package-lock.json, yarn.lock, etc.)
-  "*.lock",
-  "*.lockb",
-  "*.lockfile*",
-  "package-lock.json",
-  "yarn.lock",
-  "poetry.lock",
-  "Gemfile.lock",
-  "pnpm-lock.yaml",
-  "bun.lockb",
-  "Cargo.lock",
-  "Pipfile.lock",
-
-  // Dependencies & build outputs
-  "node_modules/",
-  "**/node_modules/**",
-  "vendor/",
-  "Pods/",
-  "Carthage/",
-  "dist/",
-  "**/dist/**",
-  "build/",
-  "**/build/**",
-  "out/",
-  "target/",
-  ".next/",
-  ".nuxt/",
-  "coverage/",
-  ".nyc_output/",
-  ".gradle/",
-  "gradle/",
-  ".m2/",
-  ".cargo/",
-
-  // Cache & temporary directories
-  ".cache/",
-  "cache/",
-  "tmp/",
-  "temp/",
-  ".tmp/",
-  ".temp/",
-  "*.cache",
-
-  // Build caches & incremental build files
-  "*.tsbuildinfo",
-  ".eslintcache",
-  ".parcel-cache/",
-  ".webpack/",
-  ".rollup.cache/",
-
-  // Environment files & secrets (often contain API keys, tokens)
-  ".env",
-  ".env.*",
-  ".env.local",
-  ".env.*.local",
-  "secrets/",
-  "private/",
-
-  // Test outputs & coverage
-  "test-results/",
-  "spec-results/",
-  ".coverage",
-  "htmlcov/",
-  ".nyc_output/",
-  "coverage/",
-
-  // Python environments
-  "venv/",
-  ".venv/",
-  "env/",
-  "__pycache__/",
-  ".mypy_cache/",
-  ".pytest_cache/",
-  ".tox/",
-
-  // Document files
-  "*.pdf",
-  "*.docx",
-  "*.doc",
-  "*.xls",
-  "*.xlsx",
-  "*.ppt",
-  "*.pptx",
-
-  // Image files
-  "*.png",
-  "*.jpg",
-  "*.jpeg",
-  "*.gif",
-  "*.bmp",
-  "*.tiff",
-  "*.ico",
-  "*.webp",
-  "*.svg",
-
-  // Media files
-  "*.mp3",
-  "*.mp4",
-  "*.avi",
-  "*.mov",
-  "*.wmv",
-  "*.webm",
-  "*.m4a",
-  "*.m4v",
-  "*.m4b",
-  "*.m4p",
-
-  // Binary & system files
-  "*.so",
-  "*.so.*",
-  "*.dll",
-  "*.dylib",
-  "*.lib",
-  "*.exp",
-  "*.def",
-  "*.exe",
-  "*.com",
-  "*.sys",
-  "*.bin",
-
-  // Archives
-  "*.tar",
-  "*.gz",
-  "*.bz2",
-  "*.tgz",
-  "*.zip",
-  "*.rar",
-  "*.7z",
-  "*.zipx",
-  "*.dmg",
-  "*.pkg",
-  "*.msi",
-  "*.deb",
-  "*.rpm",
-  "*.iso",
-  "*.img",
-
-  // Compiled files
-  "*.pyc",
-  "*.pyo",
-  "*.o",
-  "*.obj",
-  "*.class",
-  "*.jar",
-  "*.war",
-  "*.ear",
-
-  // Data files
-  "*.h5",
-  "*.hdf5",
-  "*.hdf",
-  "*.hdf4",
-  "*.hdf3",
-  "*.hdf2",
-  "*.hdf1",
-  "*.hdf0",
-  "*.pkl",
-  "*.sqlite",
-  "*.joblib",
-  "*.mat",
-  "*.npz",
-  "*.npy",
-  "*.nii",
-
-  // Font files
-  "*.woff",
-  "*.woff2",
-  "*.ttf",
-  "*.eot",
-  "*.otf",
-
-  // Virtual machine files
-  "*.vdi",
-  "*.vhd",
-  "*.vmdk",
-  "*.qcow2",
-  "*.vhdx",
-
-  // Security files
-  "*.crt",
-  "*.pem",
-  "*.key",
-
-  // System files
-  ".DS_Store",
-  "Thumbs.db",
-  "Desktop.ini",
-  "ehthumbs.db",
-
-  // Database files (large, binary, not source code)
-  "*.db",
-  "*.sqlite",
-  "*.sqlite3",
-
-  // Backup and temporary patterns
-  "*.tmp",
-  "*.temp",
-  "*.bak",
-  "*.backup",
-  "*~",
-  "*.orig",
-  "*.rej",
-
-  // Documentation directories (often auto-generated or large)
-  "docs/_build/",
-  "site/",
-  "_site/",
-
-  // Package artifacts
-  "*.whl",
-  "*.egg-info/",
-  "*.egg",
-  "*.dist-info/",
-  "*.dist",
-
-  // More IDE artifacts
-  "*.user",
-  "*.userprefs",
-  "*.sln.docstates",
-
-  // Memory dumps & profiles
-  "*.stackdump",
-  "*.dmp",
-  "heapdump*",
+export const ALWAYS_IGNORE_CATEGORIES: AlwaysIgnoreCategory[] = [
+  {
+    // Version control (HUGE and irrelevant for LLM context)
+    id: "versionControl",
+    label: "Version control",
+    patterns: [
+      ".git/",
+      ".svn/",
+      ".hg/",
+      ".bzr/",
+      ".darcs/",
+      ".husky/",
+    ],
+  },
+  {
+    // IDE/Editor directories (contain settings, might have sensitive paths)
+    id: "editor",
+    label: "IDE/editor files",
+    patterns: [
+      ".vscode/",
+      ".idea/",
+      ".vs/",
+      ".vscode-test/",
+      ".sublime-project",
+      ".sublime-workspace",
+      "*.swp",
+      "*.swo",
+      "*.user",
+      "*.userprefs",
+      "*.sln.docstates",
+    ],
+  },
+  {
+    // Lock files (consolidates package-lock.json, yarn.lock, etc.)
+    id: "lockFiles",
+    label: "Lock files",
+    patterns: [
+      "*.lock",
+      "*.lockb",
+      "*.lockfile*",
+      "package-lock.json",
+      "yarn.lock",
+      "poetry.lock",
+      "Gemfile.lock",
+      "pnpm-lock.yaml",
+      "bun.lockb",
+      "Cargo.lock",
+      "Pipfile.lock",
+    ],
+  },
+  {
+    // Dependencies & build outputs
+    id: "dependencies",
+    label: "Dependencies & build outputs",
+    patterns: [
+      "node_modules/",
+      "vendor/",
+      "Pods/",
+      "Carthage/",
+      "dist/",
+      "build/",
+      "out/",
+      "target/",
+      ".next/",
+      ".nuxt/",
+      ".gradle/",
+      "gradle/",
+      ".m2/",
+      ".cargo/",
+    ],
+  },
+  {
+    // Cache & temporary directories
+    id: "cache",
+    label: "Cache & temporary directories",
+    patterns: [
+      ".cache/",
+      "cache/",
+      "tmp/",
+      "temp/",
+      ".tmp/",
+      ".temp/",
+      "*.cache",
+    ],
+  },
+  {
+    // Build caches & incremental build files
+    id: "buildCaches",
+    label: "Build caches",
+    patterns: [
+      "*.tsbuildinfo",
+      ".eslintcache",
+      ".parcel-cache/",
+      ".webpack/",
+      ".rollup.cache/",
+    ],
+  },
+  {
+    // Environment files & secrets (often contain API keys, tokens)
+    id: "secrets",
+    label: "Environment files & secrets",
+    patterns: [
+      ".env",
+      ".env.*",
+      ".env.local",
+      ".env.*.local",
+      "secrets/",
+      "private/",
+    ],
+  },
+  {
+    // Test outputs & coverage
+    id: "testOutputs",
+    label: "Test outputs & coverage",
+    patterns: [
+      "test-results/",
+      "spec-results/",
+      ".coverage",
+      "htmlcov/",
+      ".nyc_output/",
+      "coverage/",
+    ],
+  },
+  {
+    // Python environments
+    id: "python",
+    label: "Python environments",
+    patterns: [
+      "venv/",
+      ".venv/",
+      "env/",
+      "__pycache__/",
+      ".mypy_cache/",
+      ".pytest_cache/",
+      ".tox/",
+    ],
+  },
+  {
+    // Document files
+    id: "documents",
+    label: "Documents",
+    patterns: [
+      "*.pdf",
+      "*.docx",
+      "*.doc",
+      "*.xls",
+      "*.xlsx",
+      "*.ppt",
+      "*.pptx",
+    ],
+  },
+  {
+    // Image files
+    id: "images",
+    label: "Images",
+    patterns: [
+      "*.png",
+      "*.jpg",
+      "*.jpeg",
+      "*.gif",
+      "*.bmp",
+      "*.tiff",
+      "*.ico",
+      "*.webp",
+      "*.svg",
+    ],
+  },
+  {
+    // Media files
+    id: "media",
+    label: "Audio & video",
+    patterns: [
+      "*.mp3",
+      "*.mp4",
+      "*.avi",
+      "*.mov",
+      "*.wmv",
+      "*.webm",
+      "*.m4a",
+      "*.m4v",
+      "*.m4b",
+      "*.m4p",
+    ],
+  },
+  {
+    // Binary & system files
+    id: "binaries",
+    label: "Binaries & libraries",
+    patterns: [
+      "*.so",
+      "*.so.*",
+      "*.dll",
+      "*.dylib",
+      "*.lib",
+      "*.exp",
+      "*.def",
+      "*.exe",
+      "*.com",
+      "*.sys",
+      "*.bin",
+    ],
+  },
+  {
+    // Archives
+    id: "archives",
+    label: "Archives",
+    patterns: [
+      "*.tar",
+      "*.gz",
+      "*.bz2",
+      "*.tgz",
+      "*.zip",
+      "*.rar",
+      "*.7z",
+      "*.zipx",
+      "*.dmg",
+      "*.pkg",
+      "*.msi",
+      "*.deb",
+      "*.rpm",
+      "*.iso",
+      "*.img",
+    ],
+  },
+  {
+    // Compiled files
+    id: "compiled",
+    label: "Compiled files",
+    patterns: [
+      "*.pyc",
+      "*.pyo",
+      "*.o",
+      "*.obj",
+      "*.class",
+      "*.jar",
+      "*.war",
+      "*.ear",
+    ],
+  },
+  {
+    // Data files
+    id: "data",
+    label: "Data files",
+    patterns: [
+      "*.h5",
+      "*.hdf5",
+      "*.hdf",
+      "*.hdf4",
+      "*.hdf3",
+      "*.hdf2",
+      "*.hdf1",
+      "*.hdf0",
+      "*.pkl",
+      "*.joblib",
+      "*.mat",
+      "*.npz",
+      "*.npy",
+      "*.nii",
+    ],
+  },
+  {
+    // Font files
+    id: "fonts",
+    label: "Fonts",
+    patterns: [
+      "*.woff",
+      "*.woff2",
+      "*.ttf",
+      "*.eot",
+      "*.otf",
+    ],
+  },
+  {
+    // Virtual machine files
+    id: "virtualMachines",
+    label: "Virtual machine images",
+    patterns: [
+      "*.vdi",
+      "*.vhd",
+      "*.vmdk",
+      "*.qcow2",
+      "*.vhdx",
+    ],
+  },
+  {
+    // Security files
+    id: "certificates",
+    label: "Certificates & keys",
+    patterns: [
+      "*.crt",
+      "*.pem",
+      "*.key",
+    ],
+  },
+  {
+    // System files
+    id: "systemFiles",
+    label: "OS metadata files",
+    patterns: [
+      ".DS_Store",
+      "Thumbs.db",
+      "Desktop.ini",
+      "ehthumbs.db",
+    ],
+  },
+  {
+    // Database files (large, binary, not source code)
+    id: "databases",
+    label: "Databases",
+    patterns: [
+      "*.db",
+      "*.sqlite",
+      "*.sqlite3",
+    ],
+  },
+  {
+    // Backup and temporary patterns
+    id: "backups",
+    label: "Backup & temporary files",
+    patterns: [
+      "*.tmp",
+      "*.temp",
+      "*.bak",
+      "*.backup",
+      "*~",
+      "*.orig",
+      "*.rej",
+    ],
+  },
+  {
+    // Documentation directories (often auto-generated or large)
+    id: "generatedDocs",
+    label: "Generated documentation",
+    patterns: [
+      "docs/_build/",
+      "site/",
+      "_site/",
+    ],
+  },
+  {
+    // Package artifacts
+    id: "packageArtifacts",
+    label: "Package artifacts",
+    patterns: [
+      "*.whl",
+      "*.egg-info/",
+      "*.egg",
+      "*.dist-info/",
+      "*.dist",
+    ],
+  },
+  {
+    // Memory dumps & profiles
+    id: "dumps",
+    label: "Memory dumps & profiles",
+    patterns: [
+      "*.stackdump",
+      "*.dmp",
+      "heapdump*",
+    ],
+  },
 ];
+
+export const ALWAYS_IGNORE = ALWAYS_IGNORE_CATEGORIES.flatMap(
+  (category) => category.patterns
+);
@@ -0,0 +1,1010 @@
+/**
+ * Language-aware comment stripping.
+ *
+ * Each supported language gets a small scanner that understands its string,
+ * template and regex literal syntax well enough to find real comments without
+ * touching literal contents. Newlines inside removed comments are preserved
+ * while scanning so that every output line still maps to its original line;
+ * lines that only contained comments are dropped at the end.
+ */
+
+export interface CommentStripOptions {
+  /** Keep a leading comment block that looks like a license/copyright header */
+  keepLicenseHeader?: boolean;
+
+  /** Keep documentation comments (JSDoc `/** *\/`, Rust/C# `///` and `//!`) */
+  keepDocComments?: boolean;
+}
+
+/**
+ * A line of stripped output together with its 1-based line number in the original source
+ */
+export interface StrippedLine {
+  lineNumber: number;
+  text: string;
+}
+
+interface CommentSpan {
+  start: number;
+  end: number;
+  kind: "line" | "block";
+}
+
+/** String, template, char or regex literal found by a scanner */
+interface LiteralSpan {
+  start: number;
+  end: number;
+}
+
+type ScannerKind = "c" | "hash" | "yaml" | "html";
+
+interface LanguageSyntax {
+  scanner: ScannerKind;
+
+  /** C-like: `//` line comments */
+  lineComments?: boolean;
+  /** C-like: `/* *\/` block comments may nest (Rust) */
+  nestedBlockComments?: boolean;
+  /** C-like: `//` after `:` is part of a URL, not a comment (SCSS/Less) */
+  urlAwareLineComments?: boolean;
+  /** JS/TS template strings with `${}` interpolation */
+  templateStrings?: boolean;
+  /** JS/TS regex literals */
+  regexLiterals?: boolean;
+  /** Go raw strings delimited by backticks */
+  backtickRawStrings?: boolean;
+  /** `"""` text blocks / raw strings (Java, C#, Kotlin, Swift, Scala) */
+  tripleQuoteStrings?: boolean;
+  /** How single quotes are interpreted */
+  singleQuote?: "string" | "char" | "rust" | "cpp";
+  /** Rust `r"..."` / `r#"..."#` raw strings */
+  rustRawStrings?: boolean;
+  /** C++ `R"delim(...)delim"` raw strings */
+  cppRawStrings?: boolean;
+  /** C# `@"..."` verbatim strings */
+  verbatimStrings?: boolean;
+
+  /** Hash: `#` only starts a comment at a word boundary (shell) */
+  hashNeedsBoundary?: boolean;
+  /** Hash: Python triple-quoted strings */
+  pythonStrings?: boolean;
+  /** Hash: single quotes have no escapes (shell) */
+  literalSingleQuotes?: boolean;
+  /** Hash: Ruby `=begin` / `=end` block comments */
+  rubyBlockComments?: boolean;
+  /** Hash: `<<EOF` heredocs (shell, Ruby) */
+  heredocs?: boolean;
+}
+
+const JS_SYNTAX: LanguageSyntax = {
+  scanner: "c",
+  lineComments: true,
+  templateStrings: true,
+  regexLiterals: true,
+  singleQuote: "string",
+};
+
+const C_SYNTAX: LanguageSyntax = {
+  scanner: "c",
+  lineComments: true,
+  singleQuote: "cpp",
+  cppRawStrings: true,
+};
+
+const JAVA_SYNTAX: LanguageSyntax = {
+  scanner: "c",
+  lineComments: true,
+  singleQuote: "char",
+  tripleQuoteStrings: true,
+};
+
+const LANGUAGE_SYNTAX: Record<string, LanguageSyntax> = {
+  // JavaScript / TypeScript
+  js: JS_SYNTAX,
+  jsx: JS_SYNTAX,
+  mjs: JS_SYNTAX,
+  cjs: JS_SYNTAX,
+  ts: JS_SYNTAX,
+  tsx: JS_SYNTAX,
+  mts: JS_SYNTAX,
+  cts: JS_SYNTAX,
+
+  // Go
+  go: {
+    scanner: "c",
+    lineComments: true,
+    singleQuote: "char",
+    backtickRawStrings: true,
+  },
+
+  // Rust
+  rs: {
+    scanner: "c",
+    lineComments: true,
+    nestedBlockComments: true,
+    singleQuote: "rust",
+    rustRawStrings: true,
+  },
+
+  // Java and friends
+  java: JAVA_SYNTAX,
+  kt: JAVA_SYNTAX,
+  kts: JAVA_SYNTAX,
+  scala: JAVA_SYNTAX,
+  swift: JAVA_SYNTAX,
+
+  // C / C++
+  c: C_SYNTAX,
+  h: C_SYNTAX,
+  cc: C_SYNTAX,
+  cpp: C_SYNTAX,
+  cxx: C_SYNTAX,
+  hh: C_SYNTAX,
+  hpp: C_SYNTAX,
+  hxx: C_SYNTAX,
+
+  // C#
+  cs: {
+    scanner: "c",
+    lineComments: true,
+    singleQuote: "char",
+    tripleQuoteStrings: true,
+    verbatimStrings: true,
+  },
+
+  // Stylesheets
+  css: { scanner: "c", singleQuote: "string" },
+  scss: {
+    scanner: "c",
+    lineComments: true,
+    urlAwareLineComments: true,
+    singleQuote: "string",
+  },
+  less: {
+    scanner: "c",
+    lineComments: true,
+    urlAwareLineComments: true,
+    singleQuote: "string",
+  },
+
+  // Python
+  py: { scanner: "hash", pythonStrings: true },
+  pyi: { scanner: "hash", pythonStrings: true },
+  pyw: { scanner: "hash", pythonStrings: true },
+
+  // Ruby
+  rb: { scanner: "hash", rubyBlockComments: true, heredocs: true },
+  rake: { scanner: "hash", rubyBlockComments: true, heredocs: true },
+  gemspec: { scanner: "hash", rubyBlockComments: true, heredocs: true },
+
+  // Shell
+  sh: {
+    scanner: "hash",
+    hashNeedsBoundary: true,
+    literalSingleQuotes: true,
+    heredocs: true,
+  },
+  bash: {
+    scanner: "hash",
+    hashNeedsBoundary: true,
+    literalSingleQuotes: true,
+    heredocs: true,
+  },
+  zsh: {
+    scanner: "hash",
+    hashNeedsBoundary: true,
+    literalSingleQuotes: true,
+    heredocs: true,
+  },
+
+  // YAML
+  yaml: { scanner: "yaml" },
+  yml: { scanner: "yaml" },
+
+  // HTML / XML
+  html: { scanner: "html" },
+  htm: { scanner: "html" },
+  xhtml: { scanner: "html" },
+  xml: { scanner: "html" },
+  svg: { scanner: "html" },
+};
+
+const LICENSE_PATTERN =
+  /\b(copyright|license[ds]?|licence[ds]?|spdx-license-identifier)\b|\(c\)|©/i;
+
+const REGEX_PRECEDING_KEYWORDS = new Set([
+  "return",
+  "typeof",
+  "instanceof",
+  "in",
+  "of",
+  "new",
+  "delete",
+  "void",
+  "throw",
+  "case",
+  "do",
+  "else",
+  "yield",
+  "await",
+]);
+
+/**
+ * Check whether comments can be stripped for a file extension (without the leading dot)
+ */
+export function supportsCommentStripping(extension: string | undefined): boolean {
+  return !!extension && extension.toLowerCase() in LANGUAGE_SYNTAX;
+}
+
+/**
+ * Strip comments from source code. Files in unsupported languages are returned unchanged.
+ */
+export function stripComments(
+  source: string,
+  extension: string | undefined,
+  options: CommentStripOptions = {}
+): string {
+  if (!supportsCommentStripping(extension)) {
+    return source;
+  }
+
+  const eol = source.includes("\r\n") ? "\r\n" : "\n";
+  return stripCommentsToLines(source, extension, options)
+    .map((line) => line.text)
+    .join(eol);
+}
+
+/**
+ * Strip comments and return the surviving lines with their original line numbers
+ */
+export function stripCommentsToLines(
+  source: string,
+  extension: string | undefined,
+  options: CommentStripOptions = {}
+): StrippedLine[] {
+  const syntax = extension
+    ? LANGUAGE_SYNTAX[extension.toLowerCase()]
+    : undefined;
+
+  if (!syntax) {
+    return source
+      .split(/\r?\n/)
+      .map((text, index) => ({ lineNumber: index + 1, text }));
+  }
+
+  const spans = findCommentSpans(source, syntax);
+  const removable = selectRemovableSpans(source, spans, options);
+  return removeSpans(source, removable);
+}
+
+/**
+ * Blank out string, template and regex literals (newlines are kept, so lines and columns
+ * stay aligned). Only C-family languages are masked; others are returned unchanged.
+ */
+export function maskLiterals(source: string, extension: string | undefined): string {
+  const syntax = extension
+    ? LANGUAGE_SYNTAX[extension.toLowerCase()]
+    : undefined;
+  if (syntax?.scanner !== "c") {
+    return source;
+  }
+
+  const literals: LiteralSpan[] = [];
+  scanCLike(source, syntax, literals);
+
+  let output = "";
+  let cursor = 0;
+  for (const literal of literals) {
+    output += source.slice(cursor, literal.start);
+    output += source.slice(literal.start, literal.end).replace(/[^\r\n]/g, " ");
+    cursor = literal.end;
+  }
+  return output + source.slice(cursor);
+}
+
+function findCommentSpans(source: string, syntax: LanguageSyntax): CommentSpan[] {
+  switch (syntax.scanner) {
+    case "c":
+      return scanCLike(source, syntax);
+    case "hash":
+      return scanHash(source, syntax);
+    case "yaml":
+      return scanYaml(source);
+    case "html":
+      return scanHtml(source);
+  }
+}
+
+/**
+ * Decide which comment spans to remove, honouring license/doc comment options
+ */
+function selectRemovableSpans(
+  source: string,
+  spans: CommentSpan[],
+  options: CommentStripOptions
+): CommentSpan[] {
+  const keep = new Set<CommentSpan>();
+
+  if (options.keepLicenseHeader) {
+    for (const span of getLeadingCommentGroup(source, spans)) {
+      keep.add(span);
+    }
+    const headerText = [...keep]
+      .map((span) => source.slice(span.start, span.end))
+      .join("\n");
+    if (!LICENSE_PATTERN.test(headerText)) {
+      keep.clear();
+    }
+  }
+
+  if (options.keepDocComments) {
+    for (const span of spans) {
+      if (isDocComment(source, span)) {
+        keep.add(span);
+      }
+    }
+  }
+
+  return spans.filter((span) => !keep.has(span));
+}
+
+/**
+ * Comments at the very top of the file (a shebang line is allowed); the group ends at
+ * the first code or blank line after a comment
+ */
+function getLeadingCommentGroup(source: string, spans: CommentSpan[]): CommentSpan[] {
+  const group: CommentSpan[] = [];
+  let cursor = source.startsWith("#!") ? lineEnd(source, 0) : 0;
+
+  for (const span of spans) {
+    const gap = source.slice(cursor, span.start);
+    if (gap.trim() !== "" || (group.length > 0 && /\n[ \t\r]*\n/.test(gap))) {
+      break;
+    }
+    group.push(span);
+    cursor = span.end;
+  }
+
+  return group;
+}
+
+function isDocComment(source: string, span: CommentSpan): boolean {
+  const text = source.slice(span.start, span.end);
+  if (span.kind === "block") {
+    return text.startsWith("/**") && text !== "/**/";
+  }
+  return (
+    (text.startsWith("///") && !text.startsWith("////")) ||
+    text.startsWith("//!")
+  );
+}
+
+/**
+ * Remove spans from the source, keeping newlines so line numbers stay aligned,
+ * then drop lines that only contained comments
+ */
+function removeSpans(source: string, spans: CommentSpan[]): StrippedLine[] {
+  let output = "";
+  let cursor = 0;
+  const touchedLines = new Set<number>();
+  let line = 0;
+
+  const advance = (text: string) => {
+    for (const ch of text) {
+      if (ch === "\n") {
+        line++;
+      }
+    }
+  };
+
+  for (const span of spans) {
+    const before = source.slice(cursor, span.start);
+    output += before;
+    advance(before);
+
+    const removed = source.slice(span.start, span.end);
+    touchedLines.add(line);
+
+    const newlineCount = removed.split("\n").length - 1;
+    if (newlineCount > 0) {
+      output += "\n".repeat(newlineCount);
+      for (let i = 1; i <= newlineCount; i++) {
+        touchedLines.add(line + i);
+      }
+      line += newlineCount;
+    } else {
+      // Keep adjacent tokens apart when a comment sat between them (a/*x*/b)
+      const prevChar = span.start > 0 ? source[span.start - 1] : "";
+      const nextChar = source[span.end] ?? "";
+      if (prevChar.trim() && nextChar.trim()) {
+        output += " ";
+      }
+    }
+
+    cursor = span.end;
+  }
+  output += source.slice(cursor);
+
+  const result: StrippedLine[] = [];
+  output.split("\n").forEach((rawText, index) => {
+    const text = rawText.endsWith("\r") ? rawText.slice(0, -1) : rawText;
+    if (!touchedLines.has(index)) {
+      result.push({ lineNumber: index + 1, text });
+    } else if (text.trim() !== "") {
+      result.push({ lineNumber: index + 1, text: text.trimEnd() });
+    }
+  });
+
+  return result;
+}
+
+// --- Scanners ---
+
+function lineEnd(source: string, from: number): number {
+  const newline = source.indexOf("\n", from);
+  if (newline === -1) {
+    return source.length;
+  }
+  return source[newline - 1] === "\r" ? newline - 1 : newline;
+}
+
+/**
+ * Skip a quoted literal starting after its opening quote; returns the index after the closing quote
+ */
+function skipQuoted(
+  source: string,
+  from: number,
+  quote: string,
+  { escapes = true, multiline = false } = {}
+): number {
+  let i = from;
+  while (i < source.length) {
+    const ch = source[i];
+    if (escapes && ch === "\\") {
+      i += 2;
+      continue;
+    }
+    if (ch === quote) {
+      return i + 1;
+    }
+    if (ch === "\n" && !multiline) {
+      return i; // Unterminated literal, resume scanning on the next line
+    }
+    i++;
+  }
+  return source.length;
+}
+
+function skipUntil(source: string, from: number, terminator: string): number {
+  const index = source.indexOf(terminator, from);
+  return index === -1 ? source.length : index + terminator.length;
+}
+
+function isIdentifierChar(ch: string | undefined): boolean {
+  return !!ch && /[A-Za-z0-9_$]/.test(ch);
+}
+
+/**
+ * Scanner for C-family syntax (JS/TS, Go, Rust, Java, C/C++, C#, CSS)
+ * Literal spans are collected into `literals` when it is given
+ */
+function scanCLike(
+  source: string,
+  syntax: LanguageSyntax,
+  literals?: LiteralSpan[]
+): CommentSpan[] {
+  const spans: CommentSpan[] = [];
+  const templateBraces: number[] = [];
+  /** Open braces, true for object literals (JS/TS only) */
+  const expressionBraces: boolean[] = [];
+  let lastToken = "";
+  let lastWord = "";
+  let i = 0;
+
+  const literal = (start: number, end: number): number => {
+    literals?.push({ start, end });
+    return end;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    const next = source[i + 1];
+
+    // Comments
+    if (ch === "/" && next === "/" && syntax.lineComments) {
+      if (!(syntax.urlAwareLineComments && source[i - 1] === ":")) {
+        const end = lineEnd(source, i);
+        spans.push({ start: i, end, kind: "line" });
+        i = end;
+        continue;
+      }
+    }
+    if (ch === "/" && next === "*") {
+      const end = syntax.nestedBlockComments
+        ? skipNestedBlockComment(source, i)
+        : skipUntil(source, i + 2, "*/");
+      spans.push({ start: i, end, kind: "block" });
+      i = end;
+      continue;
+    }
+
+    // Template string interpolation bookkeeping
+    if (templateBraces.length > 0 && (ch === "{" || ch === "}")) {
+      const top = templateBraces.length - 1;
+      if (ch === "{") {
+        templateBraces[top]++;
+      } else if (templateBraces[top] === 0) {
+        templateBraces.pop();
+        i = literal(i, skipTemplate(source, i + 1, templateBraces));
+        lastToken = "`";
+        continue;
+      } else {
+        templateBraces[top]--;
+      }
+    }
+
+    // String-like literals
+    if (ch === "`" && syntax.templateStrings) {
+      i = literal(i, skipTemplate(source, i + 1, templateBraces));
+      lastToken = "`";
+      continue;
+    }
+    if (ch === "`" && syntax.backtickRawStrings) {
+      i = literal(i, skipUntil(source, i + 1, "`"));
+      lastToken = "`";
+      continue;
+    }
+    if (ch === '"') {
+      if (syntax.tripleQuoteStrings && source.startsWith('"""', i)) {
+        i = literal(i, skipRawQuoteRun(source, i));
+      } else {
+        i = literal(i, skipQuoted(source, i + 1, '"', { multiline: false }));
+      }
+      lastToken = '"';
+      continue;
+    }
+    if (ch === "'") {
+      i = literal(i, skipSingleQuote(source, i, syntax));
+      lastToken = '"';
+      continue;
+    }
+    if (ch === "@" && syntax.verbatimStrings) {
+      const quoteAt = next === '"' ? i + 1 : next === "$" && source[i + 2] === '"' ? i + 2 : -1;
+      if (quoteAt !== -1) {
+        i = literal(i, skipVerbatim(source, quoteAt + 1));
+        lastToken = '"';
+        continue;
+      }
+    }
+    if (ch === "$" && syntax.verbatimStrings && next === "@" && source[i + 2] === '"') {
+      i = literal(i, skipVerbatim(source, i + 3));
+      lastToken = '"';
+      continue;
+    }
+
+    // Regex literals
+    if (ch === "/" && syntax.regexLiterals && regexAllowed(lastToken, lastWord)) {
+      i = literal(i, skipRegex(source, i + 1));
+      lastToken = '"';
+      continue;
+    }
+
+    // Identifiers, keywords, numbers and raw string prefixes
+    if (isIdentifierChar(ch)) {
+      let end = i;
+      while (end < source.length && isIdentifierChar(source[end])) {
+        end++;
+      }
+      const word = source.slice(i, end);
+
+      if (syntax.rustRawStrings && (word === "r" || word === "br")) {
+        const rawEnd = skipRustRawString(source, end);
+        if (rawEnd !== -1) {
+          i = literal(i, rawEnd);
+          lastToken = '"';
+          continue;
+        }
+      }
+      if (syntax.cppRawStrings && /^(u8|u|U|L)?R$/.test(word) && source[end] === '"') {
+        i = literal(i, skipCppRawString(source, end + 1));
+        lastToken = '"';
+        continue;
+      }
+
+      lastToken = "a";
+      lastWord = word;
+      i = end;
+      continue;
+    }
+
+    // A `/` after a postfix `++`/`--` or an object literal's `}` divides; ")" marks an operand end
+    if (syntax.regexLiterals) {
+      if ((ch === "+" || ch === "-") && next === ch) {
+        lastToken = endsOperand(lastToken, lastWord) ? ")" : ch;
+        lastWord = "";
+        i += 2;
+        continue;
+      }
+      if (ch === "{") {
+        expressionBraces.push(opensObjectLiteral(source, i, lastToken, lastWord));
+      } else if (ch === "}" && expressionBraces.pop()) {
+        lastToken = ")";
+        lastWord = "";
+        i++;
+        continue;
+      }
+    }
+
+    if (ch.trim()) {
+      lastToken = ch;
+      lastWord = "";
+    }
+    i++;
+  }
+
+  return spans;
+}
+
+function skipNestedBlockComment(source: string, from: number): number {
+  let depth = 0;
+  let i = from;
+  while (i < source.length) {
+    if (source.startsWith("/*", i)) {
+      depth++;
+      i += 2;
+    } else if (source.startsWith("*/", i)) {
+      depth--;
+      i += 2;
+      if (depth === 0) {
+        return i;
+      }
+    } else {
+      i++;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Skip a template string body; stops after the closing backtick or after `${`
+ * (in which case a new brace counter is pushed)
+ */
+function skipTemplate(source: string, from: number, templateBraces: number[]): number {
+  let i = from;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === "\\") {
+      i += 2;
+      continue;
+    }
+    if (ch === "`") {
+      return i + 1;
+    }
+    if (ch === "$" && source[i + 1] === "{") {
+      templateBraces.push(0);
+      return i + 2;
+    }
+    i++;
+  }
+  return source.length;
+}
+
+function skipRawQuoteRun(source: string, from: number): number {
+  let quoteCount = 0;
+  while (source[from + quoteCount] === '"') {
+    quoteCount++;
+  }
+  const closing = '"'.repeat(quoteCount);
+  return skipUntil(source, from + quoteCount, closing);
+}
+
+function skipVerbatim(source: string, from: number): number {
+  let i = from;
+  while (i < source.length) {
+    if (source[i] === '"') {
+      if (source[i + 1] === '"') {
+        i += 2; // Escaped quote inside verbatim string
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return source.length;
+}
+
+function skipSingleQuote(source: string, from: number, syntax: LanguageSyntax): number {
+  switch (syntax.singleQuote) {
+    case "rust": {
+      // Char literal ('a', '\n', '\u{1F600}') or lifetime ('a)
+      const match = /^'(?:\\(?:u\{[0-9a-fA-F]+\}|x[0-9a-fA-F]{2}|.)|[^\\'\n])'/u.exec(
+        source.slice(from, from + 12)
+      );
+      return match ? from + match[0].length : from + 1;
+    }
+    case "cpp":
+      // Digit separator (1'000'000)
+      if (/[0-9a-fA-F]/.test(source[from - 1] ?? "") && /[0-9a-fA-F]/.test(source[from + 1] ?? "")) {
+        return from + 1;
+      }
+      return skipQuoted(source, from + 1, "'");
+    default:
+      return skipQuoted(source, from + 1, "'");
+  }
+}
+
+function skipRustRawString(source: string, from: number): number {
+  let hashes = 0;
+  while (source[from + hashes] === "#") {
+    hashes++;
+  }
+  if (source[from + hashes] !== '"') {
+    return -1;
+  }
+  return skipUntil(source, from + hashes + 1, '"' + "#".repeat(hashes));
+}
+
+function skipCppRawString(source: string, from: number): number {
+  const open = source.indexOf("(", from);
+  if (open === -1) {
+    return source.length;
+  }
+  const delimiter = source.slice(from, open);
+  return skipUntil(source, open + 1, ")" + delimiter + '"');
+}
+
+function regexAllowed(lastToken: string, lastWord: string): boolean {
+  if (lastToken === "") {
+    return true;
+  }
+  if (lastToken === "a") {
+    return REGEX_PRECEDING_KEYWORDS.has(lastWord);
+  }
+  return "(,=:[!&|?{};+-*%<>~^}".includes(lastToken);
+}
+
+/**
+ * Whether the last token ends an operand, making a following `++`/`--` postfix
+ */
+function endsOperand(lastToken: string, lastWord: string): boolean {
+  if (lastToken === "a") {
+    return !REGEX_PRECEDING_KEYWORDS.has(lastWord);
+  }
+  return lastToken !== "" && ")]\"`".includes(lastToken);
+}
+
+/**
+ * Whether the `{` at `index` opens an object literal rather than a block: it sits where an
+ * expression is expected, and not after a statement boundary, `do`, `else` or an arrow
+ */
+function opensObjectLiteral(source: string, index: number, lastToken: string, lastWord: string): boolean {
+  if (lastToken === "" || "{};".includes(lastToken) || lastWord === "do" || lastWord === "else") {
+    return false;
+  }
+  let before = index - 1;
+  while (before > 0 && /\s/.test(source[before])) {
+    before--;
+  }
+  if (source[before] === ">" && source[before - 1] === "=") {
+    return false;
+  }
+  return regexAllowed(lastToken, lastWord);
+}
+
+function skipRegex(source: string, from: number): number {
+  let i = from;
+  let inClass = false;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === "\\") {
+      i += 2;
+      continue;
+    }
+    if (ch === "\n") {
+      return i; // Not a regex after all; resume on the next line
+    }
+    if (ch === "[") {
+      inClass = true;
+    } else if (ch === "]") {
+      inClass = false;
+    } else if (ch === "/" && !inClass) {
+      i++;
+      while (/[a-z]/i.test(source[i] ?? "")) {
+        i++; // Flags
+      }
+      return i;
+    }
+    i++;
+  }
+  return source.length;
+}
+
+/**
+ * Scanner for `#` comment languages (Python, Ruby, shell)
+ */
+function scanHash(source: string, syntax: LanguageSyntax): CommentSpan[] {
+  const spans: CommentSpan[] = [];
+  let i = 0;
+  let pendingHeredoc: { delimiter: string; allowIndent: boolean } | null = null;
+
+  while (i < source.length) {
+    const ch = source[i];
+    const atLineStart = i === 0 || source[i - 1] === "\n";
+
+    if (ch === "\n" && pendingHeredoc) {
+      i = skipHeredocBody(source, i + 1, pendingHeredoc);
+      pendingHeredoc = null;
+      continue;
+    }
+
+    if (syntax.rubyBlockComments && atLineStart && source.startsWith("=begin", i)) {
+      const endMatch = /^=end\b[^\r\n]*/m.exec(source.slice(i));
+      const end = endMatch ? i + endMatch.index + endMatch[0].length : source.length;
+      spans.push({ start: i, end, kind: "block" });
+      i = end;
+      continue;
+    }
+
+    if (ch === "#") {
+      if (i === 0 && source[1] === "!") {
+        i = lineEnd(source, 0); // Shebang
+        continue;
+      }
+      const prev = source[i - 1];
+      if (!syntax.hashNeedsBoundary || prev === undefined || /[\s;|&()]/.test(prev)) {
+        const end = lineEnd(source, i);
+        spans.push({ start: i, end, kind: "line" });
+        i = end;
+        continue;
+      }
+      i++;
+      continue;
+    }
+
+    if (syntax.pythonStrings && (source.startsWith('"""', i) || source.startsWith("'''", i))) {
+      i = skipUntil(source, i + 3, source.slice(i, i + 3));
+      continue;
+    }
+
+    if (ch === "'") {
+      i = syntax.literalSingleQuotes
+        ? skipQuoted(source, i + 1, "'", { escapes: false, multiline: true })
+        : skipQuoted(source, i + 1, "'", { multiline: !syntax.pythonStrings });
+      continue;
+    }
+    if (ch === '"') {
+      i = skipQuoted(source, i + 1, '"', { multiline: !syntax.pythonStrings });
+      continue;
+    }
+
+    if (syntax.heredocs && ch === "<" && source[i + 1] === "<") {
+      if (source[i + 2] === "<") {
+        i += 3; // Here-string (<<<), not a heredoc
+        continue;
+      }
+      const match = /^<<([-~]?)(['"]?)([A-Za-z_][A-Za-z0-9_]*)\2/.exec(source.slice(i, i + 80));
+      if (match) {
+        pendingHeredoc = { delimiter: match[3], allowIndent: match[1] !== "" };
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return spans;
+}
+
+function skipHeredocBody(
+  source: string,
+  from: number,
+  heredoc: { delimiter: string; allowIndent: boolean }
+): number {
+  let i = from;
+  while (i < source.length) {
+    const end = source.indexOf("\n", i);
+    const lineText = source.slice(i, end === -1 ? source.length : end).replace(/\r$/, "");
+    const candidate = heredoc.allowIndent ? lineText.trim() : lineText;
+    if (candidate === heredoc.delimiter) {
+      return end === -1 ? source.length : end;
+    }
+    if (end === -1) {
+      return source.length;
+    }
+    i = end + 1;
+  }
+  return source.length;
+}
+
+/**
+ * Line-based scanner for YAML, aware of quoted scalars and block scalars (| and >)
+ */
+function scanYaml(source: string): CommentSpan[] {
+  const spans: CommentSpan[] = [];
+  let offset = 0;
+  let blockScalarIndent = -1;
+
+  for (const rawLine of source.split("\n")) {
+    const lineStart = offset;
+    offset += rawLine.length + 1;
+    const text = rawLine.replace(/\r$/, "");
+    const indent = text.length - text.trimStart().length;
+
+    if (blockScalarIndent >= 0) {
+      if (text.trim() === "" || indent > blockScalarIndent) {
+        continue; // Block scalar content is literal
+      }
+      blockScalarIndent = -1;
+    }
+
+    let commentAt = -1;
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+        commentAt = i;
+        break;
+      }
+      if ((ch === '"' || ch === "'") && isYamlScalarStart(text, i)) {
+        i = ch === '"' ? skipQuoted(text, i + 1, '"') : skipYamlSingleQuoted(text, i + 1);
+        continue;
+      }
+      i++;
+    }
+
+    if (commentAt !== -1) {
+      spans.push({ start: lineStart + commentAt, end: lineStart + text.length, kind: "line" });
+    }
+
+    const content = (commentAt === -1 ? text : text.slice(0, commentAt)).trimEnd();
+    if (/(^|[:\-]\s*|\s)[|>][-+0-9]*$/.test(content)) {
+      blockScalarIndent = indent;
+    }
+  }
+
+  return spans;
+}
+
+function isYamlScalarStart(text: string, index: number): boolean {
+  const before = text.slice(0, index).trimEnd();
+  return before === "" || /[:\-[{,?]$/.test(before);
+}
+
+function skipYamlSingleQuoted(text: string, from: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === "'") {
+      if (text[i + 1] === "'") {
+        i += 2; // '' escape
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return text.length;
+}
+
+/**
+ * Scanner for HTML/XML comments; script and style bodies are left alone
+ */
+function scanHtml(source: string): CommentSpan[] {
+  const spans: CommentSpan[] = [];
+  const pattern = /<!--[\s\S]*?(?:-->|$)|<(script|style)\b[\s\S]*?<\/\1\s*>|<!\[CDATA\[[\s\S]*?\]\]>/gi;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const text = match[0];
+    if (!text.startsWith("<!--")) {
+      continue;
+    }
+    // Keep IE conditional comments, they are markup rather than commentary
+    if (/^<!--\[if\b/i.test(text) || /<!\[endif\]-->$/i.test(text)) {
+      continue;
+    }
+    spans.push({ start: match.index, end: match.index + text.length, kind: "block" });
+  }
+
+  return spans;
+}
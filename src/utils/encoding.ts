@@ -0,0 +1,112 @@
+/**
+ * Decoding of source files that are not UTF-8.
+ *
+ * A byte order mark always wins. Otherwise the encoding configured in VS Code
+ * (`files.encoding`) is used when it is not UTF-8; UTF-8 files are detected
+ * by decoding strictly, and anything else is guessed as Shift-JIS when it
+ * decodes cleanly to Japanese text, or Windows-1252 (a superset of Latin-1
+ * that can decode any byte).
+ */
+
+/**
+ * Decoded file content
+ */
+export interface DecodedText {
+  /** Content without byte order mark */
+  text: string;
+
+  /** WHATWG encoding label the content was decoded with, e.g. "utf-8" or "windows-1252" */
+  encoding: string;
+}
+
+/** VS Code `files.encoding` ids that do not follow the naming schemes below */
+const VSCODE_ENCODING_ALIASES: Record<string, string> = {
+  utf8: "utf-8",
+  utf8bom: "utf-8",
+  utf16le: "utf-16le",
+  utf16be: "utf-16be",
+  shiftjis: "shift_jis",
+  eucjp: "euc-jp",
+  euckr: "euc-kr",
+  big5hkscs: "big5",
+  koi8r: "koi8-r",
+  koi8u: "koi8-u",
+  cp866: "ibm866",
+  macroman: "macintosh",
+};
+
+const BYTE_ORDER_MARKS: Array<[number[], string]> = [
+  [[0xef, 0xbb, 0xbf], "utf-8"],
+  [[0xff, 0xfe], "utf-16le"],
+  [[0xfe, 0xff], "utf-16be"],
+];
+
+/**
+ * Characters of Windows-1252 bytes 0x80-0x9F; some Node versions decode these
+ * bytes as Latin-1 control characters instead (undefined bytes stay as they are)
+ */
+const WINDOWS_1252_HIGH =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+/** Hiragana, katakana, CJK ideographs and full-width forms */
+const JAPANESE_CHARACTER = /[\u3040-\u30ff\u4e00-\u9faf\uff00-\uffef]/g;
+
+/**
+ * Map a VS Code `files.encoding` id (e.g. "windows1252", "iso885915") to a WHATWG label
+ * Returns undefined for encodings the runtime cannot decode
+ */
+export function toWhatwgEncoding(vscodeEncoding: string): string | undefined {
+  const id = vscodeEncoding.toLowerCase();
+  const label =
+    VSCODE_ENCODING_ALIASES[id] ??
+    id.replace(/^windows(\d+)$/, "windows-$1").replace(/^iso8859(\d+)$/, "iso-8859-$1");
+
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode file content; `configuredEncoding` is a WHATWG label used for files without byte order mark
+ */
+export function decodeText(buffer: Uint8Array, configuredEncoding?: string): DecodedText {
+  for (const [mark, encoding] of BYTE_ORDER_MARKS) {
+    if (mark.every((byte, index) => buffer[index] === byte)) {
+      return { text: decode(buffer.subarray(mark.length), encoding), encoding };
+    }
+  }
+
+  if (configuredEncoding && configuredEncoding !== "utf-8") {
+    return { text: decode(buffer, configuredEncoding), encoding: configuredEncoding };
+  }
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(buffer), encoding: "utf-8" };
+  } catch {
+    // Not UTF-8; guess a legacy encoding below
+  }
+
+  try {
+    const text = new TextDecoder("shift_jis", { fatal: true }).decode(buffer);
+    const nonAscii = Array.from(text).filter((char) => char.charCodeAt(0) > 0x7f).length;
+    const japanese = text.match(JAPANESE_CHARACTER)?.length ?? 0;
+    if (nonAscii > 0 && japanese / nonAscii >= 0.8) {
+      return { text, encoding: "shift_jis" };
+    }
+  } catch {
+    // Not Shift-JIS either
+  }
+
+  return { text: decode(buffer, "windows-1252"), encoding: "windows-1252" };
+}
+
+function decode(buffer: Uint8Array, encoding: string): string {
+  const text = new TextDecoder(encoding).decode(buffer);
+  if (encoding !== "windows-1252") {
+    return text;
+  }
+  return text.replace(/[\u0080-\u009f]/g, (char) => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80]);
+}
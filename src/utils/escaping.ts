@@ -0,0 +1,70 @@
+/**
+ * Escaping of content placed inside the generated context.
+ *
+ * Without escaping, a file or issue that contains `</file>` or `</context>`
+ * ends the surrounding block early as far as the model can tell. Content can
+ * be wrapped in CDATA sections, have its markup characters replaced by
+ * entities, or be enclosed by a delimiter line that does not occur in it.
+ */
+
+export type EscapingStrategy = "none" | "cdata" | "entities" | "delimiters";
+
+const DELIMITER_BASE = "END_OF_CONTENT";
+
+/**
+ * Replace `&`, `<` and `>` (and quotes, for attribute values) with entities
+ */
+export function escapeXmlEntities(text: string, escapeQuotes = false): string {
+  const escaped = text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return escapeQuotes ? escaped.replace(/"/g, "&quot;").replace(/'/g, "&apos;") : escaped;
+}
+
+/**
+ * Wrap text in a CDATA section; `]]>` inside it is split across two sections
+ */
+export function wrapCdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+/**
+ * A delimiter that does not occur in the text: `END_OF_CONTENT`, then `END_OF_CONTENT_2`...
+ */
+export function chooseDelimiter(text: string): string {
+  let delimiter = DELIMITER_BASE;
+  for (let suffix = 2; text.includes(delimiter); suffix++) {
+    delimiter = `${DELIMITER_BASE}_${suffix}`;
+  }
+  return delimiter;
+}
+
+/**
+ * Enclose text heredoc-style: `<<<DELIMITER`, the text, then the delimiter on its own line
+ */
+export function wrapWithDelimiters(text: string): string {
+  const delimiter = chooseDelimiter(text);
+  return `<<<${delimiter}\n${text}\n${delimiter}`;
+}
+
+/**
+ * Escape multi-line content: file content, issue and comment bodies, diffs and the project tree
+ */
+export function escapeContent(text: string, strategy: EscapingStrategy): string {
+  switch (strategy) {
+    case "cdata":
+      return wrapCdata(text);
+    case "entities":
+      return escapeXmlEntities(text);
+    case "delimiters":
+      return wrapWithDelimiters(text);
+    default:
+      return text;
+  }
+}
+
+/**
+ * Escape attribute values and one-line fields of XML output
+ * These cannot hold CDATA or delimiter lines, so every strategy but "none" uses entities
+ */
+export function escapeXmlValue(text: string, strategy: EscapingStrategy): string {
+  return strategy === "none" ? text : escapeXmlEntities(text, true);
+}
@@ -0,0 +1,174 @@
+import { decodeText } from "./encoding";
+
+/**
+ * Content sniffing for files that should not be pasted into a prompt verbatim.
+ *
+ * Only the start of a file is inspected: binary formats are recognized by NUL
+ * bytes, control characters or magic numbers, minified bundles by their line
+ * lengths, and generated sources by the marker comments code generators put
+ * in the header (`Code generated ... DO NOT EDIT`, `@generated`, ...).
+ */
+
+/** Bytes read from the start of a file */
+export const SNIFF_SAMPLE_BYTES = 64 * 1024;
+
+/**
+ * What a file contains
+ * - text: regular source or prose, included as is
+ * - binary: images, databases, archives and other non-text data
+ * - minified: bundles and other text with extremely long lines
+ * - generated: output of a code generator, marked as such in its header
+ */
+export type FileContentKind = "text" | "binary" | "minified" | "generated";
+
+export interface FileSniffResult {
+  kind: FileContentKind;
+
+  /** Human readable type or reason, e.g. "PNG image" or "marked @generated" */
+  detail?: string;
+}
+
+/** Minified code has long lines on average, or at least one huge line */
+const MINIFIED_AVERAGE_LINE_LENGTH = 500;
+const MINIFIED_MAX_LINE_LENGTH = 10_000;
+
+/** Short files are never called minified for their average alone */
+const MINIFIED_MIN_BYTES = 1024;
+
+/** Share of control characters above which undecodable content counts as binary */
+const BINARY_CONTROL_RATIO = 0.1;
+
+/** Only the first lines are checked for generator markers */
+const GENERATED_HEADER_BYTES = 2048;
+
+const GENERATED_MARKERS: Array<[RegExp, string]> = [
+  // Go convention, also used by many other generators
+  [/^\/\/ Code generated .* DO NOT EDIT\.$/m, "Code generated ... DO NOT EDIT"],
+  // Meta/Facebook convention; quoted mentions (like in this comment) do not count
+  [/(?<![`'"])@generated\b/, "@generated"],
+  [/<auto-generated\b/i, "<auto-generated>"],
+  [/\b(?:auto-?generated|automatically generated)\b.*\bdo not (?:edit|modify)\b/i, "auto-generated, do not edit"],
+];
+
+const MAGIC_NUMBERS: Array<[number[] | string, string]> = [
+  [[0x89, 0x50, 0x4e, 0x47], "PNG image"],
+  [[0xff, 0xd8, 0xff], "JPEG image"],
+  ["GIF8", "GIF image"],
+  ["%PDF", "PDF document"],
+  [[0x50, 0x4b, 0x03, 0x04], "ZIP archive"],
+  [[0x1f, 0x8b], "gzip archive"],
+  ["SQLite format 3", "SQLite database"],
+  [[0x7f, 0x45, 0x4c, 0x46], "ELF executable"],
+  [[0xcf, 0xfa, 0xed, 0xfe], "Mach-O executable"],
+  [[0x00, 0x61, 0x73, 0x6d], "WebAssembly module"],
+  [[0xca, 0xfe, 0xba, 0xbe], "Java class file"],
+  ["RIFF", "RIFF media file"],
+  ["wOFF", "WOFF font"],
+  ["wOF2", "WOFF2 font"],
+];
+
+/**
+ * Byte order marks of encodings that contain NUL bytes in regular text
+ */
+const WIDE_BOMS = [
+  [0xff, 0xfe],
+  [0xfe, 0xff],
+];
+
+/**
+ * Classify a file from the first bytes of its content
+ */
+export function sniffContent(sample: Buffer): FileSniffResult {
+  if (sample.length === 0) {
+    return { kind: "text" };
+  }
+
+  const binaryType = detectBinary(sample);
+  if (binaryType) {
+    return { kind: "binary", detail: binaryType };
+  }
+
+  const { text } = decodeText(sample);
+
+  const header = text.slice(0, GENERATED_HEADER_BYTES);
+  for (const [marker, description] of GENERATED_MARKERS) {
+    if (marker.test(header)) {
+      return { kind: "generated", detail: `marked "${description}"` };
+    }
+  }
+
+  const lines = text.split("\n");
+  const longestLine = lines.reduce((longest, line) => Math.max(longest, line.length), 0);
+  const averageLineLength = text.length / lines.length;
+  if (
+    longestLine >= MINIFIED_MAX_LINE_LENGTH ||
+    (sample.length >= MINIFIED_MIN_BYTES && averageLineLength >= MINIFIED_AVERAGE_LINE_LENGTH)
+  ) {
+    return {
+      kind: "minified",
+      detail: `lines of up to ${longestLine.toLocaleString("en-US")}${
+        sample.length >= SNIFF_SAMPLE_BYTES ? "+" : ""
+      } characters`,
+    };
+  }
+
+  return { kind: "text" };
+}
+
+/**
+ * One-line stand-in for a file that is left out of the context
+ */
+export function formatSniffPlaceholder(
+  result: FileSniffResult,
+  sizeBytes: number
+): string {
+  const detail = result.detail ? `, ${result.detail}` : "";
+  return `[${result.kind} file omitted: ${formatBytes(sizeBytes)}${detail}]`;
+}
+
+/**
+ * Whether a file's content was replaced by a placeholder (there is nothing to strip or outline)
+ */
+export function isSniffPlaceholder(content: string): boolean {
+  return /^\[(?:binary|minified|generated) file omitted: [^\n]*\]$/.test(content);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  if (bytes >= 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${bytes} bytes`;
+}
+
+/**
+ * Name of the binary format, or undefined for text
+ */
+function detectBinary(sample: Buffer): string | undefined {
+  for (const [magic, description] of MAGIC_NUMBERS) {
+    const bytes = typeof magic === "string" ? Buffer.from(magic, "latin1") : Buffer.from(magic);
+    if (sample.length >= bytes.length && sample.subarray(0, bytes.length).equals(bytes)) {
+      return description;
+    }
+  }
+
+  // UTF-16 text is full of NUL bytes
+  if (WIDE_BOMS.some(([first, second]) => sample[0] === first && sample[1] === second)) {
+    return undefined;
+  }
+
+  if (sample.includes(0)) {
+    return "binary data";
+  }
+
+  // Legacy 8-bit encodings are text too; only control characters give binary data away
+  let controlCharacters = 0;
+  for (const byte of sample) {
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20 && byte !== 0x1b)) {
+      controlCharacters++;
+    }
+  }
+  return controlCharacters / sample.length > BINARY_CONTROL_RATIO ? "binary data" : undefined;
+}
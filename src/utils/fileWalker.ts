@@ -0,0 +1,79 @@
+/**
+ * Filesystem walk used for file discovery.
+ *
+ * Ignored directories are pruned instead of listed and filtered afterwards, so
+ * the ignore engine is the only authority on what is excluded and large
+ * ignored trees (node_modules, build output) are never read.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+/** Directories read at the same time */
+const WALK_CONCURRENCY = 16;
+
+/**
+ * Decide whether a path is skipped; `isDirectory` lets directory-only patterns (`build/`) match
+ */
+export type IgnorePredicate = (absolutePath: string, isDirectory: boolean) => boolean;
+
+/**
+ * List all files below a directory that are not ignored, without entering ignored directories
+ * Symbolic links are followed; each real directory is visited once so link cycles terminate
+ */
+export async function walkFiles(
+  rootPath: string,
+  isIgnored: IgnorePredicate
+): Promise<string[]> {
+  const files: string[] = [];
+  const visitedDirectories = new Set<string>();
+  const pending = [rootPath];
+
+  const readDirectory = async (directory: string): Promise<void> => {
+    let entries: fs.Dirent[];
+    try {
+      const realPath = await fs.promises.realpath(directory);
+      if (visitedDirectories.has(realPath)) {
+        return;
+      }
+      visitedDirectories.add(realPath);
+      entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      console.warn(`Error reading directory ${directory}:`, error);
+      return;
+    }
+
+    for (const entry of entries) {
+      const absolutePath = path.join(directory, entry.name);
+      let isDirectory = entry.isDirectory();
+      let isFile = entry.isFile();
+
+      if (entry.isSymbolicLink()) {
+        try {
+          const stats = await fs.promises.stat(absolutePath);
+          isDirectory = stats.isDirectory();
+          isFile = stats.isFile();
+        } catch {
+          continue; // Broken link
+        }
+      }
+
+      // Sockets, FIFOs and devices are never context
+      if ((!isDirectory && !isFile) || isIgnored(absolutePath, isDirectory)) {
+        continue;
+      }
+
+      if (isDirectory) {
+        pending.push(absolutePath);
+      } else {
+        files.push(absolutePath);
+      }
+    }
+  };
+
+  while (pending.length > 0) {
+    await Promise.all(pending.splice(0, WALK_CONCURRENCY).map(readDirectory));
+  }
+
+  return files;
+}
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
 
 export interface GitHubRepoInfo {
   owner: string;
@@ -113,14 +113,21 @@ export class GitHubConfigManager {
     await context.workspaceState.update(this.REPO_OVERRIDE_KEY, { owner, repo });
   }
 
-  private static getDefaultBranch(workspaceRoot?: string): string {
+  /**
+   * Get the default branch from origin/HEAD, falling back to "main"
+   */
+  static getDefaultBranch(workspaceRoot?: string): string {
     try {
       const gitOptions = workspaceRoot 
         ? { encoding: 'utf8' as const, cwd: workspaceRoot }
         : { encoding: 'utf8' as const };
         
-      return execSync('git symbolic-ref refs/remotes/origin/HEAD | sed "s@^refs/remotes/origin/@@"', 
-        gitOptions).trim();
+      // Repositories without origin/HEAD (local-only, or a remote added by hand) print nothing
+      const ref = execFileSync('git', ['symbolic-ref', '--short', 'refs/remotes/origin/HEAD'], {
+        ...gitOptions,
+        stdio: ['ignore', 'pipe', 'ignore'],
+      }).trim();
+      return ref.replace(/^origin\//, '') || 'main';
     } catch {
       return 'main'; // fallback
     }
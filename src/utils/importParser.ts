@@ -0,0 +1,133 @@
+/**
+ * Extract import specifiers from source files.
+ *
+ * Parsing is regex based and runs on comment-stripped source, so commented-out
+ * imports are ignored. Specifiers are returned exactly as written; resolving
+ * them to files is left to the caller (see ImportGraphService).
+ */
+
+import { stripComments } from "./commentStripper";
+
+export type ImportLanguage = "js" | "python" | "go";
+
+/**
+ * An import as written in the source
+ */
+export interface ImportSpecifier {
+  /** Module specifier, e.g. `./utils`, `@app/models`, `..pkg.mod` or `example.com/mod/pkg` */
+  specifier: string;
+
+  /** Python `from x import a, b`: the imported names, which may themselves be submodules */
+  names?: string[];
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, ImportLanguage> = {
+  js: "js",
+  jsx: "js",
+  mjs: "js",
+  cjs: "js",
+  ts: "js",
+  tsx: "js",
+  mts: "js",
+  cts: "js",
+  py: "python",
+  pyi: "python",
+  go: "go",
+};
+
+// `import x from "y"`, `import { a } from "y"`, `export * from "y"`, `import type T from "y"`
+const JS_FROM_IMPORT = /\b(?:import|export)\s+(?:type\s+)?[\w*{}\s,$]*?\bfrom\s*["']([^"'\n]+)["']/g;
+// `import "y"` (side effect only)
+const JS_BARE_IMPORT = /\bimport\s*["']([^"'\n]+)["']/g;
+// `require("y")`, `import("y")`, `jest.requireActual("y")`
+const JS_CALL_IMPORT = /\b(?:require|import|requireActual)\s*\(\s*["']([^"'\n]+)["']\s*\)/g;
+
+const PYTHON_IMPORT = /^[ \t]*import[ \t]+([\w. \t,]+)/gm;
+const PYTHON_FROM_IMPORT = /^[ \t]*from[ \t]+([\w.]+)[ \t]+import[ \t]+(\([^)]*\)|[^\n]+)/gm;
+
+const GO_SINGLE_IMPORT = /^[ \t]*import[ \t]+(?:[\w.]+[ \t]+)?"([^"]+)"/gm;
+const GO_IMPORT_BLOCK = /^[ \t]*import[ \t]*\(([^)]*)\)/gm;
+const GO_BLOCK_ENTRY = /^[ \t]*(?:[\w.]+[ \t]+)?"([^"]+)"/gm;
+
+/**
+ * Language whose imports can be parsed for a file extension (without the leading dot)
+ */
+export function getImportLanguage(
+  extension: string | undefined
+): ImportLanguage | undefined {
+  return extension ? LANGUAGE_BY_EXTENSION[extension.toLowerCase()] : undefined;
+}
+
+/**
+ * Parse the imports of a file. Returns an empty list for unsupported languages.
+ */
+export function parseImports(
+  source: string,
+  extension: string | undefined
+): ImportSpecifier[] {
+  const language = getImportLanguage(extension);
+  if (!language) {
+    return [];
+  }
+
+  const code = stripComments(source, extension);
+  switch (language) {
+    case "js":
+      return parseJsImports(code);
+    case "python":
+      return parsePythonImports(code);
+    case "go":
+      return parseGoImports(code);
+  }
+}
+
+function parseJsImports(code: string): ImportSpecifier[] {
+  const specifiers = new Set<string>();
+  for (const pattern of [JS_FROM_IMPORT, JS_BARE_IMPORT, JS_CALL_IMPORT]) {
+    for (const match of code.matchAll(pattern)) {
+      specifiers.add(match[1]);
+    }
+  }
+  return Array.from(specifiers, (specifier) => ({ specifier }));
+}
+
+function parsePythonImports(code: string): ImportSpecifier[] {
+  const imports: ImportSpecifier[] = [];
+
+  for (const match of code.matchAll(PYTHON_IMPORT)) {
+    // `import a.b as c, d`
+    for (const part of match[1].split(",")) {
+      const specifier = part.trim().split(/\s+/)[0];
+      if (specifier) {
+        imports.push({ specifier });
+      }
+    }
+  }
+
+  for (const match of code.matchAll(PYTHON_FROM_IMPORT)) {
+    // `from .pkg import (a as b, c)`
+    const names = match[2]
+      .replace(/[()\\]/g, " ")
+      .split(",")
+      .map((name) => name.trim().split(/\s+/)[0])
+      .filter((name) => name && name !== "*");
+    imports.push({ specifier: match[1], names });
+  }
+
+  return imports;
+}
+
+function parseGoImports(code: string): ImportSpecifier[] {
+  const specifiers = new Set<string>();
+
+  for (const match of code.matchAll(GO_SINGLE_IMPORT)) {
+    specifiers.add(match[1]);
+  }
+  for (const block of code.matchAll(GO_IMPORT_BLOCK)) {
+    for (const entry of block[1].matchAll(GO_BLOCK_ENTRY)) {
+      specifiers.add(entry[1]);
+    }
+  }
+
+  return Array.from(specifiers, (specifier) => ({ specifier }));
+}
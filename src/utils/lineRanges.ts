@@ -0,0 +1,168 @@
+/**
+ * Extraction of line ranges from file content.
+ *
+ * Lines between and around the kept ranges are replaced by a single elision
+ * marker that names the omitted lines, so the original line numbers of every
+ * kept line can still be read off the result.
+ */
+
+/**
+ * A line of content with its line number in the original file; elision
+ * markers and other inserted lines have no number
+ */
+export interface NumberedLine {
+  lineNumber?: number;
+  text: string;
+}
+
+/**
+ * Inclusive range of 1-based line numbers
+ */
+export interface LineRange {
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * Split text into lines; a final line break does not start another line
+ */
+export function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Number of lines of a text, as shown by editors for the last line with content
+ */
+export function countLines(text: string): number {
+  return splitLines(text).length;
+}
+
+/**
+ * Sort ranges and merge the ones that overlap or touch
+ */
+export function mergeLineRanges(ranges: LineRange[]): LineRange[] {
+  const sorted = [...ranges].sort((a, b) => a.startLine - b.startLine);
+  const merged: LineRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.startLine <= last.endLine + 1) {
+      last.endLine = Math.max(last.endLine, range.endLine);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Marker standing in for omitted lines
+ */
+export function formatElisionMarker(startLine: number, endLine: number): string {
+  return startLine === endLine
+    ? `... (line ${startLine} omitted)`
+    : `... (lines ${startLine}-${endLine} omitted)`;
+}
+
+/**
+ * Number the lines of a text, starting at `firstLine`
+ */
+export function toNumberedLines(text: string, firstLine = 1): NumberedLine[] {
+  return splitLines(text).map((line, index) => ({
+    lineNumber: firstLine + index,
+    text: line,
+  }));
+}
+
+/**
+ * Keep only the lines within the given ranges, with elision markers for the rest
+ * Lines may be missing already (stripped comments); markers describe the original lines
+ */
+export function extractNumberedLines(
+  lines: NumberedLine[],
+  ranges: LineRange[],
+  totalLines: number
+): NumberedLine[] {
+  const output: NumberedLine[] = [];
+  let nextLine = 1;
+
+  for (const range of mergeLineRanges(ranges)) {
+    const startLine = Math.max(range.startLine, nextLine);
+    const endLine = Math.min(range.endLine, totalLines);
+    if (startLine > endLine) {
+      continue;
+    }
+
+    if (startLine > nextLine) {
+      output.push({ text: formatElisionMarker(nextLine, startLine - 1) });
+    }
+    output.push(
+      ...lines.filter(
+        (line) =>
+          line.lineNumber !== undefined &&
+          line.lineNumber >= startLine &&
+          line.lineNumber <= endLine
+      )
+    );
+    nextLine = endLine + 1;
+  }
+
+  if (nextLine <= totalLines) {
+    output.push({ text: formatElisionMarker(nextLine, totalLines) });
+  }
+
+  return output;
+}
+
+/**
+ * Keep only the given lines of a text, with elision markers for the rest
+ */
+export function extractLineRanges(text: string, ranges: LineRange[]): string {
+  const lines = toNumberedLines(text);
+  return extractNumberedLines(lines, ranges, lines.length)
+    .map((line) => line.text)
+    .join("\n");
+}
+
+/**
+ * Drop blank lines at the start and end
+ */
+export function trimBlankLines(lines: NumberedLine[]): NumberedLine[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].text.trim() === "") {
+    start++;
+  }
+  while (end > start && lines[end - 1].text.trim() === "") {
+    end--;
+  }
+  return lines.slice(start, end);
+}
+
+/**
+ * Join lines, optionally prefixed with their original line numbers (`12 | text`)
+ * Lines without a number get a blank gutter so the content stays aligned
+ */
+export function formatNumberedLines(lines: NumberedLine[], showLineNumbers: boolean): string {
+  if (!showLineNumbers) {
+    return lines.map((line) => line.text).join("\n");
+  }
+
+  const width = String(
+    lines.reduce((max, line) => Math.max(max, line.lineNumber ?? 0), 0)
+  ).length;
+  return lines
+    .map((line) => {
+      const gutter =
+        line.lineNumber === undefined
+          ? " ".repeat(width)
+          : String(line.lineNumber).padStart(width);
+      return line.text === "" ? `${gutter} |` : `${gutter} | ${line.text}`;
+    })
+    .join("\n");
+}
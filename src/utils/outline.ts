@@ -0,0 +1,271 @@
+import { StrippedLine, maskLiterals, stripCommentsToLines } from "./commentStripper";
+import { LineRange } from "./lineRanges";
+
+/**
+ * Heuristic code outlines: keep declarations and signatures, collapse bodies.
+ *
+ * Brace languages keep everything at the top level and inside container
+ * declarations (classes, interfaces, structs, namespaces...) and replace
+ * function and initializer bodies with `{ … }`. Python keeps imports,
+ * top-level statements, classes and `def` signatures with `...` bodies.
+ * Other languages can be outlined from their document symbols: the first
+ * line of each declaration is kept and its body collapsed.
+ */
+
+/**
+ * Declaration for symbol-based outlines; members are listed in `children`
+ */
+export interface OutlineSymbol extends LineRange {
+  children: OutlineSymbol[];
+}
+
+const BRACE_LANGUAGES = new Set([
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "ts",
+  "tsx",
+  "mts",
+  "cts",
+  "go",
+  "rs",
+  "java",
+  "kt",
+  "kts",
+  "scala",
+  "swift",
+  "c",
+  "h",
+  "cc",
+  "cpp",
+  "cxx",
+  "hh",
+  "hpp",
+  "hxx",
+  "cs",
+]);
+
+const PYTHON_LANGUAGES = new Set(["py", "pyi", "pyw"]);
+
+// Tested against the code before a `{`, so a type alias is recognised by its trailing `=`
+const CONTAINER_DECLARATION =
+  /\b(class|interface|enum|struct|trait|impl|namespace|module|mod|object|record|union|protocol|extension)\b|^\s*(export\s+)?(declare\s+)?type\s+\w+[^=]*=[^;]*$|\bextern\s+"C"/;
+
+const STRING_LITERAL = /"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'|`(?:\\.|[^`\\])*`/g;
+
+/**
+ * Blank out string literal contents while keeping column positions intact
+ */
+function maskStrings(text: string): string {
+  return text.replace(
+    STRING_LITERAL,
+    (literal) => literal[0] + " ".repeat(literal.length - 2) + literal[literal.length - 1]
+  );
+}
+
+/**
+ * Check whether an outline can be generated for a file extension (without the leading dot)
+ */
+export function supportsOutline(extension: string | undefined): boolean {
+  const ext = extension?.toLowerCase();
+  return !!ext && (BRACE_LANGUAGES.has(ext) || PYTHON_LANGUAGES.has(ext));
+}
+
+/**
+ * Generate an outline of a source file, or null if the language is not supported
+ */
+export function generateOutline(
+  source: string,
+  extension: string | undefined
+): string | null {
+  const lines = generateOutlineLines(source, extension);
+  return lines ? lines.map((line) => line.text).join("\n") : null;
+}
+
+/**
+ * Generate outline lines (with original line numbers), or null if the language is not supported
+ */
+export function generateOutlineLines(
+  source: string,
+  extension: string | undefined
+): StrippedLine[] | null {
+  const ext = extension?.toLowerCase();
+  if (!ext || !supportsOutline(ext)) {
+    return null;
+  }
+
+  const lines = stripCommentsToLines(source, ext);
+  if (PYTHON_LANGUAGES.has(ext)) {
+    return outlinePython(lines);
+  }
+
+  // Mask literals over the whole file so a multi-line template or string cannot unbalance braces
+  const masked = maskLiterals(lines.map((line) => line.text).join("\n"), ext).split("\n");
+  return outlineBraces(lines, masked);
+}
+
+/**
+ * Generate an outline from document symbols, for languages without a built-in outline
+ */
+export function generateSymbolOutline(source: string, symbols: OutlineSymbol[]): string {
+  return generateSymbolOutlineLines(source, symbols)
+    .map((line) => line.text)
+    .join("\n");
+}
+
+/**
+ * Generate outline lines from document symbols (with original line numbers)
+ * Symbols with members keep their first and last line; others keep their first line
+ */
+export function generateSymbolOutlineLines(
+  source: string,
+  symbols: OutlineSymbol[]
+): StrippedLine[] {
+  const lines = source.split(/\r?\n/);
+  const result: StrippedLine[] = [];
+  let lastLine = 0;
+
+  const emit = (lineNumber: number, text: string) => {
+    if (lineNumber > lastLine && lineNumber <= lines.length) {
+      result.push({ lineNumber, text });
+      lastLine = lineNumber;
+    }
+  };
+
+  const visit = (symbol: OutlineSymbol) => {
+    const firstLine = lines[symbol.startLine - 1]?.trimEnd() ?? "";
+    if (symbol.children.length > 0) {
+      emit(symbol.startLine, firstLine);
+      [...symbol.children].sort((a, b) => a.startLine - b.startLine).forEach(visit);
+      emit(symbol.endLine, lines[symbol.endLine - 1]?.trimEnd() ?? "");
+    } else if (symbol.endLine > symbol.startLine) {
+      emit(symbol.startLine, firstLine.endsWith("{") ? `${firstLine} … }` : `${firstLine} …`);
+      lastLine = Math.max(lastLine, symbol.endLine);
+    } else {
+      emit(symbol.startLine, firstLine);
+    }
+  };
+
+  [...symbols].sort((a, b) => a.startLine - b.startLine).forEach(visit);
+  return result;
+}
+
+/**
+ * `masked` holds the text of each line with its string, template and regex literals blanked
+ */
+function outlineBraces(lines: StrippedLine[], masked: string[]): StrippedLine[] {
+  const result: StrippedLine[] = [];
+  const blocks: Array<"container" | "body"> = [];
+  let previousVisible = "";
+
+  for (const [index, line] of lines.entries()) {
+    const visible = blocks.every((block) => block === "container");
+    const code = masked[index];
+    const depthBefore = blocks.length;
+    let bodyOpenedAt = -1;
+
+    for (let i = 0; i < code.length; i++) {
+      const ch = code[i];
+      if (ch === "{") {
+        const isContainer =
+          visible &&
+          bodyOpenedAt === -1 &&
+          (CONTAINER_DECLARATION.test(code.slice(0, i)) ||
+            (code.slice(0, i).trim() === "" &&
+              CONTAINER_DECLARATION.test(previousVisible)));
+        blocks.push(isContainer ? "container" : "body");
+        if (!isContainer && visible && bodyOpenedAt === -1) {
+          bodyOpenedAt = i;
+        }
+      } else if (ch === "}") {
+        blocks.pop();
+      }
+    }
+
+    if (!visible) {
+      continue;
+    }
+
+    if (bodyOpenedAt !== -1 && blocks.length > depthBefore) {
+      // Body stays open past this line: collapse it
+      const signature = line.text.slice(0, bodyOpenedAt + 1).trimEnd();
+      result.push({ lineNumber: line.lineNumber, text: `${signature} … }` });
+    } else if (line.text.trim() !== "") {
+      result.push(line);
+    }
+
+    if (line.text.trim() !== "") {
+      previousVisible = code;
+    }
+  }
+
+  return result;
+}
+
+function outlinePython(lines: StrippedLine[]): StrippedLine[] {
+  const result: StrippedLine[] = [];
+  const blocks: Array<{ indent: number; kind: "class" | "def" }> = [];
+  let inSignature = false;
+  let parenDepth = 0;
+
+  for (const line of lines) {
+    const trimmed = line.text.trim();
+    if (trimmed === "") {
+      continue;
+    }
+
+    if (inSignature) {
+      parenDepth += countParens(line.text);
+      inSignature = parenDepth > 0;
+      result.push(collapseDefinition(line, inSignature));
+      continue;
+    }
+
+    const indent = line.text.length - line.text.trimStart().length;
+    while (blocks.length > 0 && blocks[blocks.length - 1].indent >= indent) {
+      blocks.pop();
+    }
+
+    if (!blocks.every((block) => block.kind === "class")) {
+      continue;
+    }
+
+    if (/^(async\s+def|def)\b/.test(trimmed)) {
+      blocks.push({ indent, kind: "def" });
+      parenDepth = countParens(line.text);
+      inSignature = parenDepth > 0;
+      result.push(collapseDefinition(line, inSignature));
+    } else if (/^class\b/.test(trimmed)) {
+      blocks.push({ indent, kind: "class" });
+      result.push(line);
+    } else {
+      result.push(line);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replace the body of a `def` with `...` once its signature is complete
+ */
+function collapseDefinition(line: StrippedLine, signatureOpen: boolean): StrippedLine {
+  if (signatureOpen || !line.text.trimEnd().endsWith(":")) {
+    return line;
+  }
+  return { lineNumber: line.lineNumber, text: `${line.text.trimEnd()} ...` };
+}
+
+function countParens(text: string): number {
+  const code = maskStrings(text);
+  let depth = 0;
+  for (const ch of code) {
+    if (ch === "(" || ch === "[") {
+      depth++;
+    } else if (ch === ")" || ch === "]") {
+      depth--;
+    }
+  }
+  return depth;
+}
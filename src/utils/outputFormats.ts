@@ -0,0 +1,418 @@
+import * as path from "path";
+import { EscapingStrategy, escapeContent, escapeXmlValue } from "./escaping";
+
+/**
+ * Output presets: how the generated context is laid out.
+ *
+ * XML, Markdown and plain text are rendered through block, wrapper and tree
+ * templates (the XML preset uses the configured templates, so customizing
+ * them reshapes it). GitHub issues, pull requests and git diffs have a fixed
+ * layout per preset. JSON is assembled as a single document with one array
+ * per kind of content, so it can be parsed by tools.
+ *
+ * Content is protected by the preset's escaping strategy. Markdown always
+ * fences code, diffs and the tree with a fence longer than any backtick run,
+ * so its strategy only decides whether issue and comment bodies are fenced
+ * too. JSON content is escaped by JSON itself.
+ */
+
+export type OutputPreset = "xml" | "markdown" | "json" | "plain";
+
+export interface OutputPresetInfo {
+  id: OutputPreset;
+  label: string;
+  description: string;
+}
+
+/**
+ * All presets, in the order they are offered
+ */
+export const OUTPUT_PRESETS: readonly OutputPresetInfo[] = [
+  {
+    id: "xml",
+    label: "XML",
+    description: "XML-style tags, shaped by the block and wrapper templates",
+  },
+  {
+    id: "markdown",
+    label: "Markdown",
+    description: "Headings and fenced code blocks with language tags",
+  },
+  {
+    id: "json",
+    label: "JSON",
+    description: "One JSON document with arrays of files, issues, PRs and git changes",
+  },
+  {
+    id: "plain",
+    label: "Plain",
+    description: "File paths as separators, no markup",
+  },
+];
+
+/**
+ * Look up a preset, falling back to XML for unknown values
+ */
+export function toOutputPreset(value: string | undefined): OutputPreset {
+  return OUTPUT_PRESETS.find((preset) => preset.id === value)?.id ?? "xml";
+}
+
+/**
+ * Escaping strategies each preset supports; the first one is the default
+ */
+export const PRESET_ESCAPING: Record<OutputPreset, readonly EscapingStrategy[]> = {
+  xml: ["none", "cdata", "entities", "delimiters"],
+  markdown: ["delimiters", "none"],
+  plain: ["none", "delimiters"],
+  json: ["none"],
+};
+
+/**
+ * Look up the escaping strategy of a preset, falling back to its default for unsupported values
+ */
+export function toEscapingStrategy(
+  preset: OutputPreset,
+  value: string | undefined
+): EscapingStrategy {
+  const strategies = PRESET_ESCAPING[preset];
+  return strategies.find((strategy) => strategy === value) ?? strategies[0];
+}
+
+/**
+ * Templates of a template-based preset
+ */
+export interface OutputTemplates {
+  blockTemplate: string;
+  blockSeparator: string;
+  wrapperTemplate: string | null;
+  projectTreeTemplate: string;
+}
+
+/**
+ * Built-in templates; the XML ones are the defaults of the template settings
+ */
+export const PRESET_TEMPLATES: Record<Exclude<OutputPreset, "json">, OutputTemplates> = {
+  xml: {
+    blockTemplate:
+      '<file name="{fileNameWithExtension}" path="{rawFilePath}">\n{fileContent}\n</file>',
+    blockSeparator: "\n",
+    wrapperTemplate:
+      "<context>\n{githubIssues}{githubPRs}{gitDiff}{treeBlock}<project_files>\n{blocks}\n</project_files>\n</context>",
+    projectTreeTemplate: "<project_tree>\n{projectTree}\n</project_tree>\n",
+  },
+  markdown: {
+    blockTemplate: "## {rawFilePath}\n\n{fence}{language}\n{fileContent}\n{fence}",
+    blockSeparator: "\n\n",
+    wrapperTemplate: "{githubIssues}{githubPRs}{gitDiff}{treeBlock}# Files\n\n{blocks}\n",
+    projectTreeTemplate: "# Project Tree\n\n{fence}\n{projectTree}\n{fence}\n\n",
+  },
+  plain: {
+    blockTemplate: "=== {rawFilePath} ===\n{fileContent}\n",
+    blockSeparator: "\n",
+    wrapperTemplate: "{githubIssues}{githubPRs}{gitDiff}{treeBlock}{blocks}",
+    projectTreeTemplate: "Project tree:\n{projectTree}\n\n",
+  },
+};
+
+// --- Markdown ---
+
+/** Code block language tags that differ from the file extension */
+const MARKDOWN_LANGUAGES: Record<string, string> = {
+  ts: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  py: "python",
+  pyi: "python",
+  rb: "ruby",
+  rs: "rust",
+  kt: "kotlin",
+  kts: "kotlin",
+  cs: "csharp",
+  cc: "cpp",
+  cxx: "cpp",
+  hh: "cpp",
+  hpp: "cpp",
+  hxx: "cpp",
+  h: "c",
+  sh: "bash",
+  yml: "yaml",
+  md: "markdown",
+  ps1: "powershell",
+  psm1: "powershell",
+  htm: "html",
+  jsonc: "json",
+  dockerfile: "dockerfile",
+  makefile: "makefile",
+};
+
+/**
+ * Language tag of a fenced code block for a file, or "" when unknown
+ */
+export function getMarkdownLanguage(filePath: string): string {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  const key = extension || path.basename(filePath).toLowerCase();
+  const language = MARKDOWN_LANGUAGES[key] ?? extension;
+  return /^[a-z0-9+#-]+$/.test(language) ? language : "";
+}
+
+/**
+ * A backtick fence longer than any backtick run in the content, so the content cannot close it
+ */
+export function getMarkdownFence(content: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  return "`".repeat(Math.max(3, longestRun + 1));
+}
+
+// --- GitHub issues, pull requests and git diffs ---
+
+/**
+ * An issue with its comments, as included in the context
+ */
+export interface IssueBlockData {
+  number: number;
+  state: string;
+  title: string;
+  url: string;
+  createdAt: string;
+  author: string;
+  labels: string[];
+  body: string | null;
+  comments: Array<{ author: string; createdAt: string; body: string }>;
+}
+
+/**
+ * Local changes of one repository
+ */
+export interface GitDiffBlockData {
+  repository: string;
+  source: string;
+  /** Ref the changes are compared against, when not the index or HEAD */
+  base?: string;
+  diff: string;
+}
+
+/**
+ * Fence Markdown text when bodies are escaped, so it cannot open code blocks or add headings
+ */
+function markdownBody(text: string, escaping: EscapingStrategy): string {
+  if (escaping !== "delimiters") {
+    return text;
+  }
+  const fence = getMarkdownFence(text);
+  return `${fence}markdown\n${text}\n${fence}`;
+}
+
+/**
+ * Render a GitHub issue and its comments
+ */
+export function renderIssueBlock(
+  preset: OutputPreset,
+  issue: IssueBlockData,
+  escaping: EscapingStrategy = "none"
+): string {
+  switch (preset) {
+    case "json":
+      return renderJsonBlock({ ...issue });
+
+    case "markdown": {
+      const lines = [
+        `## Issue #${issue.number}: ${issue.title} (${issue.state})`,
+        "",
+        `${issue.url} · opened by @${issue.author} on ${issue.createdAt}`,
+      ];
+      if (issue.labels.length > 0) {
+        lines.push("", `Labels: ${issue.labels.join(", ")}`);
+      }
+      if (issue.body) {
+        lines.push("", markdownBody(issue.body, escaping));
+      }
+      for (const comment of issue.comments) {
+        lines.push(
+          "",
+          `### Comment by @${comment.author} on ${comment.createdAt}`,
+          "",
+          markdownBody(comment.body, escaping)
+        );
+      }
+      return lines.join("\n");
+    }
+
+    case "plain": {
+      const lines = [
+        `=== Issue #${issue.number}: ${issue.title} (${issue.state}) ===`,
+        `${issue.url}, opened by ${issue.author} on ${issue.createdAt}`,
+      ];
+      if (issue.labels.length > 0) {
+        lines.push(`Labels: ${issue.labels.join(", ")}`);
+      }
+      if (issue.body) {
+        lines.push("", escapeContent(issue.body, escaping));
+      }
+      for (const comment of issue.comments) {
+        lines.push(
+          "",
+          `--- Comment by ${comment.author} on ${comment.createdAt} ---`,
+          escapeContent(comment.body, escaping)
+        );
+      }
+      return lines.join("\n") + "\n";
+    }
+
+    default: {
+      const value = (text: string) => escapeXmlValue(text, escaping);
+      let block = `<github_issue number="${issue.number}" state="${value(issue.state)}">
+<title>${value(issue.title)}</title>
+<url>${value(issue.url)}</url>
+<created_at>${value(issue.createdAt)}</created_at>
+<author>${value(issue.author)}</author>`;
+
+      if (issue.labels.length > 0) {
+        block += `\n<labels>${value(issue.labels.join(", "))}</labels>`;
+      }
+
+      if (issue.body) {
+        block += `\n<body>\n${escapeContent(issue.body, escaping)}\n</body>`;
+      }
+
+      if (issue.comments.length > 0) {
+        block += `\n<comments>`;
+        for (const comment of issue.comments) {
+          block += `\n<comment author="${value(comment.author)}" created_at="${value(comment.createdAt)}">
+${escapeContent(comment.body, escaping)}
+</comment>`;
+        }
+        block += `\n</comments>`;
+      }
+
+      return block + `\n</github_issue>`;
+    }
+  }
+}
+
+/**
+ * Render the diff of a GitHub pull request
+ */
+export function renderPullRequestBlock(
+  preset: OutputPreset,
+  prNumber: number,
+  diff: string,
+  escaping: EscapingStrategy = "none"
+): string {
+  switch (preset) {
+    case "json":
+      return renderJsonBlock({ number: prNumber, diff });
+    case "markdown": {
+      const fence = getMarkdownFence(diff);
+      return `## Pull Request #${prNumber}\n\n${fence}diff\n${diff.trimEnd()}\n${fence}`;
+    }
+    case "plain":
+      return `=== Pull Request #${prNumber} ===\n${escapeContent(diff.trimEnd(), escaping)}\n`;
+    default:
+      return `<github_pr number="${prNumber}">\n${escapeContent(diff, escaping)}\n</github_pr>`;
+  }
+}
+
+/**
+ * Render the local changes of a repository
+ */
+export function renderGitDiffBlock(
+  preset: OutputPreset,
+  data: GitDiffBlockData,
+  escaping: EscapingStrategy = "none"
+): string {
+  const diff = data.diff.trimEnd();
+  const base = data.base ? `, compared to ${data.base}` : "";
+
+  switch (preset) {
+    case "json":
+      return renderJsonBlock({ ...data, diff });
+    case "markdown": {
+      const fence = getMarkdownFence(diff);
+      return `## Git Changes: ${data.repository} (${data.source}${base})\n\n${fence}diff\n${diff}\n${fence}`;
+    }
+    case "plain":
+      return `=== Git changes: ${data.repository} (${data.source}${base}) ===\n${escapeContent(diff, escaping)}\n`;
+    default: {
+      const value = (text: string) => escapeXmlValue(text, escaping);
+      const baseAttribute = data.base ? ` base="${value(data.base)}"` : "";
+      return `<git_diff repository="${value(data.repository)}" source="${value(data.source)}"${baseAttribute}>\n${escapeContent(diff, escaping)}\n</git_diff>`;
+    }
+  }
+}
+
+/**
+ * Stand-in for a file that could not be read
+ */
+export function renderFileErrorBlock(
+  preset: OutputPreset,
+  relativePath: string,
+  escaping: EscapingStrategy = "none"
+): string {
+  switch (preset) {
+    case "json":
+      return renderJsonBlock({ path: relativePath, error: "Error reading file" });
+    case "plain":
+      return `=== ${relativePath} ===\n[Error reading file]\n`;
+    case "markdown":
+      return `<!-- Error reading file: ${relativePath} -->`;
+    default:
+      return `<!-- Error reading file: ${escapeXmlValue(relativePath, escaping)} -->`;
+  }
+}
+
+// --- JSON ---
+
+/**
+ * Sections of a JSON context; entries are blocks from `renderJsonBlock`
+ */
+export interface JsonContextSections {
+  prefix?: string;
+  issues: string[];
+  pullRequests: string[];
+  gitChanges: string[];
+  /** null when the project tree is left out */
+  projectTree: string | null;
+  files: string[];
+  suffix?: string;
+}
+
+/**
+ * Render one entry of a JSON context array
+ */
+export function renderJsonBlock(entry: Record<string, unknown>): string {
+  return JSON.stringify(entry, null, 2);
+}
+
+/**
+ * Assemble the JSON context document
+ * Blocks are embedded as they are, so token counts of single blocks stay accurate
+ */
+export function assembleJsonContext(sections: JsonContextSections): string {
+  const array = (blocks: string[]) =>
+    blocks.length === 0
+      ? "[]"
+      : `[\n${blocks.map((block) => block.replace(/^/gm, "    ")).join(",\n")}\n  ]`;
+
+  const fields: string[] = [];
+  if (sections.prefix) {
+    fields.push(`"prefix": ${JSON.stringify(sections.prefix)}`);
+  }
+  fields.push(
+    `"issues": ${array(sections.issues)}`,
+    `"pullRequests": ${array(sections.pullRequests)}`,
+    `"gitChanges": ${array(sections.gitChanges)}`,
+    `"projectTree": ${JSON.stringify(sections.projectTree)}`,
+    `"files": ${array(sections.files)}`
+  );
+  if (sections.suffix) {
+    fields.push(`"suffix": ${JSON.stringify(sections.suffix)}`);
+  }
+
+  return `{\n${fields.map((field) => `  ${field}`).join(",\n")}\n}`;
+}
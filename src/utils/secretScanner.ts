@@ -0,0 +1,340 @@
+/**
+ * Detection and redaction of secrets in generated context.
+ *
+ * Rules are regular expressions for well-known credential formats, plus
+ * `.env`-style assignments to secret-looking names and (optionally) quoted
+ * high-entropy strings. When a rule has a `group`, only that part of the
+ * match is the secret (e.g. the password inside a connection string).
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * A secret found in a text
+ */
+export interface SecretFinding {
+  ruleId: string;
+  description: string;
+
+  /** Offsets of the secret in the scanned text */
+  start: number;
+  end: number;
+
+  /** The secret itself */
+  value: string;
+
+  /** 1-based line of the secret in the scanned text */
+  line: number;
+
+  /** The secret as written in the scanned text, when that differs from `value` (escaped in JSON) */
+  raw?: string;
+}
+
+export interface SecretScanOptions {
+  /** Also report quoted strings that look random (may have false positives) */
+  highEntropy?: boolean;
+
+  /** The text is a JSON document: scan its string values as they read once decoded */
+  json?: boolean;
+}
+
+interface SecretRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+
+  /** Capture group holding the secret; the whole match when omitted */
+  group?: number;
+}
+
+// Names like `API_KEY`, `githubToken` or `db.password`, but not `tokenCount` or `author`
+const SECRET_NAME =
+  "[A-Za-z0-9_.-]*(?:secret|token|passwd|password|pwd|api[_-]?key|access[_-]?key|private[_-]?key|credentials?|auth)(?![A-Za-z])[A-Za-z0-9_.-]*";
+
+const RULES: SecretRule[] = [
+  {
+    id: "private-key",
+    description: "Private key",
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    id: "aws-access-key",
+    description: "AWS access key ID",
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: "github-token",
+    description: "GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g,
+  },
+  {
+    id: "gitlab-token",
+    description: "GitLab token",
+    pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/g,
+  },
+  {
+    id: "slack-token",
+    description: "Slack token",
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,
+  },
+  {
+    id: "stripe-key",
+    description: "Stripe secret key",
+    pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  },
+  {
+    id: "openai-key",
+    description: "OpenAI/Anthropic API key",
+    pattern: /\bsk-(?:proj-|ant-(?:api\d+-)?)?[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    id: "google-api-key",
+    description: "Google API key",
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  },
+  {
+    id: "jwt",
+    description: "JSON Web Token",
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    id: "connection-string",
+    description: "Password in connection string",
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@'"`]+:([^\s@'"`]+)@[^\s'"`]+/gi,
+    group: 1,
+  },
+  {
+    id: "env-assignment",
+    description: "Secret assignment",
+    // `API_KEY=abc123...` or `export DB_PASSWORD=...` on its own line; the value must mix letters
+    // and digits so `token = other_variable` in code is not reported
+    pattern: new RegExp(
+      `^[ \\t]*(?:export[ \\t]+)?${SECRET_NAME}[ \\t]*=[ \\t]*((?=[^\\s]*\\d)(?=[^\\s]*[A-Za-z])[A-Za-z0-9+/=_.~!@$%^&*-]{8,})[ \\t]*(?:#.*)?$`,
+      "gim"
+    ),
+    group: 1,
+  },
+  {
+    id: "secret-assignment",
+    description: "Secret assignment",
+    // `apiKey: "..."`, `self.password = '...'`, `"client_secret": "..."` inside code
+    pattern: new RegExp(
+      `["']?${SECRET_NAME}["']?[ \\t]*(?::=|=|:)[ \\t]*["'\`]([^"'\`\\s]{8,})["'\`]`,
+      "gi"
+    ),
+    group: 1,
+  },
+];
+
+/** Values that are obviously not real secrets (examples, templates, references) */
+const PLACEHOLDER_VALUE =
+  /^(?:x+|\*+|\.+|-+|true|false|null|none|undefined)$|your[_-]?|example|placeholder|changeme|dummy|redacted|sample|<|>|\$\{|\{\{|%\(|process\.env|os\.environ|getenv|config\./i;
+
+/** Dotted or slashed names such as `promptTower.github.token` or `auth/token` (setting keys, paths) */
+const NAME_PATH_VALUE = /^[A-Za-z_$][\w$-]*(?:[./][\w$-]+)+$/;
+
+/** Character runs found in alphabets and sample data rather than generated secrets */
+const SEQUENTIAL_RUN = /abcdefgh|ABCDEFGH|01234567/;
+
+const QUOTED_STRING = /(["'`])([A-Za-z0-9+/=_-]{20,})\1/g;
+
+/**
+ * Find secrets in a text. Overlapping findings are merged, keeping the first.
+ */
+export function scanForSecrets(
+  text: string,
+  options: SecretScanOptions = {}
+): SecretFinding[] {
+  if (options.json) {
+    return scanJsonForSecrets(text, options);
+  }
+
+  const candidates: Omit<SecretFinding, "line">[] = [];
+
+  for (const rule of RULES) {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags + "d");
+    for (const match of text.matchAll(pattern)) {
+      const [start, end] = match.indices![rule.group ?? 0] ?? [];
+      if (start === undefined) {
+        continue;
+      }
+
+      const value = text.slice(start, end);
+      if (
+        rule.group !== undefined &&
+        (PLACEHOLDER_VALUE.test(value) || NAME_PATH_VALUE.test(value))
+      ) {
+        continue;
+      }
+
+      candidates.push({
+        ruleId: rule.id,
+        description: rule.description,
+        start,
+        end,
+        value,
+      });
+    }
+  }
+
+  if (options.highEntropy) {
+    for (const match of text.matchAll(new RegExp(QUOTED_STRING.source, "gd"))) {
+      const value = match[2];
+      if (looksRandom(value)) {
+        const [start, end] = match.indices![2];
+        candidates.push({
+          ruleId: "high-entropy",
+          description: "High-entropy string",
+          start,
+          end,
+          value,
+        });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const findings: SecretFinding[] = [];
+  let lastEnd = -1;
+  let line = 1;
+  let lineCountedUpTo = 0;
+
+  for (const candidate of candidates) {
+    if (candidate.start < lastEnd) {
+      continue;
+    }
+
+    for (let index = lineCountedUpTo; index < candidate.start; index++) {
+      if (text.charCodeAt(index) === 10) {
+        line++;
+      }
+    }
+    lineCountedUpTo = candidate.start;
+
+    findings.push({ ...candidate, line });
+    lastEnd = candidate.end;
+  }
+
+  return findings;
+}
+
+/**
+ * Find secrets in the string values of a JSON document, where escaping (`\n`, `\"`)
+ * would hide them from the rules. Offsets and lines point at the escaped secret in
+ * the document. Text that is not valid JSON is scanned as it is.
+ */
+function scanJsonForSecrets(text: string, options: SecretScanOptions): SecretFinding[] {
+  const textOptions = { ...options, json: false };
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    return scanForSecrets(text, textOptions);
+  }
+
+  const findings: SecretFinding[] = [];
+  // Where to look for the next occurrence of each escaped secret, so repeats map in order
+  const searchFrom = new Map<string, number>();
+
+  for (const value of collectJsonStrings(document)) {
+    for (const finding of scanForSecrets(value, textOptions)) {
+      const raw = JSON.stringify(finding.value).slice(1, -1);
+      const start = text.indexOf(raw, searchFrom.get(raw) ?? 0);
+      if (start === -1) {
+        continue;
+      }
+      searchFrom.set(raw, start + raw.length);
+
+      findings.push({
+        ...finding,
+        start,
+        end: start + raw.length,
+        line: text.slice(0, start).split("\n").length,
+        ...(raw !== finding.value ? { raw } : {}),
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * String values of a parsed JSON document, in document order
+ */
+function collectJsonStrings(value: unknown, strings: string[] = []): string[] {
+  if (typeof value === "string") {
+    strings.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectJsonStrings(item, strings));
+  } else if (value !== null && typeof value === "object") {
+    Object.values(value).forEach((item) => collectJsonStrings(item, strings));
+  }
+  return strings;
+}
+
+/**
+ * Stable placeholder for a secret: the same value always gets the same placeholder,
+ * so a model can still tell which occurrences refer to the same credential
+ */
+export function getRedactionPlaceholder(finding: SecretFinding): string {
+  const hash = createHash("sha256").update(finding.value).digest("hex").slice(0, 8);
+  return `[REDACTED:${finding.ruleId}:${hash}]`;
+}
+
+/**
+ * Replace the findings (and any other occurrences of the same values) with placeholders
+ */
+export function redactSecrets(text: string, findings: SecretFinding[]): string {
+  let redacted = text;
+
+  // Longest values first so a secret containing another is replaced whole
+  const values = new Map<string, string>();
+  for (const finding of findings) {
+    values.set(finding.raw ?? finding.value, getRedactionPlaceholder(finding));
+  }
+  for (const [value, placeholder] of [...values].sort(
+    (a, b) => b[0].length - a[0].length
+  )) {
+    redacted = redacted.split(value).join(placeholder);
+  }
+
+  return redacted;
+}
+
+/**
+ * Heuristic for random-looking strings: mixed character classes and high Shannon entropy
+ */
+function looksRandom(value: string): boolean {
+  const hasDigit = /\d/.test(value);
+  const hasLetter = /[A-Za-z]/.test(value);
+  if (
+    !hasDigit ||
+    !hasLetter ||
+    PLACEHOLDER_VALUE.test(value) ||
+    SEQUENTIAL_RUN.test(value)
+  ) {
+    return false;
+  }
+
+  // Hex digests are usually hashes and commit ids rather than credentials
+  if (/^[0-9a-f]+$/i.test(value)) {
+    return false;
+  }
+  return /[a-z]/.test(value) && /[A-Z]/.test(value) && shannonEntropy(value) >= 4.2;
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
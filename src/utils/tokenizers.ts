@@ -0,0 +1,123 @@
+import { countTokens as countCl100kTokens } from "gpt-tokenizer/encoding/cl100k_base";
+import { countTokens as countO200kTokens } from "gpt-tokenizer/encoding/o200k_base";
+
+/**
+ * A way of counting tokens for a family of models
+ */
+export interface Tokenizer {
+  /** Identifier used in the `promptTower.tokenizer` setting */
+  id: string;
+
+  /** Short name shown in the UI */
+  label: string;
+
+  /** Which models the count is meant for */
+  description: string;
+
+  /** Whether the count is an estimate rather than the model's real tokenizer */
+  approximate: boolean;
+
+  countTokens(text: string): number;
+}
+
+export const DEFAULT_TOKENIZER_ID = "cl100k";
+
+/**
+ * Scale factor from cl100k_base counts to Claude counts. Anthropic does not
+ * publish the Claude 3+ tokenizer; it produces noticeably more tokens than
+ * cl100k_base for code and English prose.
+ */
+const CLAUDE_CL100K_RATIO = 1.15;
+
+const SENTENCEPIECE_PIECES = /\p{L}+|\p{N}|\s+|[^\p{L}\p{N}\s]+/gu;
+const CJK_CHARACTER = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+/**
+ * Estimate SentencePiece (Gemini/Gemma) token counts: words are split into
+ * ~6 character pieces, CJK is roughly one token per character, digits are
+ * single tokens and punctuation merges in pairs. A single space is absorbed
+ * by the following piece (`▁word`); longer whitespace runs are one token.
+ */
+function countSentencePieceTokens(text: string): number {
+  let count = 0;
+  for (const [piece] of text.matchAll(SENTENCEPIECE_PIECES)) {
+    if (CJK_CHARACTER.test(piece)) {
+      count += piece.length;
+    } else if (/^\p{L}/u.test(piece)) {
+      count += Math.ceil(piece.length / 6);
+    } else if (piece === " ") {
+      continue;
+    } else if (/^[\s\p{N}]/u.test(piece)) {
+      count += 1;
+    } else {
+      count += Math.ceil(piece.length / 2);
+    }
+  }
+  return count;
+}
+
+const registry = new Map<string, Tokenizer>();
+
+/**
+ * Register a tokenizer, replacing any existing one with the same id
+ */
+export function registerTokenizer(tokenizer: Tokenizer): void {
+  registry.set(tokenizer.id, tokenizer);
+}
+
+/**
+ * All registered tokenizers, in registration order
+ */
+export function getTokenizers(): Tokenizer[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Look up a tokenizer by id, falling back to the default for unknown ids
+ */
+export function getTokenizer(id: string | undefined): Tokenizer {
+  return (
+    (id !== undefined ? registry.get(id) : undefined) ??
+    registry.get(DEFAULT_TOKENIZER_ID)!
+  );
+}
+
+registerTokenizer({
+  id: "cl100k",
+  label: "GPT-4 / GPT-3.5",
+  description: "OpenAI cl100k_base encoding",
+  approximate: false,
+  countTokens: (text) => countCl100kTokens(text),
+});
+
+registerTokenizer({
+  id: "o200k",
+  label: "GPT-4o / o-series",
+  description: "OpenAI o200k_base encoding",
+  approximate: false,
+  countTokens: (text) => countO200kTokens(text),
+});
+
+registerTokenizer({
+  id: "claude",
+  label: "Claude (approx.)",
+  description: "Anthropic Claude, estimated from cl100k_base",
+  approximate: true,
+  countTokens: (text) => Math.ceil(countCl100kTokens(text) * CLAUDE_CL100K_RATIO),
+});
+
+registerTokenizer({
+  id: "gemini",
+  label: "Gemini (approx.)",
+  description: "Google Gemini, SentencePiece estimate",
+  approximate: true,
+  countTokens: countSentencePieceTokens,
+});
+
+registerTokenizer({
+  id: "chars4",
+  label: "Characters / 4",
+  description: "Model-agnostic heuristic of four characters per token",
+  approximate: true,
+  countTokens: (text) => Math.ceil(text.length / 4),
+});
@@ -0,0 +1,52 @@
+import * as fs from "fs";
+import { parentPort } from "worker_threads";
+import { getTokenizers } from "../utils/tokenizers";
+import { decodeText } from "../utils/encoding";
+
+/**
+ * Request sent to a tokenize worker
+ */
+export interface TokenizeRequest {
+  id: number;
+  filePath: string;
+  tokenizerId: string;
+
+  /** Encoding configured for the file (WHATWG label); detected when omitted */
+  encoding?: string;
+}
+
+/**
+ * Response from a tokenize worker
+ */
+export type TokenizeResponse =
+  | { id: number; tokens: number }
+  | { id: number; error: string; code?: string };
+
+/**
+ * Worker thread entry point: reads a file and counts its tokens off the extension host thread
+ */
+parentPort?.on("message", async (request: TokenizeRequest) => {
+  let response: TokenizeResponse;
+
+  try {
+    const tokenizer = getTokenizers().find(
+      (candidate) => candidate.id === request.tokenizerId
+    );
+    if (!tokenizer) {
+      throw Object.assign(new Error(`Unknown tokenizer: ${request.tokenizerId}`), {
+        code: "EUNKNOWNTOKENIZER",
+      });
+    }
+
+    const { text } = decodeText(await fs.promises.readFile(request.filePath), request.encoding);
+    response = { id: request.id, tokens: tokenizer.countTokens(text) };
+  } catch (error: any) {
+    response = {
+      id: request.id,
+      error: error instanceof Error ? error.message : String(error),
+      code: error?.code,
+    };
+  }
+
+  parentPort?.postMessage(response);
+});